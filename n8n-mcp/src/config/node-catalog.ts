@@ -0,0 +1,34 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import dotenv from 'dotenv';
+
+// Node catalog configuration schema
+const nodeCatalogConfigSchema = z.object({
+  N8N_NODE_CATALOG_DIR: z.string().min(1).default('./node-catalog'),
+  N8N_NODE_CATALOG_BUNDLED: z.enum(['true', 'false']).default('true'),
+});
+
+// The snapshot shipped with the package, in catalog/ next to src/ and dist/
+const BUNDLED_CATALOG_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../catalog');
+
+// Parse and validate the node catalog locations: a writable directory for
+// imported catalogs and the bundled snapshot used for versions it lacks
+export function getNodeCatalogConfig() {
+  dotenv.config();
+
+  const result = nodeCatalogConfigSchema.safeParse(process.env);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new Error(`Invalid node catalog configuration: ${issues}`);
+  }
+
+  const config = result.data;
+  return {
+    catalogDir: path.resolve(config.N8N_NODE_CATALOG_DIR),
+    bundledDir: config.N8N_NODE_CATALOG_BUNDLED === 'true' ? BUNDLED_CATALOG_DIR : null,
+  };
+}
+
+// Type export
+export type NodeCatalogConfig = ReturnType<typeof getNodeCatalogConfig>;
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import dotenv from 'dotenv';
+
+// MCP server transport configuration schema
+const serverConfigSchema = z.object({
+  MCP_MODE: z.enum(['stdio', 'http']).default('stdio'),
+  MCP_PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  MCP_HOST: z.string().min(1).default('0.0.0.0'),
+  MCP_ENDPOINT: z.string().regex(/^\//, 'must start with /').default('/mcp'),
+  MCP_AUTH_TOKEN: z.string().optional().transform(token => token || undefined),
+  MCP_STATELESS: z.enum(['true', 'false']).default('false'),
+});
+
+/**
+ * Read CLI flags that override the environment:
+ * --http, --stdio, --transport <stdio|http>, --port <n>, --host <host>, --endpoint <path>
+ */
+function parseCliFlags(argv: string[]): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  const flagToEnv: Record<string, string> = {
+    '--transport': 'MCP_MODE',
+    '--port': 'MCP_PORT',
+    '--host': 'MCP_HOST',
+    '--endpoint': 'MCP_ENDPOINT',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split('=', 2);
+    if (flag === '--http' || flag === '--stdio') {
+      overrides.MCP_MODE = flag.slice(2);
+    } else if (flag === '--stateless') {
+      overrides.MCP_STATELESS = 'true';
+    } else if (flagToEnv[flag]) {
+      const value = inlineValue ?? argv[++i];
+      if (value !== undefined) {
+        overrides[flagToEnv[flag]] = value;
+      }
+    }
+  }
+
+  return overrides;
+}
+
+// Parse and validate the transport configuration from env vars and CLI flags
+export function getServerConfig(argv: string[] = process.argv.slice(2)) {
+  dotenv.config();
+
+  const result = serverConfigSchema.safeParse({ ...process.env, ...parseCliFlags(argv) });
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new Error(`Invalid server configuration: ${issues}`);
+  }
+
+  const config = result.data;
+  return {
+    transport: config.MCP_MODE,
+    port: config.MCP_PORT,
+    host: config.MCP_HOST,
+    endpoint: config.MCP_ENDPOINT as `/${string}`,
+    authToken: config.MCP_AUTH_TOKEN,
+    stateless: config.MCP_STATELESS === 'true',
+  };
+}
+
+// Type export
+export type ServerConfig = ReturnType<typeof getServerConfig>;
@@ -0,0 +1,35 @@
+import path from 'path';
+import { z } from 'zod';
+import dotenv from 'dotenv';
+
+// Workflow storage configuration schema
+const storageConfigSchema = z.object({
+  WORKFLOW_STORAGE: z.enum(['filesystem', 'sqlite', 'memory']).default('filesystem'),
+  WORKFLOWS_DIR: z.string().min(1).default('./workflows'),
+  WORKFLOW_SQLITE_PATH: z.string().min(1).default('./workflows.sqlite'),
+  WORKFLOW_WORKSPACE_ROOT: z.string().optional().transform(root => root || undefined),
+});
+
+// Parse and validate where workflows are stored. With the filesystem backend
+// workspaces are directories, which must lie inside WORKFLOW_WORKSPACE_ROOT when it is set;
+// the other backends keep each workspace as a separate namespace.
+export function getStorageConfig() {
+  dotenv.config();
+
+  const result = storageConfigSchema.safeParse(process.env);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new Error(`Invalid storage configuration: ${issues}`);
+  }
+
+  const config = result.data;
+  return {
+    backend: config.WORKFLOW_STORAGE,
+    workflowsDir: path.resolve(config.WORKFLOWS_DIR),
+    sqlitePath: path.resolve(config.WORKFLOW_SQLITE_PATH),
+    workspaceRoot: config.WORKFLOW_WORKSPACE_ROOT ? path.resolve(config.WORKFLOW_WORKSPACE_ROOT) : undefined,
+  };
+}
+
+// Type export
+export type StorageConfig = ReturnType<typeof getStorageConfig>;
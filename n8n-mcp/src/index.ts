@@ -3,6 +3,8 @@ import { FastMCP } from "fastmcp";
 import { z } from "zod";
 import { logger } from "./utils/logger.js";
 import { isN8nApiConfigured } from "./config/n8n-api.js";
+import { getServerConfig } from "./config/server.js";
+import { createBearerAuthenticator } from "./utils/bearer-auth.js";
 
 // Import workflow tools
 import {
@@ -10,7 +12,14 @@ import {
   listWorkflowsTool,
   getWorkflowDetailsTool,
   deleteWorkflowTool,
+  renameWorkflowTool,
   validateWorkflowTool,
+  checkWorkflowCompatibilityTool,
+  migrateWorkflowsTool,
+  diffWorkflowsTool,
+  autoLayoutWorkflowTool,
+  applyWorkflowOperationsTool,
+  renderWorkflowDiagramTool,
 } from "./tools/workflow-tools.js";
 
 // Import node tools
@@ -20,6 +29,8 @@ import {
   deleteNodeTool,
   listAvailableNodesTool,
   getN8nVersionInfoTool,
+  validateNodeParametersTool,
+  refreshNodeCatalogTool,
 } from "./tools/node-tools.js";
 
 // Import connection tools
@@ -52,28 +63,107 @@ import {
   validatePropertyConfigurationTool,
 } from "./tools/advanced-services-tools.js";
 
+// Import n8n API tools
+import {
+  n8nListWorkflowsTool,
+  n8nGetWorkflowTool,
+  n8nCreateWorkflowTool,
+  n8nUpdateWorkflowTool,
+  n8nActivateWorkflowTool,
+  n8nDeactivateWorkflowTool,
+  n8nListExecutionsTool,
+  n8nGetExecutionTool,
+  n8nDeleteExecutionTool,
+  n8nListCredentialsTool,
+  n8nListTagsTool,
+  n8nCreateTagTool,
+  n8nUpdateTagTool,
+  n8nDeleteTagTool,
+  n8nUpdateWorkflowTagsTool,
+} from "./tools/n8n-api-tools.js";
+
+// Import workflow test tools
+import {
+  runWorkflowTestTool,
+} from "./tools/workflow-test-tools.js";
+
+// Import history tools
+import {
+  listWorkflowRevisionsTool,
+  diffWorkflowRevisionsTool,
+  restoreWorkflowRevisionTool,
+  undoLastChangeTool,
+} from "./tools/history-tools.js";
+
+// Import tag tools
+import {
+  listTagsTool,
+  updateWorkflowTagsTool,
+  renameTagTool,
+  deleteTagTool,
+} from "./tools/tag-tools.js";
+
+// Import credential tools
+import {
+  analyzeWorkflowCredentialsTool,
+  bindCredentialsTool,
+} from "./tools/credential-tools.js";
+
+// Import sync tools
+import {
+  syncPushWorkflowTool,
+  syncPullWorkflowTool,
+  syncStatusTool,
+} from "./tools/sync-tools.js";
+
 /**
  * Initializes and starts the n8n MCP (Model Context Protocol) Server.
  *
  * This function sets up a FastMCP server that provides n8n workflow management tools
- * through the MCP protocol. The server communicates via stdio transport,
- * making it suitable for integration with MCP clients and AI agents.
+ * through the MCP protocol. The server communicates via stdio by default, or over
+ * HTTP streaming / SSE (MCP_MODE=http or --http) so several clients can share it.
  */
 async function main() {
-	console.log("Initializing n8n MCP Server...");
+	const serverConfig = getServerConfig();
+	const useHttp = serverConfig.transport === "http";
+
+	// stdout carries the protocol in stdio mode
+	if (useHttp) {
+		console.log("Initializing n8n MCP Server...");
+	}
 
 	const server = new FastMCP({
 		name: "n8n MCP Server",
 		version: "0.1.0",
+		...(useHttp && serverConfig.authToken
+			? { authenticate: createBearerAuthenticator(serverConfig.authToken) }
+			: {}),
+		health: {
+			enabled: true,
+			path: "/health",
+			message: "ok",
+		},
 		instructions: `This MCP server provides tools for building and managing n8n workflows.
 
 Key Features:
-- Create, edit, and delete n8n workflows
+- Create, edit, rename, and delete n8n workflows
 - Add, edit, and remove nodes in workflows
+- Apply batches of node and connection edits atomically
 - Manage connections between nodes
 - Discover available n8n node types
+- Load node definitions from a bundled snapshot or import them per n8n version from types/nodes.json
 - Compose complex AI workflows with agents, models, memory, and tools
-- Validate workflow structure and connectivity
+- Validate workflow structure, connectivity and {{ }} expressions
+- Check workflows against a target n8n version before upgrading
+- Lay out workflows automatically (layered main flow, AI sub-nodes below their agent)
+- Compare workflows with a semantic diff (nodes, parameters, credentials, connections)
+- Render workflows as Mermaid or Graphviz DOT diagrams
+- Manage workflows, executions, credentials and tags on a live n8n instance (when N8N_API_URL and N8N_API_KEY are set)
+- Push and pull local workflow files to and from the n8n instance with drift detection
+- Roll back local edits with per-workflow revision history and undo
+- Organise workflows with tags, locally and on the n8n instance
+- Run workflow regression tests that assert node outputs against pinned data
+- Check which credentials each node needs and bind existing n8n credentials to them
 
 The server supports n8n workflow JSON format and provides AI-friendly interfaces
 for building automation workflows programmatically.`,
@@ -84,7 +174,14 @@ for building automation workflows programmatically.`,
 	server.addTool(listWorkflowsTool);
 	server.addTool(getWorkflowDetailsTool);
 	server.addTool(deleteWorkflowTool);
+	server.addTool(renameWorkflowTool);
 	server.addTool(validateWorkflowTool);
+	server.addTool(checkWorkflowCompatibilityTool);
+	server.addTool(migrateWorkflowsTool);
+	server.addTool(diffWorkflowsTool);
+	server.addTool(autoLayoutWorkflowTool);
+	server.addTool(applyWorkflowOperationsTool);
+	server.addTool(renderWorkflowDiagramTool);
 
 	// Add node management tools
 	server.addTool(addNodeTool);
@@ -92,6 +189,8 @@ for building automation workflows programmatically.`,
 	server.addTool(deleteNodeTool);
 	server.addTool(listAvailableNodesTool);
 	server.addTool(getN8nVersionInfoTool);
+	server.addTool(validateNodeParametersTool);
+	server.addTool(refreshNodeCatalogTool);
 
 	// Add connection management tools
 	server.addTool(addConnectionTool);
@@ -115,6 +214,47 @@ for building automation workflows programmatically.`,
 	server.addTool(getPropertyGroupsTool);
 	server.addTool(validatePropertyConfigurationTool);
 
+	// Add workflow history tools
+	server.addTool(listWorkflowRevisionsTool);
+	server.addTool(diffWorkflowRevisionsTool);
+	server.addTool(restoreWorkflowRevisionTool);
+	server.addTool(undoLastChangeTool);
+
+	// Add tag tools
+	server.addTool(listTagsTool);
+	server.addTool(updateWorkflowTagsTool);
+	server.addTool(renameTagTool);
+	server.addTool(deleteTagTool);
+
+	// Add credential tools (existing credentials are only looked up when the n8n API is configured)
+	server.addTool(analyzeWorkflowCredentialsTool);
+	server.addTool(bindCredentialsTool);
+
+	// Add workflow test tools (usable against a mock instance without API configuration)
+	server.addTool(runWorkflowTestTool);
+
+	// Add n8n API tools only when a live instance is configured
+	if (isN8nApiConfigured()) {
+		server.addTool(n8nListWorkflowsTool);
+		server.addTool(n8nGetWorkflowTool);
+		server.addTool(n8nCreateWorkflowTool);
+		server.addTool(n8nUpdateWorkflowTool);
+		server.addTool(n8nActivateWorkflowTool);
+		server.addTool(n8nDeactivateWorkflowTool);
+		server.addTool(n8nListExecutionsTool);
+		server.addTool(n8nGetExecutionTool);
+		server.addTool(n8nDeleteExecutionTool);
+		server.addTool(n8nListCredentialsTool);
+		server.addTool(n8nListTagsTool);
+		server.addTool(n8nCreateTagTool);
+		server.addTool(n8nUpdateTagTool);
+		server.addTool(n8nDeleteTagTool);
+		server.addTool(n8nUpdateWorkflowTagsTool);
+		server.addTool(syncPushWorkflowTool);
+		server.addTool(syncPullWorkflowTool);
+		server.addTool(syncStatusTool);
+	}
+
 	// Add system information tool
 	server.addTool({
 		name: "get_system_info",
@@ -127,13 +267,19 @@ for building automation workflows programmatically.`,
 
 System Status:
 - n8n API Integration: ${n8nConfigured ? '✅ Configured' : '❌ Not configured'}
-- Available Tools: 29
-- Workflow Tools: 5
-- Node Tools: 5
+- Available Tools: ${n8nConfigured ? 67 : 49}
+- Workflow Tools: 12
+- Node Tools: 7
 - Connection Tools: 3
 - AI Workflow Tools: 1
 - Template Tools: 6
 - Advanced Services Tools: 9
+- Workflow History Tools: 4
+- Tag Tools: 4
+- Workflow Test Tools: 1
+- Credential Tools: 2
+- n8n API Tools: ${n8nConfigured ? 15 : '0 (requires n8n API configuration)'}
+- Sync Tools: ${n8nConfigured ? 3 : '0 (requires n8n API configuration)'}
 - System Tools: 2
 
 ${!n8nConfigured ? `
@@ -157,13 +303,24 @@ For help with specific tools, use the get_tool_documentation tool.`;
 		}),
 		execute: async (args) => {
 			const allTools = [
-				createWorkflowTool, listWorkflowsTool, getWorkflowDetailsTool, deleteWorkflowTool, validateWorkflowTool,
-				addNodeTool, editNodeTool, deleteNodeTool, listAvailableNodesTool, getN8nVersionInfoTool,
+				createWorkflowTool, listWorkflowsTool, getWorkflowDetailsTool, deleteWorkflowTool, renameWorkflowTool, validateWorkflowTool, checkWorkflowCompatibilityTool, migrateWorkflowsTool, diffWorkflowsTool, autoLayoutWorkflowTool, applyWorkflowOperationsTool, renderWorkflowDiagramTool,
+				addNodeTool, editNodeTool, deleteNodeTool, listAvailableNodesTool, getN8nVersionInfoTool, validateNodeParametersTool, refreshNodeCatalogTool,
 				addConnectionTool, removeConnectionTool, addAiConnectionsTool, composeAiWorkflowTool,
 				...templateTools,
 				getNodeExamplesTool, searchNodeExamplesTool, validateNodeConfigurationTool,
 				scoreResourceLocatorTool, scoreNodeTypeSuggestionTool, scoreWorkflowValidationTool,
-				analyzePropertyDependenciesTool, getPropertyGroupsTool, validatePropertyConfigurationTool
+				analyzePropertyDependenciesTool, getPropertyGroupsTool, validatePropertyConfigurationTool,
+				listWorkflowRevisionsTool, diffWorkflowRevisionsTool, restoreWorkflowRevisionTool, undoLastChangeTool,
+				listTagsTool, updateWorkflowTagsTool, renameTagTool, deleteTagTool,
+				runWorkflowTestTool,
+				analyzeWorkflowCredentialsTool, bindCredentialsTool,
+				...(isN8nApiConfigured() ? [
+					n8nListWorkflowsTool, n8nGetWorkflowTool, n8nCreateWorkflowTool, n8nUpdateWorkflowTool,
+					n8nActivateWorkflowTool, n8nDeactivateWorkflowTool, n8nListExecutionsTool, n8nGetExecutionTool,
+					n8nDeleteExecutionTool, n8nListCredentialsTool, n8nListTagsTool,
+					n8nCreateTagTool, n8nUpdateTagTool, n8nDeleteTagTool, n8nUpdateWorkflowTagsTool,
+					syncPushWorkflowTool, syncPullWorkflowTool, syncStatusTool
+				] : [])
 			];
 			const tool = allTools.find(t => t.name === args.tool_name);
 			
@@ -180,14 +337,36 @@ Parameters: ${JSON.stringify(tool.parameters, null, 2)}`;
 	// Log startup information
 	logger.info("Starting n8n MCP Server...");
 	logger.info(`n8n API Integration: ${isN8nApiConfigured() ? 'Enabled' : 'Disabled'}`);
-	logger.info(`Total tools loaded: 29`);
+	logger.info(`Total tools loaded: ${isN8nApiConfigured() ? 67 : 49}`);
 
 	try {
-		await server.start({
-			transportType: "stdio",
-		});
-		logger.info("✅ n8n MCP Server started successfully over stdio.");
-		logger.info("   You can now connect to it using an MCP client.");
+		if (useHttp) {
+			if (!serverConfig.authToken) {
+				logger.warn("MCP_AUTH_TOKEN is not set; the HTTP endpoint accepts unauthenticated requests.");
+			}
+
+			await server.start({
+				transportType: "httpStream",
+				httpStream: {
+					host: serverConfig.host,
+					port: serverConfig.port,
+					endpoint: serverConfig.endpoint,
+					stateless: serverConfig.stateless,
+				},
+			});
+			const baseUrl = `http://${serverConfig.host}:${serverConfig.port}`;
+			logger.info(`✅ n8n MCP Server started successfully over HTTP.`);
+			logger.info(`   HTTP streaming endpoint: ${baseUrl}${serverConfig.endpoint}`);
+			logger.info(`   SSE endpoint: ${baseUrl}/sse`);
+			logger.info(`   Health check: ${baseUrl}/health`);
+			logger.info(`   Authentication: ${serverConfig.authToken ? 'bearer token' : 'disabled'}`);
+		} else {
+			await server.start({
+				transportType: "stdio",
+			});
+			logger.info("✅ n8n MCP Server started successfully over stdio.");
+			logger.info("   You can now connect to it using an MCP client.");
+		}
 		logger.info("   Available tools: workflow management, node operations, and AI workflow composition!");
 	} catch (error) {
 		logger.error("❌ Failed to start n8n MCP Server:", error);
@@ -0,0 +1,50 @@
+/**
+ * Locking helpers for workflow storage: an in-process mutex per key and a
+ * polling loop for locks shared with other processes (lock files, lock rows).
+ */
+
+// How long to wait for a lock held by someone else
+export const LOCK_TIMEOUT_MS = 10_000;
+
+// Locks older than this are left over from a crashed process and may be taken over
+export const STALE_LOCK_MS = 30_000;
+
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Runs callbacks one at a time per key, in the order they were queued
+ */
+export class KeyedMutex {
+  private tails = new Map<string, Promise<void>>();
+
+  async runExclusive<T>(key: string, callback: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => { release = resolve; });
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await callback();
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Call tryAcquire until it succeeds, giving up after LOCK_TIMEOUT_MS
+ */
+export async function acquireWithRetry(tryAcquire: () => Promise<boolean>, description: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!(await tryAcquire())) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for the lock on ${description}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
@@ -0,0 +1,376 @@
+import { N8nNodeDefinition } from '../types.js';
+
+export interface NodeSearchOptions {
+  /** Require every search term to match instead of any of them */
+  matchAll?: boolean;
+}
+
+export type NodeSearchMatchKind = 'exact' | 'prefix' | 'typo' | 'synonym';
+
+export interface NodeSearchMatch {
+  /** Search term as typed */
+  query: string;
+  /** Catalog term it matched */
+  term: string;
+  kind: NodeSearchMatchKind;
+}
+
+export interface NodeSearchResult {
+  node: N8nNodeDefinition;
+  score: number;
+  matches: NodeSearchMatch[];
+}
+
+type SearchField = 'name' | 'displayName' | 'alias' | 'category' | 'description';
+
+/**
+ * Inverted index over the node definitions of one catalog version
+ */
+export interface NodeSearchIndex {
+  nodes: N8nNodeDefinition[];
+  /** Term -> node position -> BM25 score of the term for that node */
+  postings: Map<string, Map<number, number>>;
+  /** Display name and type name of each node without spaces or punctuation, for whole-phrase matches */
+  phrases: string[][];
+  /** Normalised term -> its shortest spelling in the catalog, for display */
+  vocabulary: Map<string, string>;
+  expansions: Map<string, TermExpansion[]>;
+}
+
+export interface TermExpansion {
+  term: string;
+  kind: NodeSearchMatchKind;
+  weight: number;
+}
+
+// BM25F: per-field weights, with the usual saturation and length normalisation
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  displayName: 3,
+  alias: 2,
+  category: 1,
+  description: 1,
+};
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+const K1 = 1.2;
+const B = 0.75;
+
+// How much a term reached indirectly counts compared with the typed term
+const EXPANSION_WEIGHTS = { prefix: 0.7, typo: 0.6, typo2: 0.4, synonym: 0.5 };
+
+const EXACT_PHRASE_BONUS = 5;
+const PHRASE_PREFIX_BONUS = 2;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with', 'node', 'nodes', 'n8n']);
+
+/**
+ * Words agents use for a job mapped to the node names and terms that do it.
+ * Values may be whole type names ('emailsend'), which the index also holds.
+ */
+const SYNONYMS: Record<string, string[]> = {
+  email: ['gmail', 'emailsend', 'emailreadimap', 'imap', 'smtp', 'outlook', 'mail'],
+  mail: ['email', 'gmail', 'emailsend', 'emailreadimap'],
+  inbox: ['gmail', 'emailreadimap', 'imap', 'outlook'],
+  db: ['database', 'postgres', 'mysql', 'mongodb', 'redis', 'sql', 'supabase'],
+  database: ['db', 'postgres', 'mysql', 'mongodb', 'redis', 'sql', 'supabase'],
+  sql: ['postgres', 'mysql', 'microsoftsql', 'database'],
+  spreadsheet: ['googlesheets', 'sheet', 'excel', 'airtable', 'spreadsheetfile'],
+  excel: ['spreadsheet', 'microsoftexcel', 'spreadsheetfile', 'googlesheets'],
+  chat: ['slack', 'telegram', 'discord', 'mattermost', 'microsoftteams', 'message'],
+  message: ['slack', 'telegram', 'discord', 'chat'],
+  sms: ['twilio', 'vonage', 'messagebird'],
+  llm: ['model', 'openai', 'anthropic', 'gemini', 'lmchatopenai', 'lmchatanthropic'],
+  gpt: ['openai', 'lmchatopenai', 'chatgpt'],
+  ai: ['agent', 'llm', 'openai', 'langchain'],
+  cron: ['schedule', 'scheduletrigger', 'interval'],
+  schedule: ['cron', 'scheduletrigger', 'interval'],
+  timer: ['schedule', 'scheduletrigger', 'interval', 'wait'],
+  delay: ['wait'],
+  sleep: ['wait'],
+  api: ['httprequest', 'http', 'webhook'],
+  rest: ['httprequest', 'http', 'api'],
+  http: ['httprequest', 'webhook'],
+  curl: ['httprequest'],
+  fetch: ['httprequest'],
+  javascript: ['code'],
+  js: ['code'],
+  python: ['code'],
+  script: ['code', 'executecommand'],
+  shell: ['executecommand', 'ssh'],
+  condition: ['if', 'switch', 'filter'],
+  branch: ['if', 'switch'],
+  route: ['switch', 'if'],
+  loop: ['splitinbatches', 'batch'],
+  iterate: ['splitinbatches', 'splitout'],
+  batch: ['splitinbatches'],
+  csv: ['spreadsheetfile', 'extractfromfile', 'converttofile'],
+  pdf: ['extractfromfile', 'readpdf'],
+  file: ['readwritefile', 'extractfromfile', 'converttofile'],
+  transform: ['set', 'code', 'aggregate', 'splitout'],
+  map: ['set', 'renamekeys'],
+  dedupe: ['removeduplicates'],
+  join: ['merge'],
+  combine: ['merge', 'aggregate'],
+  vector: ['vectorstore', 'embedding', 'pinecone', 'qdrant', 'supabase', 'pgvector'],
+  embedding: ['vectorstore', 'embeddings'],
+  rag: ['vectorstore', 'retriever', 'embedding', 'chainretrievalqa'],
+  git: ['github', 'gitlab'],
+  repo: ['github', 'gitlab', 'git'],
+  queue: ['rabbitmq', 'kafka', 'amqp', 'redis'],
+  cache: ['redis'],
+  rss: ['rssfeedread'],
+  error: ['errortrigger', 'stopanderror'],
+};
+
+const SYNONYM_INDEX = new Map(Object.entries(SYNONYMS).map(([key, values]) => [
+  normalizeTerm(key),
+  values.map(normalizeTerm),
+]));
+
+/**
+ * Strip simple English plurals so that 'sheets' finds 'sheet'
+ */
+function normalizeTerm(term: string): string {
+  const lower = term.toLowerCase();
+  if (lower.length > 4 && lower.endsWith('ies')) return `${lower.slice(0, -3)}y`;
+  if (lower.length > 3 && lower.endsWith('s') && !/(ss|us|is)$/.test(lower)) return lower.slice(0, -1);
+  return lower;
+}
+
+/**
+ * Split text into normalised terms, breaking camelCase identifiers apart
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(normalizeTerm);
+}
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Edit distance with transpositions, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Build the search index for a list of node definitions. Term scores are
+ * computed up front (BM25F over the weighted fields), so a search only
+ * visits the postings of the terms it asks for.
+ */
+export function buildNodeSearchIndex(nodes: N8nNodeDefinition[], includeTags: boolean = true): NodeSearchIndex {
+  const vocabulary = new Map<string, string>();
+  const totals: Record<SearchField, number> = { name: 0, displayName: 0, alias: 0, category: 0, description: 0 };
+
+  const addSurfaceForms = (text: string) => {
+    const words = text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean);
+    for (const word of words) {
+      const term = normalizeTerm(word);
+      const surface = vocabulary.get(term);
+      if (!surface || word.length < surface.length) vocabulary.set(term, word.toLowerCase());
+    }
+  };
+
+  const docs = nodes.map(node => {
+    const localName = node.name.split('.').pop() || node.name;
+    const codex = node.codex;
+    const texts: Record<SearchField, string[]> = {
+      name: [localName],
+      displayName: [node.displayName || ''],
+      alias: includeTags ? codex?.alias || [] : [],
+      category: [
+        ...(codex?.categories || []),
+        ...(node.group || []),
+        ...(includeTags ? Object.entries(codex?.subcategories || {}).flat(2) : []),
+      ],
+      description: [node.description || ''],
+    };
+
+    const terms = {} as Record<SearchField, Map<string, number>>;
+    const lengths = {} as Record<SearchField, number>;
+    for (const field of SEARCH_FIELDS) {
+      const fieldTerms = texts[field].flatMap(text => tokenizeSearchText(String(text)));
+      // Whole names let 'googlesheets' or 'httprequest' match without spaces
+      if (field === 'name' || field === 'displayName') {
+        const whole = normalizeTerm(compact(texts[field][0]));
+        if (whole && !fieldTerms.includes(whole)) fieldTerms.push(whole);
+        if (whole && !vocabulary.has(whole)) vocabulary.set(whole, compact(texts[field][0]));
+      }
+      texts[field].forEach(text => addSurfaceForms(String(text)));
+
+      const counts = new Map<string, number>();
+      fieldTerms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+      terms[field] = counts;
+      lengths[field] = fieldTerms.length;
+      totals[field] += fieldTerms.length;
+    }
+
+    return { terms, lengths, phrases: [compact(node.displayName || ''), compact(localName)] };
+  });
+
+  const averageLengths = Object.fromEntries(
+    SEARCH_FIELDS.map(field => [field, docs.length ? totals[field] / docs.length || 1 : 1])
+  ) as Record<SearchField, number>;
+
+  // Length-normalised, field-weighted term frequencies
+  const frequencies = new Map<string, Map<number, number>>();
+  docs.forEach((doc, position) => {
+    for (const field of SEARCH_FIELDS) {
+      const norm = 1 - B + B * doc.lengths[field] / averageLengths[field];
+      for (const [term, count] of doc.terms[field]) {
+        let posting = frequencies.get(term);
+        if (!posting) {
+          posting = new Map();
+          frequencies.set(term, posting);
+        }
+        posting.set(position, (posting.get(position) || 0) + FIELD_WEIGHTS[field] * count / norm);
+      }
+    }
+  });
+
+  const postings = new Map<string, Map<number, number>>();
+  for (const [term, posting] of frequencies) {
+    const idf = Math.log(1 + (docs.length - posting.size + 0.5) / (posting.size + 0.5));
+    postings.set(term, new Map([...posting].map(([position, weighted]) => [
+      position,
+      idf * weighted * (K1 + 1) / (K1 + weighted),
+    ])));
+  }
+
+  return { nodes, postings, phrases: docs.map(doc => doc.phrases), vocabulary, expansions: new Map() };
+}
+
+/**
+ * Catalog terms a search term stands for: itself, longer terms it starts,
+ * close spellings when it is not a known term, and synonyms
+ */
+function expandTerm(index: NodeSearchIndex, queryTerm: string): TermExpansion[] {
+  const cached = index.expansions.get(queryTerm);
+  if (cached) return cached;
+
+  const expansions = new Map<string, TermExpansion>();
+  const add = (term: string, kind: NodeSearchMatchKind, weight: number) => {
+    const existing = expansions.get(term);
+    if (!existing || existing.weight < weight) expansions.set(term, { term, kind, weight });
+  };
+
+  const known = index.postings.has(queryTerm);
+  if (known) add(queryTerm, 'exact', 1);
+
+  for (const term of index.postings.keys()) {
+    if (term === queryTerm) continue;
+    if (queryTerm.length >= 3 && term.startsWith(queryTerm)) {
+      add(term, 'prefix', EXPANSION_WEIGHTS.prefix);
+    } else if (!known && queryTerm.length >= 4) {
+      const maxDistance = queryTerm.length >= 7 ? 2 : 1;
+      const distance = editDistance(queryTerm, term, maxDistance);
+      if (distance <= maxDistance) {
+        add(term, 'typo', distance === 1 ? EXPANSION_WEIGHTS.typo : EXPANSION_WEIGHTS.typo2);
+      }
+    }
+  }
+
+  for (const synonym of SYNONYM_INDEX.get(queryTerm) || []) {
+    if (synonym !== queryTerm && index.postings.has(synonym)) {
+      add(synonym, 'synonym', EXPANSION_WEIGHTS.synonym);
+    }
+  }
+
+  const result = [...expansions.values()];
+  index.expansions.set(queryTerm, result);
+  return result;
+}
+
+/**
+ * Rank the indexed nodes against a free-text query. Results are sorted by
+ * score; nodes that match nothing are left out.
+ */
+export function searchNodeIndex(
+  index: NodeSearchIndex,
+  query: string,
+  options: NodeSearchOptions = {}
+): NodeSearchResult[] {
+  const allTerms = [...new Set(tokenizeSearchText(query))];
+  const meaningful = allTerms.filter(term => !STOP_WORDS.has(term));
+  const queryTerms = meaningful.length > 0 ? meaningful : allTerms;
+  if (queryTerms.length === 0) return [];
+
+  const scores = new Map<number, { score: number; matches: NodeSearchMatch[] }>();
+
+  // Each search term counts once per node, through whichever of its expansions scores best
+  for (const queryTerm of queryTerms) {
+    const best = new Map<number, { expansion: TermExpansion; score: number }>();
+    for (const expansion of expandTerm(index, queryTerm)) {
+      for (const [position, termScore] of index.postings.get(expansion.term) || []) {
+        const score = termScore * expansion.weight;
+        const current = best.get(position);
+        if (!current || score > current.score) {
+          best.set(position, { expansion, score });
+        }
+      }
+    }
+
+    for (const [position, { expansion, score }] of best) {
+      const entry = scores.get(position) || { score: 0, matches: [] };
+      entry.score += score;
+      entry.matches.push({
+        query: queryTerm,
+        term: index.vocabulary.get(expansion.term) || expansion.term,
+        kind: expansion.kind,
+      });
+      scores.set(position, entry);
+    }
+  }
+
+  const phrase = compact(query);
+  const results: NodeSearchResult[] = [];
+  for (const [position, { score, matches }] of scores) {
+    if (options.matchAll && matches.length < queryTerms.length) {
+      continue;
+    }
+
+    const phrases = index.phrases[position];
+    let bonus = 0;
+    if (phrase && phrases.includes(phrase)) {
+      bonus = EXACT_PHRASE_BONUS;
+    } else if (phrase.length >= 3 && phrases.some(candidate => candidate.startsWith(phrase))) {
+      bonus = PHRASE_PREFIX_BONUS;
+    }
+
+    results.push({ node: index.nodes[position], score: score + bonus, matches });
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.node.displayName.localeCompare(b.node.displayName));
+}
@@ -0,0 +1,172 @@
+import { N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import { ConnectionEdge, listConnectionEdges } from './workflow-diff.js';
+import { isTriggerNode } from './workflow-utils.js';
+
+export type DiagramFormat = 'mermaid' | 'dot';
+
+export interface DiagramOptions {
+  direction?: 'LR' | 'TB';
+  includeTypes?: boolean;
+}
+
+interface DiagramEdge extends ConnectionEdge {
+  label?: string;
+  ai: boolean;
+}
+
+// Fixed output names of nodes whose outputs are branches
+const OUTPUT_LABELS: Record<string, string[]> = {
+  'n8n-nodes-base.if': ['true', 'false'],
+  'n8n-nodes-base.filter': ['kept', 'discarded'],
+  'n8n-nodes-base.splitInBatches': ['done', 'loop'],
+};
+
+/**
+ * Render a workflow as a Mermaid flowchart or Graphviz DOT graph.
+ * Main connections are solid arrows labelled with their branch name; AI
+ * connections from sub-nodes (models, memory, tools) are dashed and
+ * labelled with their connection type.
+ */
+export function renderWorkflowDiagram(workflow: N8nWorkflow, format: DiagramFormat, options: DiagramOptions = {}): string {
+  const ids = new Map(workflow.nodes.map((node, index) => [node.name, `n${index}`]));
+  const edges = getDiagramEdges(workflow).filter(edge => ids.has(edge.source) && ids.has(edge.target));
+  const subNodes = new Set(workflow.nodes
+    .filter(node => {
+      const outgoing = edges.filter(edge => edge.source === node.name);
+      return outgoing.length > 0 && outgoing.every(edge => edge.ai);
+    })
+    .map(node => node.name));
+
+  return format === 'dot'
+    ? renderDot(workflow, ids, edges, subNodes, options)
+    : renderMermaid(workflow, ids, edges, subNodes, options);
+}
+
+function renderMermaid(
+  workflow: N8nWorkflow,
+  ids: Map<string, string>,
+  edges: DiagramEdge[],
+  subNodes: Set<string>,
+  options: DiagramOptions
+): string {
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const lines = [`flowchart ${options.direction || 'LR'}`];
+
+  for (const node of workflow.nodes) {
+    const label = `"${escape(nodeLabel(node, options, '<br/>'))}"`;
+    const id = ids.get(node.name)!;
+    if (isTriggerNode(node)) lines.push(`  ${id}([${label}])`);
+    else if (subNodes.has(node.name)) lines.push(`  ${id}(${label})`);
+    else lines.push(`  ${id}[${label}]`);
+  }
+
+  for (const edge of edges) {
+    const arrow = edge.ai ? '-.->' : '-->';
+    const label = edge.label ? `|"${escape(edge.label)}"|` : '';
+    lines.push(`  ${ids.get(edge.source)} ${arrow}${label} ${ids.get(edge.target)}`);
+  }
+
+  if (subNodes.size > 0) {
+    lines.push('  classDef aiSubNode fill:#f3e8ff,stroke:#7c3aed');
+    lines.push(`  class ${[...subNodes].map(name => ids.get(name)).join(',')} aiSubNode`);
+  }
+  const disabled = workflow.nodes.filter(node => node.disabled);
+  if (disabled.length > 0) {
+    lines.push('  classDef disabled stroke-dasharray:4 4,color:#999');
+    lines.push(`  class ${disabled.map(node => ids.get(node.name)).join(',')} disabled`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderDot(
+  workflow: N8nWorkflow,
+  ids: Map<string, string>,
+  edges: DiagramEdge[],
+  subNodes: Set<string>,
+  options: DiagramOptions
+): string {
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const lines = [
+    `digraph "${escape(workflow.name)}" {`,
+    `  rankdir=${options.direction || 'LR'};`,
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const node of workflow.nodes) {
+    const attributes = [`label="${escape(nodeLabel(node, options, '\n')).replace(/\n/g, '\\n')}"`];
+    if (isTriggerNode(node)) attributes.push('shape=oval');
+    if (subNodes.has(node.name)) attributes.push('style="rounded,filled"', 'fillcolor="#f3e8ff"', 'color="#7c3aed"');
+    if (node.disabled) attributes.push('fontcolor="#999999"', 'style="rounded,dashed"');
+    lines.push(`  ${ids.get(node.name)} [${attributes.join(', ')}];`);
+  }
+
+  for (const edge of edges) {
+    const attributes: string[] = [];
+    if (edge.label) attributes.push(`label="${escape(edge.label)}"`);
+    if (edge.ai) attributes.push('style=dashed', 'color="#7c3aed"', 'arrowhead=empty');
+    const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+    lines.push(`  ${ids.get(edge.source)} -> ${ids.get(edge.target)}${suffix};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * List connections with the label to draw on each: the branch name for
+ * main outputs of branching nodes, the connection type for AI links
+ */
+function getDiagramEdges(workflow: N8nWorkflow): DiagramEdge[] {
+  const nodesByName = new Map(workflow.nodes.map(node => [node.name, node]));
+  const edges = listConnectionEdges(workflow);
+  const mainOutputCount = new Map<string, number>();
+  for (const edge of edges.filter(edge => edge.type === 'main')) {
+    mainOutputCount.set(edge.source, Math.max(mainOutputCount.get(edge.source) || 0, edge.outputIndex + 1));
+  }
+
+  return edges.map(edge => {
+    if (edge.type !== 'main') {
+      return { ...edge, ai: true, label: edge.type };
+    }
+
+    const source = nodesByName.get(edge.source);
+    const labels = source ? getOutputLabels(source) : [];
+    const branch = labels[edge.outputIndex]
+      ?? ((mainOutputCount.get(edge.source) || 0) > 1 ? `output ${edge.outputIndex}` : undefined);
+    const input = edge.targetIndex > 0 ? `input ${edge.targetIndex + 1}` : undefined;
+    const label = [branch, input].filter(Boolean).join(' → ');
+
+    return { ...edge, ai: false, label: label || undefined };
+  });
+}
+
+/**
+ * Names of a node's main outputs, where n8n gives them one
+ */
+function getOutputLabels(node: N8nWorkflowNode): string[] {
+  let labels = OUTPUT_LABELS[node.type] || [];
+
+  // Switch v3 has one output per rule, optionally renamed, in order
+  if (node.type === 'n8n-nodes-base.switch' && Array.isArray(node.parameters?.rules?.values)) {
+    const rules: any[] = node.parameters.rules.values;
+    labels = rules.map((rule, index) => rule?.renameOutput && rule?.outputKey ? String(rule.outputKey) : `case ${index}`);
+    if (node.parameters?.options?.fallbackOutput === 'extra') {
+      labels.push('fallback');
+    }
+  }
+
+  // Nodes set to continue on error get an extra output after their regular ones
+  if (node.onError === 'continueErrorOutput') {
+    return [...(labels.length > 0 ? labels : ['success']), 'error'];
+  }
+  return labels;
+}
+
+function nodeLabel(node: N8nWorkflowNode, options: DiagramOptions, separator: string): string {
+  if (options.includeTypes === false) {
+    return node.name;
+  }
+  return `${node.name}${separator}${node.type.split('.').pop()}`;
+}
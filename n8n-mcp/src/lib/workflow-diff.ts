@@ -0,0 +1,363 @@
+import { N8nWorkflow, N8nWorkflowNode } from '../types.js';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ValueChange {
+  kind: ChangeKind;
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+export interface NodeRef {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface NodeChange {
+  id: string;
+  name: string;
+  typeChange?: { before: string; after: string };
+  parameterChanges: ValueChange[];
+  credentialChanges: ValueChange[];
+  otherChanges: ValueChange[];
+}
+
+export interface ConnectionEdge {
+  source: string;
+  type: string;
+  outputIndex: number;
+  target: string;
+  targetType: string;
+  targetIndex: number;
+}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: any;
+}
+
+export interface WorkflowDiff {
+  hasChanges: boolean;
+  nodes: {
+    added: NodeRef[];
+    removed: NodeRef[];
+    renamed: Array<{ id: string; from: string; to: string }>;
+    changed: NodeChange[];
+  };
+  connections: {
+    added: ConnectionEdge[];
+    removed: ConnectionEdge[];
+  };
+  workflowChanges: ValueChange[];
+  patch: JsonPatchOperation[];
+}
+
+// Node fields reported in their own sections rather than as "other" changes
+const NODE_FIELDS_REPORTED_SEPARATELY = new Set(['id', 'name', 'type', 'typeVersion', 'parameters', 'credentials']);
+
+// Top-level workflow fields compared besides nodes and connections
+const WORKFLOW_FIELDS = ['name', 'active', 'settings', 'tags', 'pinData', 'staticData'] as const;
+
+/**
+ * Compare two workflows node by node. Nodes are matched by ID, then by name,
+ * then by identical type and parameters (reported as a rename).
+ */
+export function diffWorkflows(before: N8nWorkflow, after: N8nWorkflow): WorkflowDiff {
+  const beforeNodes = before.nodes || [];
+  const afterNodes = after.nodes || [];
+  const matches = matchNodes(beforeNodes, afterNodes);
+  const matchedBefore = new Set(matches.map(([beforeIndex]) => beforeIndex));
+  const matchedAfter = new Set(matches.map(([, afterIndex]) => afterIndex));
+
+  const diff: WorkflowDiff = {
+    hasChanges: false,
+    nodes: { added: [], removed: [], renamed: [], changed: [] },
+    connections: { added: [], removed: [] },
+    workflowChanges: [],
+    patch: [],
+  };
+
+  // Removals go first, from the highest index down, so earlier patch paths stay valid
+  const removedIndexes = beforeNodes.map((_, index) => index).filter(index => !matchedBefore.has(index));
+  for (const index of [...removedIndexes].reverse()) {
+    diff.patch.push({ op: 'remove', path: `/nodes/${index}` });
+  }
+  diff.nodes.removed = removedIndexes.map(index => toNodeRef(beforeNodes[index]));
+
+  const remainingIndexes = beforeNodes.map((_, index) => index).filter(index => matchedBefore.has(index));
+  const renamedNames = new Map<string, string>();
+
+  for (const [beforeIndex, afterIndex] of matches) {
+    const previous = beforeNodes[beforeIndex];
+    const current = afterNodes[afterIndex];
+    const pointer = `/nodes/${remainingIndexes.indexOf(beforeIndex)}`;
+    diffValues(previous, current, pointer, '', diff.patch, []);
+
+    if (previous.name !== current.name) {
+      diff.nodes.renamed.push({ id: current.id, from: previous.name, to: current.name });
+      renamedNames.set(previous.name, current.name);
+    }
+
+    const change = diffNode(previous, current);
+    if (change) {
+      diff.nodes.changed.push(change);
+    }
+  }
+
+  afterNodes.forEach((node, index) => {
+    if (!matchedAfter.has(index)) {
+      diff.nodes.added.push(toNodeRef(node));
+      diff.patch.push({ op: 'add', path: '/nodes/-', value: node });
+    }
+  });
+
+  // Compare connections with renames applied, so a rename alone does not show up as rewiring
+  const beforeEdges = listConnectionEdges(before).map(edge => ({
+    ...edge,
+    source: renamedNames.get(edge.source) ?? edge.source,
+    target: renamedNames.get(edge.target) ?? edge.target,
+  }));
+  const afterEdges = listConnectionEdges(after);
+  const beforeKeys = new Set(beforeEdges.map(edgeKey));
+  const afterKeys = new Set(afterEdges.map(edgeKey));
+  diff.connections.added = afterEdges.filter(edge => !beforeKeys.has(edgeKey(edge)));
+  diff.connections.removed = beforeEdges.filter(edge => !afterKeys.has(edgeKey(edge)));
+
+  const sources = new Set([...Object.keys(before.connections || {}), ...Object.keys(after.connections || {})]);
+  for (const source of sources) {
+    const previous = before.connections?.[source];
+    const current = after.connections?.[source];
+    const path = `/connections/${escapePointer(source)}`;
+    if (previous === undefined) {
+      diff.patch.push({ op: 'add', path, value: current });
+    } else if (current === undefined) {
+      diff.patch.push({ op: 'remove', path });
+    } else if (!deepEqual(previous, current)) {
+      diff.patch.push({ op: 'replace', path, value: current });
+    }
+  }
+
+  for (const field of WORKFLOW_FIELDS) {
+    diffValues(before[field], after[field], `/${field}`, field, diff.patch, diff.workflowChanges);
+  }
+
+  diff.hasChanges = diff.patch.length > 0;
+  return diff;
+}
+
+/**
+ * Render a workflow diff as readable text
+ */
+export function formatWorkflowDiff(diff: WorkflowDiff): string {
+  if (!diff.hasChanges) {
+    return 'No changes';
+  }
+
+  const lines: string[] = [];
+  const section = (title: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    if (lines.length > 0) lines.push('');
+    lines.push(`${title} (${entries.length}):`, ...entries);
+  };
+
+  section('Nodes added', diff.nodes.added.map(node => `  + '${node.name}' (${node.type})`));
+  section('Nodes removed', diff.nodes.removed.map(node => `  - '${node.name}' (${node.type})`));
+  section('Nodes renamed', diff.nodes.renamed.map(rename => `  ~ '${rename.from}' -> '${rename.to}'`));
+  section('Nodes changed', diff.nodes.changed.map(change => {
+    const details = [
+      ...(change.typeChange ? [`    type: ${change.typeChange.before} -> ${change.typeChange.after}`] : []),
+      ...change.parameterChanges.map(formatValueChange),
+      ...change.credentialChanges.map(formatValueChange),
+      ...change.otherChanges.map(formatValueChange),
+    ];
+    return [`  '${change.name}':`, ...details].join('\n');
+  }));
+  section('Connections added', diff.connections.added.map(edge => `  + ${formatEdge(edge)}`));
+  section('Connections removed', diff.connections.removed.map(edge => `  - ${formatEdge(edge)}`));
+  section('Workflow changes', diff.workflowChanges.map(change => formatValueChange(change).replace(/^ {4}/, '  ')));
+
+  return lines.join('\n');
+}
+
+/**
+ * List every connection of a workflow as a flat edge
+ */
+export function listConnectionEdges(workflow: N8nWorkflow): ConnectionEdge[] {
+  const edges: ConnectionEdge[] = [];
+  for (const [source, outputs] of Object.entries(workflow.connections || {})) {
+    for (const [type, groups] of Object.entries(outputs || {})) {
+      (groups || []).forEach((group, outputIndex) => {
+        (group || []).forEach(connection => {
+          edges.push({
+            source,
+            type,
+            outputIndex,
+            target: connection.node,
+            targetType: connection.type,
+            targetIndex: connection.index,
+          });
+        });
+      });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Pair up nodes of two workflows, returning [beforeIndex, afterIndex] tuples
+ */
+function matchNodes(beforeNodes: N8nWorkflowNode[], afterNodes: N8nWorkflowNode[]): Array<[number, number]> {
+  const matches: Array<[number, number]> = [];
+  const unmatchedBefore = new Set(beforeNodes.map((_, index) => index));
+  const unmatchedAfter = new Set(afterNodes.map((_, index) => index));
+
+  const matchBy = (isSame: (previous: N8nWorkflowNode, current: N8nWorkflowNode) => boolean) => {
+    for (const afterIndex of [...unmatchedAfter]) {
+      const beforeIndex = [...unmatchedBefore].find(index => isSame(beforeNodes[index], afterNodes[afterIndex]));
+      if (beforeIndex !== undefined) {
+        matches.push([beforeIndex, afterIndex]);
+        unmatchedBefore.delete(beforeIndex);
+        unmatchedAfter.delete(afterIndex);
+      }
+    }
+  };
+
+  matchBy((previous, current) => !!previous.id && previous.id === current.id);
+  matchBy((previous, current) => previous.name === current.name);
+  matchBy((previous, current) => previous.type === current.type && deepEqual(previous.parameters, current.parameters));
+
+  return matches.sort((a, b) => a[1] - b[1]);
+}
+
+/**
+ * Describe the changes to a single matched node, or null if only its name changed
+ */
+function diffNode(previous: N8nWorkflowNode, current: N8nWorkflowNode): NodeChange | null {
+  const change: NodeChange = {
+    id: current.id,
+    name: current.name,
+    parameterChanges: [],
+    credentialChanges: [],
+    otherChanges: [],
+  };
+
+  if (previous.type !== current.type || previous.typeVersion !== current.typeVersion) {
+    change.typeChange = {
+      before: `${previous.type} v${previous.typeVersion}`,
+      after: `${current.type} v${current.typeVersion}`,
+    };
+  }
+
+  diffValues(previous.parameters || {}, current.parameters || {}, '', 'parameters', [], change.parameterChanges);
+  diffValues(previous.credentials || {}, current.credentials || {}, '', 'credentials', [], change.credentialChanges);
+
+  const fields = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  for (const field of fields) {
+    if (!NODE_FIELDS_REPORTED_SEPARATELY.has(field)) {
+      const key = field as keyof N8nWorkflowNode;
+      diffValues(previous[key], current[key], '', field, [], change.otherChanges, false);
+    }
+  }
+
+  const hasChanges = change.typeChange || change.parameterChanges.length > 0 ||
+    change.credentialChanges.length > 0 || change.otherChanges.length > 0;
+  return hasChanges ? change : null;
+}
+
+/**
+ * Recursively compare two JSON values, collecting patch operations and readable changes
+ */
+function diffValues(
+  before: any,
+  after: any,
+  pointer: string,
+  path: string,
+  patch: JsonPatchOperation[],
+  changes: ValueChange[],
+  recurse: boolean = true
+): void {
+  if (deepEqual(before, after)) {
+    return;
+  }
+
+  if (before === undefined) {
+    patch.push({ op: 'add', path: pointer, value: after });
+    changes.push({ kind: 'added', path, after });
+    return;
+  }
+  if (after === undefined) {
+    patch.push({ op: 'remove', path: pointer });
+    changes.push({ kind: 'removed', path, before });
+    return;
+  }
+
+  if (recurse && isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(before[key], after[key], `${pointer}/${escapePointer(key)}`, path ? `${path}.${key}` : key, patch, changes);
+    }
+    return;
+  }
+
+  if (recurse && Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, index) => {
+      diffValues(item, after[index], `${pointer}/${index}`, `${path}[${index}]`, patch, changes);
+    });
+    return;
+  }
+
+  patch.push({ op: 'replace', path: pointer, value: after });
+  changes.push({ kind: 'changed', path, before, after });
+}
+
+function toNodeRef(node: N8nWorkflowNode): NodeRef {
+  return { id: node.id, name: node.name, type: node.type };
+}
+
+function edgeKey(edge: ConnectionEdge): string {
+  return JSON.stringify([edge.source, edge.type, edge.outputIndex, edge.target, edge.targetType, edge.targetIndex]);
+}
+
+function formatEdge(edge: ConnectionEdge): string {
+  const output = edge.type === 'main' ? `main[${edge.outputIndex}]` : edge.type;
+  return `${edge.source} -${output}-> ${edge.target}`;
+}
+
+function formatValueChange(change: ValueChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `    + ${change.path}: ${formatValue(change.after)}`;
+    case 'removed':
+      return `    - ${change.path}: ${formatValue(change.before)}`;
+    case 'changed':
+      return `    ~ ${change.path}: ${formatValue(change.before)} -> ${formatValue(change.after)}`;
+  }
+}
+
+function formatValue(value: any): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
@@ -0,0 +1,332 @@
+import { N8nConnections, N8nWorkflowNode } from '../types.js';
+
+/**
+ * The parts of a workflow needed to analyse its expressions. Both local
+ * workflow files and workflows from the n8n API fit this shape.
+ */
+export interface ExpressionWorkflow {
+  nodes: Array<Pick<N8nWorkflowNode, 'name' | 'parameters'> & { id?: string }>;
+  connections: N8nConnections;
+  pinData?: Record<string, any>;
+}
+
+export interface ExpressionSegment {
+  code: string;
+  start: number;
+}
+
+export interface ParsedExpression {
+  segments: ExpressionSegment[];
+  error?: string;
+}
+
+export interface ExpressionNodeReference {
+  nodeName: string;
+  fields: string[];
+}
+
+export interface ExpressionIssue {
+  type: 'error' | 'warning';
+  message: string;
+  nodeId?: string;
+  nodeName: string;
+  field: string;
+  expression: string;
+}
+
+export interface ExpressionAnalysisOptions {
+  /** Example output items per node name, used like pinData to know which fields a node produces */
+  sampleOutputs?: Record<string, any[]>;
+}
+
+const IDENTIFIER = '[A-Za-z_$][\\w$]*';
+const QUOTED = '([\'"`])((?:\\\\.|(?!\\1).)*)\\1';
+
+// $node["X"], $('X') and $items("X") all read the output of the named node
+const NODE_REFERENCE_PATTERNS = [
+  new RegExp(`\\$node\\[\\s*${QUOTED}\\s*\\]`, 'g'),
+  new RegExp(`\\$\\(\\s*${QUOTED}`, 'g'),
+  new RegExp(`\\$items\\(\\s*${QUOTED}`, 'g'),
+];
+
+// Accessors between a node reference and its .json, e.g. .item, .first(), .all()[0]
+const ITEM_ACCESSOR = `(?:\\s*\\)\\s*)?(?:\\.(?:item|first\\(\\)|last\\(\\)|all\\(\\)\\[\\d+\\])|\\[\\d+\\])?`;
+const JSON_FIELD = `\\??\\.json\\??(?:\\.(${IDENTIFIER})|\\[\\s*(['"])(.*?)\\2\\s*\\])`;
+const REFERENCE_FIELD_PATTERN = new RegExp(`^${ITEM_ACCESSOR}${JSON_FIELD}`);
+
+// $json.field and $input.item.json.field read the items arriving at the node itself
+const INPUT_FIELD_PATTERN = new RegExp(
+  `(?<![\\w$.])(?:\\$json|\\$input\\.(?:item|first\\(\\)|last\\(\\)|all\\(\\)\\[\\d+\\])\\.json)\\??(?:\\.(${IDENTIFIER})|\\[\\s*(['"])(.*?)\\2\\s*\\])`,
+  'g'
+);
+
+/**
+ * Whether a parameter value is an n8n expression (a string starting with '=')
+ */
+export function isExpression(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('=');
+}
+
+/**
+ * Split an expression into the JavaScript code of its {{ }} segments.
+ * Braces and string literals inside a segment are skipped, so object
+ * literals and strings containing '}}' do not end it early.
+ */
+export function parseExpression(expression: string): ParsedExpression {
+  const text = expression.startsWith('=') ? expression.slice(1) : expression;
+  const segments: ExpressionSegment[] = [];
+
+  let position = text.indexOf('{{');
+  while (position !== -1) {
+    const start = position + 2;
+    let depth = 0;
+    let quote: string | null = null;
+    let end = -1;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === '\'' || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        if (depth === 0 && text[i + 1] === '}') {
+          end = i;
+          break;
+        }
+        depth = Math.max(0, depth - 1);
+      }
+    }
+
+    if (end === -1) {
+      return { segments, error: `Unclosed '{{' at position ${position}` };
+    }
+
+    segments.push({ code: text.slice(start, end), start });
+    position = text.indexOf('{{', end + 2);
+  }
+
+  return { segments };
+}
+
+/**
+ * Check the JavaScript syntax of one {{ }} segment without running it
+ */
+export function checkExpressionSyntax(code: string): string | null {
+  if (code.trim().length === 0) {
+    return 'Empty expression {{ }}';
+  }
+  try {
+    // Compiling a function body parses the code but never executes it
+    new Function(`return (${code}\n);`);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Find the nodes an expression reads from, with the .json fields it uses on each
+ */
+export function findNodeReferences(code: string): ExpressionNodeReference[] {
+  const references = new Map<string, Set<string>>();
+
+  for (const pattern of NODE_REFERENCE_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      const nodeName = unescapeString(match[2]);
+      const fields = references.get(nodeName) || new Set<string>();
+      references.set(nodeName, fields);
+
+      const fieldMatch = code.slice(match.index! + match[0].length).match(REFERENCE_FIELD_PATTERN);
+      if (fieldMatch) {
+        fields.add(fieldMatch[1] ?? fieldMatch[3]);
+      }
+    }
+  }
+
+  return [...references].map(([nodeName, fields]) => ({ nodeName, fields: [...fields] }));
+}
+
+/**
+ * Find the fields an expression reads from the node's own input items ($json / $input)
+ */
+export function findInputFields(code: string): string[] {
+  const fields = new Set<string>();
+  for (const match of code.matchAll(INPUT_FIELD_PATTERN)) {
+    fields.add(match[1] ?? match[3]);
+  }
+  return [...fields];
+}
+
+/**
+ * Check every expression in a workflow's node parameters: {{ }} syntax,
+ * references to nodes that do not exist or are not upstream, and $json
+ * fields the upstream node is not known to produce (from pinData or sample outputs).
+ */
+export function analyzeWorkflowExpressions(
+  workflow: ExpressionWorkflow,
+  options: ExpressionAnalysisOptions = {}
+): { errors: ExpressionIssue[]; warnings: ExpressionIssue[] } {
+  const issues: ExpressionIssue[] = [];
+  const nodeNames = new Set(workflow.nodes.map(node => node.name));
+  const parents = getParents(workflow.connections);
+  const knownFields = getKnownOutputFields(workflow.pinData, options.sampleOutputs);
+
+  for (const node of workflow.nodes) {
+    const upstream = getUpstreamNodes(node.name, parents);
+    const inputNodes = parents.get(node.name)?.main || [];
+
+    forEachStringParameter(node.parameters || {}, 'parameters', (value, field) => {
+      const report = (type: ExpressionIssue['type'], message: string) =>
+        issues.push({ type, message, nodeId: node.id, nodeName: node.name, field, expression: value });
+
+      if (!isExpression(value)) {
+        if (/\{\{[\s\S]*\$[\s\S]*\}\}/.test(value)) {
+          report('warning', `${field} contains {{ }} but does not start with '=', so n8n treats it as plain text`);
+        }
+        return;
+      }
+
+      const parsed = parseExpression(value);
+      if (parsed.error) {
+        report('error', `${field}: ${parsed.error}`);
+      }
+
+      for (const segment of parsed.segments) {
+        const syntaxError = checkExpressionSyntax(segment.code);
+        if (syntaxError) {
+          report('error', `${field}: invalid JavaScript in {{${segment.code}}}: ${syntaxError}`);
+          continue;
+        }
+
+        for (const reference of findNodeReferences(segment.code)) {
+          if (!nodeNames.has(reference.nodeName)) {
+            report('error', `${field} references node '${reference.nodeName}', which does not exist`);
+          } else if (reference.nodeName === node.name) {
+            report('warning', `${field} references its own node '${reference.nodeName}'`);
+          } else if (!upstream.has(reference.nodeName)) {
+            report('warning', `${field} references node '${reference.nodeName}', which is not upstream of '${node.name}' and may not have run`);
+          } else {
+            const fields = knownFields.get(reference.nodeName);
+            for (const missing of reference.fields.filter(name => fields && !fields.has(name))) {
+              report('warning', `${field} reads '${missing}' from '${reference.nodeName}', which is not in its known output (${formatFields(fields!)})`);
+            }
+          }
+        }
+
+        // $json is only checked when the output of every input node is known
+        const inputFields = inputNodes.map(name => knownFields.get(name));
+        if (inputNodes.length > 0 && inputFields.every(Boolean)) {
+          for (const missing of findInputFields(segment.code).filter(name => !inputFields.some(fields => fields!.has(name)))) {
+            report('warning', `${field} reads $json.${missing}, which is not in the known output of ${inputNodes.map(name => `'${name}'`).join(', ')} (${formatFields(new Set(inputFields.flatMap(fields => [...fields!])))})`);
+          }
+        }
+      }
+    });
+  }
+
+  return {
+    errors: issues.filter(issue => issue.type === 'error'),
+    warnings: issues.filter(issue => issue.type === 'warning'),
+  };
+}
+
+/**
+ * Map each node to the nodes connected into it, by connection type
+ */
+function getParents(connections: N8nConnections): Map<string, Record<string, string[]>> {
+  const parents = new Map<string, Record<string, string[]>>();
+  for (const [source, outputs] of Object.entries(connections || {})) {
+    for (const [type, groups] of Object.entries(outputs || {})) {
+      for (const group of groups || []) {
+        for (const connection of group || []) {
+          const entry = parents.get(connection.node) || {};
+          entry[type] = [...(entry[type] || []), source];
+          parents.set(connection.node, entry);
+        }
+      }
+    }
+  }
+  return parents;
+}
+
+/**
+ * Collect the nodes that run before a node. AI sub-nodes run inside the node
+ * they attach to, so they see that node and everything upstream of it.
+ */
+function getUpstreamNodes(nodeName: string, parents: Map<string, Record<string, string[]>>): Set<string> {
+  const children = new Map<string, string[]>();
+  for (const [target, byType] of parents) {
+    for (const [type, sources] of Object.entries(byType)) {
+      if (type === 'main') continue;
+      for (const source of sources) {
+        children.set(source, [...(children.get(source) || []), target]);
+      }
+    }
+  }
+
+  const upstream = new Set<string>();
+  const queue = [...(children.get(nodeName) || [])];
+  queue.forEach(name => upstream.add(name));
+  queue.push(nodeName);
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    for (const source of parents.get(name)?.main || []) {
+      if (!upstream.has(source)) {
+        upstream.add(source);
+        queue.push(source);
+      }
+    }
+  }
+
+  upstream.delete(nodeName);
+  return upstream;
+}
+
+/**
+ * Field names of each node's output items, from sample outputs or pinned data
+ */
+function getKnownOutputFields(
+  pinData: Record<string, any> | undefined,
+  sampleOutputs: Record<string, any[]> | undefined
+): Map<string, Set<string>> {
+  const known = new Map<string, Set<string>>();
+  for (const source of [pinData || {}, sampleOutputs || {}]) {
+    for (const [nodeName, items] of Object.entries(source)) {
+      if (!Array.isArray(items) || items.length === 0) continue;
+      const fields = new Set<string>();
+      for (const item of items) {
+        const json = item && typeof item.json === 'object' ? item.json : item;
+        if (json && typeof json === 'object') {
+          Object.keys(json).forEach(key => fields.add(key));
+        }
+      }
+      known.set(nodeName, fields);
+    }
+  }
+  return known;
+}
+
+function forEachStringParameter(value: any, path: string, visit: (value: string, path: string) => void): void {
+  if (typeof value === 'string') {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => forEachStringParameter(item, `${path}[${index}]`, visit));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      forEachStringParameter(item, `${path}.${key}`, visit);
+    }
+  }
+}
+
+function unescapeString(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+function formatFields(fields: Set<string>): string {
+  return fields.size > 0 ? `fields: ${[...fields].join(', ')}` : 'no fields';
+}
@@ -0,0 +1,323 @@
+import { N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import { ConnectionEdge, listConnectionEdges } from './workflow-diff.js';
+
+export interface LayoutOptions {
+  origin?: [number, number];
+  columnWidth?: number;
+  rowHeight?: number;
+  subNodeSpacing?: number;
+  subNodeRowHeight?: number;
+}
+
+const DEFAULT_LAYOUT: Required<LayoutOptions> = {
+  origin: [0, 0],
+  columnWidth: 260,
+  rowHeight: 200,
+  subNodeSpacing: 160,
+  subNodeRowHeight: 200,
+};
+
+// n8n snaps node positions to a 20px grid
+const GRID_SIZE = 20;
+
+// Order of sub-nodes under their parent, matching the slots n8n draws on an agent
+const SUB_NODE_TYPE_ORDER = ['ai_languageModel', 'ai_memory', 'ai_tool', 'ai_outputParser'];
+
+// Number of barycenter sweeps used to reduce edge crossings
+const ORDERING_SWEEPS = 4;
+
+/**
+ * Compute positions for every node of a workflow.
+ *
+ * Main nodes are placed in layers from left to right along their 'main'
+ * connections (Sugiyama style: cycle removal, longest-path layering and
+ * barycenter ordering). AI sub-nodes, which only connect through ai_*
+ * connections, are placed in rows below the node they attach to.
+ */
+export function layoutWorkflow(workflow: N8nWorkflow, options: LayoutOptions = {}): N8nWorkflow {
+  const config = resolveLayoutOptions(options);
+  const nodes = workflow.nodes;
+  if (nodes.length === 0) {
+    return workflow;
+  }
+
+  const nodeNames = new Set(nodes.map(node => node.name));
+  const edges = listConnectionEdges(workflow)
+    .filter(edge => nodeNames.has(edge.source) && nodeNames.has(edge.target) && edge.source !== edge.target);
+
+  const subNodeParents = findSubNodeParents(nodes, edges);
+  const mainNodes = nodes.filter(node => !subNodeParents.has(node.name)).map(node => node.name);
+  const mainEdges = removeCycles(
+    mainNodes,
+    edges.filter(edge => edge.type === 'main' && !subNodeParents.has(edge.source) && !subNodeParents.has(edge.target))
+  );
+
+  const layers = orderLayers(assignLayers(mainNodes, mainEdges), mainEdges);
+
+  // Sub-nodes hang below their parent, ordered by connection type
+  const children = new Map<string, string[]>();
+  for (const node of nodes) {
+    const parent = subNodeParents.get(node.name);
+    if (parent) {
+      children.set(parent.name, [...(children.get(parent.name) || []), node.name]);
+    }
+  }
+  for (const list of children.values()) {
+    list.sort((a, b) => typeRank(subNodeParents.get(a)!.type) - typeRank(subNodeParents.get(b)!.type));
+  }
+
+  const widthCache = new Map<string, number>();
+  const subtreeWidth = (name: string): number => {
+    if (!widthCache.has(name)) {
+      const childWidth = (children.get(name) || []).reduce((total, child) => total + subtreeWidth(child), 0);
+      widthCache.set(name, Math.max(config.subNodeSpacing, childWidth));
+    }
+    return widthCache.get(name)!;
+  };
+  const subtreeDepth = (name: string): number => {
+    const list = children.get(name) || [];
+    return list.length === 0 ? 0 : 1 + Math.max(...list.map(subtreeDepth));
+  };
+
+  const positions = new Map<string, [number, number]>();
+  const placeChildren = (name: string) => {
+    const list = children.get(name) || [];
+    const [parentX, parentY] = positions.get(name)!;
+    let x = parentX - (list.reduce((total, child) => total + subtreeWidth(child), 0) - config.subNodeSpacing) / 2;
+    for (const child of list) {
+      const width = subtreeWidth(child);
+      positions.set(child, [x + (width - config.subNodeSpacing) / 2, parentY + config.subNodeRowHeight]);
+      placeChildren(child);
+      x += width;
+    }
+  };
+
+  // Columns widen to fit the sub-node rows of their nodes; rows grow with sub-node depth
+  let columnX = config.origin[0];
+  for (const layer of layers) {
+    const columnWidth = Math.max(
+      config.columnWidth,
+      ...layer.map(name => children.has(name) ? subtreeWidth(name) + config.columnWidth - config.subNodeSpacing : 0)
+    );
+    const x = columnX + (columnWidth - config.columnWidth) / 2;
+
+    let y = config.origin[1];
+    for (const name of layer) {
+      positions.set(name, [x, y]);
+      placeChildren(name);
+      y += config.rowHeight + subtreeDepth(name) * config.subNodeRowHeight;
+    }
+    columnX += columnWidth;
+  }
+
+  return {
+    ...workflow,
+    nodes: nodes.map(node => {
+      const position = positions.get(node.name);
+      return position ? { ...node, position: [snapToGrid(position[0]), snapToGrid(position[1])] } : node;
+    }),
+  };
+}
+
+/**
+ * Position the given nodes (by ID) without moving any other node.
+ *
+ * Each node keeps the offset the full layout gives it from a connected node
+ * that is already placed, so new nodes land next to their neighbours.
+ * Unconnected nodes go below the workflow, and a node that would overlap
+ * another is moved down a row at a time until it is free.
+ */
+export function placeNodes(workflow: N8nWorkflow, nodeIds: string[], options: LayoutOptions = {}): N8nWorkflow {
+  const config = resolveLayoutOptions(options);
+  const pendingIds = new Set(nodeIds);
+  const pending = new Set(workflow.nodes.filter(node => pendingIds.has(node.id)).map(node => node.name));
+  if (pending.size === 0) {
+    return workflow;
+  }
+  if (pending.size === workflow.nodes.length) {
+    return layoutWorkflow(workflow, options);
+  }
+
+  const laidOut = new Map(layoutWorkflow(workflow, options).nodes.map(node => [node.name, node.position]));
+  const placed = new Map(workflow.nodes.filter(node => !pending.has(node.name)).map(node => [node.name, node.position]));
+  const edges = listConnectionEdges(workflow);
+
+  const isFree = ([x, y]: [number, number]) => ![...placed.values()].some(([otherX, otherY]) =>
+    Math.abs(otherX - x) < config.columnWidth / 2 && Math.abs(otherY - y) < config.rowHeight / 2
+  );
+  const findAnchor = (name: string) =>
+    edges.find(edge => edge.target === name && placed.has(edge.source))?.source
+      ?? edges.find(edge => edge.source === name && placed.has(edge.target))?.target;
+
+  while (pending.size > 0) {
+    // Nodes next to a placed node go first, so a chain of new nodes follows its anchor
+    const name = [...pending].find(candidate => findAnchor(candidate)) ?? pending.values().next().value!;
+    const anchor = findAnchor(name);
+
+    let position: [number, number];
+    if (anchor) {
+      const [anchorX, anchorY] = placed.get(anchor)!;
+      const [layoutAnchorX, layoutAnchorY] = laidOut.get(anchor)!;
+      const [layoutX, layoutY] = laidOut.get(name)!;
+      position = [anchorX + layoutX - layoutAnchorX, anchorY + layoutY - layoutAnchorY];
+    } else {
+      const others = [...placed.values()];
+      position = [Math.min(...others.map(([x]) => x)), Math.max(...others.map(([, y]) => y)) + config.rowHeight];
+    }
+    position = [snapToGrid(position[0]), snapToGrid(position[1])];
+    while (!isFree(position)) {
+      position = [position[0], position[1] + config.rowHeight];
+    }
+
+    placed.set(name, position);
+    pending.delete(name);
+  }
+
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map(node => pendingIds.has(node.id) ? { ...node, position: placed.get(node.name)! } : node),
+  };
+}
+
+function resolveLayoutOptions(options: LayoutOptions): Required<LayoutOptions> {
+  return {
+    origin: options.origin ?? DEFAULT_LAYOUT.origin,
+    columnWidth: options.columnWidth ?? DEFAULT_LAYOUT.columnWidth,
+    rowHeight: options.rowHeight ?? DEFAULT_LAYOUT.rowHeight,
+    subNodeSpacing: options.subNodeSpacing ?? DEFAULT_LAYOUT.subNodeSpacing,
+    subNodeRowHeight: options.subNodeRowHeight ?? DEFAULT_LAYOUT.subNodeRowHeight,
+  };
+}
+
+/**
+ * Find nodes that only feed other nodes through ai_* connections, mapped to the node they attach to
+ */
+function findSubNodeParents(nodes: N8nWorkflowNode[], edges: ConnectionEdge[]): Map<string, { name: string; type: string }> {
+  const parents = new Map<string, { name: string; type: string }>();
+
+  for (const node of nodes) {
+    const outgoing = edges.filter(edge => edge.source === node.name);
+    const hasMainInput = edges.some(edge => edge.target === node.name && edge.type === 'main');
+    if (outgoing.length > 0 && !hasMainInput && outgoing.every(edge => edge.type !== 'main')) {
+      parents.set(node.name, { name: outgoing[0].target, type: outgoing[0].type });
+    }
+  }
+
+  // A chain of sub-nodes must end at a main node; drop any that loop back on themselves
+  for (const name of [...parents.keys()]) {
+    const seen = new Set<string>([name]);
+    let current = parents.get(name);
+    while (current && parents.has(current.name)) {
+      if (seen.has(current.name)) {
+        parents.delete(name);
+        break;
+      }
+      seen.add(current.name);
+      current = parents.get(current.name);
+    }
+  }
+
+  return parents;
+}
+
+/**
+ * Drop edges that close a cycle (found by depth-first search) so the graph can be layered
+ */
+function removeCycles(nodes: string[], edges: ConnectionEdge[]): ConnectionEdge[] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const backEdges = new Set<ConnectionEdge>();
+
+  const visit = (name: string) => {
+    state.set(name, 'visiting');
+    for (const edge of edges.filter(candidate => candidate.source === name)) {
+      const targetState = state.get(edge.target);
+      if (targetState === 'visiting') {
+        backEdges.add(edge);
+      } else if (!targetState) {
+        visit(edge.target);
+      }
+    }
+    state.set(name, 'done');
+  };
+
+  // Start from nodes without inputs (triggers) so loops are cut at their return edge
+  const roots = nodes.filter(name => !edges.some(edge => edge.target === name));
+  for (const name of [...roots, ...nodes]) {
+    if (!state.has(name)) visit(name);
+  }
+
+  return edges.filter(edge => !backEdges.has(edge));
+}
+
+/**
+ * Assign each node the length of the longest path leading to it
+ */
+function assignLayers(nodes: string[], edges: ConnectionEdge[]): string[][] {
+  const layerOf = new Map<string, number>(nodes.map(name => [name, 0]));
+  const inDegree = new Map<string, number>(nodes.map(name => [name, 0]));
+  edges.forEach(edge => inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1));
+
+  const queue = nodes.filter(name => inDegree.get(name) === 0);
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    for (const edge of edges.filter(candidate => candidate.source === name)) {
+      layerOf.set(edge.target, Math.max(layerOf.get(edge.target)!, layerOf.get(name)! + 1));
+      inDegree.set(edge.target, inDegree.get(edge.target)! - 1);
+      if (inDegree.get(edge.target) === 0) queue.push(edge.target);
+    }
+  }
+
+  const layers: string[][] = [];
+  for (const name of nodes) {
+    const layer = layerOf.get(name)!;
+    (layers[layer] = layers[layer] || []).push(name);
+  }
+  return layers.filter(layer => layer && layer.length > 0);
+}
+
+/**
+ * Order nodes within layers by the average position of their neighbours to reduce crossings
+ */
+function orderLayers(layers: string[][], edges: ConnectionEdge[]): string[][] {
+  const ordered = layers.map(layer => [...layer]);
+  const indexOf = new Map<string, number>();
+  const updateIndexes = () => ordered.forEach(layer => layer.forEach((name, index) => indexOf.set(name, index)));
+
+  // Lower output indexes (e.g. the true branch of an IF) sort above higher ones
+  const barycenter = (neighbours: Array<{ name: string; outputIndex: number }>) =>
+    neighbours.reduce((total, neighbour) => total + indexOf.get(neighbour.name)! + neighbour.outputIndex * 0.01, 0) / neighbours.length;
+
+  const sortLayer = (layer: string[], neighboursOf: (name: string) => Array<{ name: string; outputIndex: number }>) => {
+    const keys = new Map(layer.map((name, index) => {
+      const neighbours = neighboursOf(name);
+      return [name, neighbours.length > 0 ? barycenter(neighbours) : index];
+    }));
+    layer.sort((a, b) => keys.get(a)! - keys.get(b)!);
+  };
+
+  updateIndexes();
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const range = downward
+      ? ordered.map((_, index) => index).slice(1)
+      : ordered.map((_, index) => index).slice(0, -1).reverse();
+
+    for (const layerIndex of range) {
+      sortLayer(ordered[layerIndex], name => downward
+        ? edges.filter(edge => edge.target === name).map(edge => ({ name: edge.source, outputIndex: edge.outputIndex }))
+        : edges.filter(edge => edge.source === name).map(edge => ({ name: edge.target, outputIndex: 0 })));
+      updateIndexes();
+    }
+  }
+
+  return ordered;
+}
+
+function typeRank(type: string): number {
+  const rank = SUB_NODE_TYPE_ORDER.indexOf(type);
+  return rank === -1 ? SUB_NODE_TYPE_ORDER.length : rank;
+}
+
+function snapToGrid(value: number): number {
+  return Math.round(value / GRID_SIZE) * GRID_SIZE;
+}
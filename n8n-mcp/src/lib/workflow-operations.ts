@@ -0,0 +1,225 @@
+import { N8nNodeDefinition, N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import {
+  createWorkflowNode,
+  addNodeToWorkflow,
+  removeNodeFromWorkflow,
+  updateNodeInWorkflow,
+  addConnectionToWorkflow,
+  removeConnectionFromWorkflow,
+  findNodeByName,
+  getUniqueNodeName,
+  resolveNodeReference,
+  validateWorkflow,
+} from './workflow-utils.js';
+import { placeNodes } from './workflow-layout.js';
+
+export interface AddNodeOperation {
+  op: 'addNode';
+  type: string;
+  name?: string;
+  parameters?: Record<string, any>;
+  position?: [number, number];
+  typeVersion?: number;
+  webhookId?: string;
+  credentials?: Record<string, any>;
+}
+
+export interface UpdateNodeOperation {
+  op: 'updateNode';
+  node: string;
+  type?: string;
+  parameters?: Record<string, any>;
+  merge_parameters?: boolean;
+  position?: [number, number];
+  typeVersion?: number;
+  credentials?: Record<string, any>;
+  disabled?: boolean;
+  notes?: string;
+}
+
+export interface RemoveNodeOperation {
+  op: 'removeNode';
+  node: string;
+}
+
+export interface ConnectOperation {
+  op: 'connect' | 'disconnect';
+  from: string;
+  to: string;
+  type?: string;
+  output_index?: number;
+  input_index?: number;
+}
+
+export interface RenameNodeOperation {
+  op: 'renameNode';
+  node: string;
+  new_name: string;
+}
+
+export interface SetSettingsOperation {
+  op: 'setSettings';
+  settings: Record<string, any>;
+  merge?: boolean;
+}
+
+export type WorkflowOperation =
+  | AddNodeOperation
+  | UpdateNodeOperation
+  | RemoveNodeOperation
+  | ConnectOperation
+  | RenameNodeOperation
+  | SetSettingsOperation;
+
+/**
+ * Error raised when one operation of a batch cannot be applied
+ */
+export class WorkflowOperationError extends Error {
+  constructor(message: string, public operationIndex: number, public operation: WorkflowOperation) {
+    super(`Operation ${operationIndex + 1} (${operation.op}): ${message}`);
+    this.name = 'WorkflowOperationError';
+  }
+}
+
+export interface ApplyOperationsResult {
+  workflow: N8nWorkflow;
+  results: string[];
+}
+
+/**
+ * Apply a list of operations to a copy of a workflow. Either every operation
+ * applies and the result validates, or an error is thrown and the input is untouched.
+ * Nodes are referenced by ID or name (see resolveNodeReference), including nodes added earlier in the batch.
+ */
+export function applyWorkflowOperations(
+  workflow: N8nWorkflow,
+  operations: WorkflowOperation[],
+  nodeDefinitions: Map<string, N8nNodeDefinition> = new Map()
+): ApplyOperationsResult {
+  let current: N8nWorkflow = structuredClone(workflow);
+  const results: string[] = [];
+  const unplacedNodeIds: string[] = [];
+
+  operations.forEach((operation, index) => {
+    const fail = (message: string): never => {
+      throw new WorkflowOperationError(message, index, operation);
+    };
+    const resolve = (reference: string): N8nWorkflowNode => {
+      const resolved = resolveNodeReference(current, reference);
+      return resolved.node || fail(resolved.error!);
+    };
+
+    switch (operation.op) {
+      case 'addNode': {
+        const definition = nodeDefinitions.get(operation.type);
+        if (!definition) {
+          fail(`Node type '${operation.type}' not found or not supported`);
+        }
+        if (operation.name && findNodeByName(current, operation.name)) {
+          fail(`A node named '${operation.name}' already exists`);
+        }
+
+        const node = createWorkflowNode(
+          operation.type,
+          operation.name || getUniqueNodeName(current, definition!.displayName),
+          operation.position || [0, 0],
+          operation.parameters || {},
+          operation.typeVersion || definition!.version
+        );
+        if (operation.webhookId) node.webhookId = operation.webhookId;
+        if (operation.credentials) node.credentials = operation.credentials;
+
+        current = addNodeToWorkflow(current, node);
+        if (!operation.position) unplacedNodeIds.push(node.id);
+        results.push(`Added node '${node.name}' (${node.type}, ID ${node.id})`);
+        break;
+      }
+
+      case 'updateNode': {
+        const node = resolve(operation.node);
+        if (operation.type && operation.type !== node.type && !nodeDefinitions.has(operation.type)) {
+          fail(`Node type '${operation.type}' not found or not supported`);
+        }
+
+        const updates: Partial<N8nWorkflowNode> = {};
+        if (operation.type !== undefined) updates.type = operation.type;
+        if (operation.parameters !== undefined) {
+          updates.parameters = operation.merge_parameters
+            ? { ...node.parameters, ...operation.parameters }
+            : operation.parameters;
+        }
+        if (operation.position !== undefined) updates.position = operation.position;
+        if (operation.typeVersion !== undefined) updates.typeVersion = operation.typeVersion;
+        if (operation.credentials !== undefined) updates.credentials = operation.credentials;
+        if (operation.disabled !== undefined) updates.disabled = operation.disabled;
+        if (operation.notes !== undefined) updates.notes = operation.notes;
+
+        current = updateNodeInWorkflow(current, node.id, updates);
+        results.push(`Updated node '${node.name}' (${Object.keys(updates).join(', ') || 'no changes'})`);
+        break;
+      }
+
+      case 'removeNode': {
+        const node = resolve(operation.node);
+        current = removeNodeFromWorkflow(current, node.id);
+        results.push(`Removed node '${node.name}'`);
+        break;
+      }
+
+      case 'renameNode': {
+        const node = resolve(operation.node);
+        if (operation.new_name !== node.name && findNodeByName(current, operation.new_name)) {
+          fail(`A node named '${operation.new_name}' already exists`);
+        }
+        current = updateNodeInWorkflow(current, node.id, { name: operation.new_name });
+        results.push(`Renamed node '${node.name}' to '${operation.new_name}'`);
+        break;
+      }
+
+      case 'connect':
+      case 'disconnect': {
+        const source = resolve(operation.from);
+        const target = resolve(operation.to);
+        const type = operation.type || 'main';
+        const outputIndex = operation.output_index ?? 0;
+        const inputIndex = operation.input_index ?? 0;
+
+        if (operation.op === 'connect') {
+          current = addConnectionToWorkflow(current, source.name, type, target.name, type, inputIndex, outputIndex);
+          results.push(`Connected '${source.name}' (${type}[${outputIndex}]) to '${target.name}' (${type}[${inputIndex}])`);
+        } else {
+          const before = JSON.stringify(current.connections);
+          current = removeConnectionFromWorkflow(current, source.name, type, target.name, type, inputIndex, operation.output_index);
+          if (JSON.stringify(current.connections) === before) {
+            fail(`No ${type} connection from '${source.name}' to '${target.name}'`);
+          }
+          results.push(`Disconnected '${source.name}' from '${target.name}' (${type})`);
+        }
+        break;
+      }
+
+      case 'setSettings': {
+        current = {
+          ...current,
+          settings: operation.merge === false ? operation.settings : { ...current.settings, ...operation.settings },
+        };
+        results.push(`Updated settings (${Object.keys(operation.settings).join(', ')})`);
+        break;
+      }
+    }
+  });
+
+  if (unplacedNodeIds.length > 0) {
+    current = placeNodes(current, unplacedNodeIds);
+  }
+
+  const validation = validateWorkflow(current);
+  if (!validation.valid) {
+    throw new Error(`Resulting workflow is invalid: ${validation.errors.join(', ')}`);
+  }
+
+  return {
+    workflow: { ...current, updatedAt: new Date().toISOString() },
+    results,
+  };
+}
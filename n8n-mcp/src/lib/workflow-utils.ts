@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import { N8nWorkflow, N8nWorkflowNode, N8nConnections } from '../types.js';
+import { N8nWorkflow, N8nWorkflowNode, N8nConnections, N8nConnectionDetail } from '../types.js';
 
 /**
  * Generate a unique n8n ID
@@ -90,6 +90,9 @@ export function removeNodeFromWorkflow(
   workflow: N8nWorkflow,
   nodeId: string
 ): N8nWorkflow {
+  const node = findNodeById(workflow, nodeId);
+  const nodeName = node ? node.name : nodeId;
+
   const updatedWorkflow = {
     ...workflow,
     nodes: workflow.nodes.filter(node => node.id !== nodeId),
@@ -98,12 +101,12 @@ export function removeNodeFromWorkflow(
 
   // Remove connections involving this node
   const updatedConnections: N8nConnections = {};
-  for (const [sourceNodeId, outputs] of Object.entries(workflow.connections)) {
-    if (sourceNodeId !== nodeId) {
-      updatedConnections[sourceNodeId] = {};
-      for (const [outputName, connections] of Object.entries(outputs)) {
-        updatedConnections[sourceNodeId][outputName] = connections.filter(
-          conn => conn.node !== nodeId
+  for (const [sourceNodeName, outputs] of Object.entries(workflow.connections)) {
+    if (sourceNodeName !== nodeName) {
+      updatedConnections[sourceNodeName] = {};
+      for (const [connectionType, outputGroups] of Object.entries(outputs)) {
+        updatedConnections[sourceNodeName][connectionType] = outputGroups.map(
+          group => (group || []).filter(conn => conn.node !== nodeName)
         );
       }
     }
@@ -116,31 +119,41 @@ export function removeNodeFromWorkflow(
 }
 
 /**
- * Add a connection between two nodes
+ * Add a connection between two nodes.
+ * Nodes are referenced by name, as in n8n's own workflow JSON.
  */
 export function addConnectionToWorkflow(
   workflow: N8nWorkflow,
-  sourceNodeId: string,
-  sourceOutputName: string,
-  targetNodeId: string,
-  targetInputName: string,
-  targetInputIndex: number = 0
+  sourceNodeName: string,
+  sourceOutputType: string,
+  targetNodeName: string,
+  targetInputType: string,
+  targetInputIndex: number = 0,
+  sourceOutputIndex: number = 0
 ): N8nWorkflow {
   const connections = { ...workflow.connections };
-  
-  if (!connections[sourceNodeId]) {
-    connections[sourceNodeId] = {};
+  const outputs = { ...(connections[sourceNodeName] || {}) };
+  const outputGroups = [...(outputs[sourceOutputType] || [])];
+
+  while (outputGroups.length <= sourceOutputIndex) {
+    outputGroups.push([]);
   }
-  
-  if (!connections[sourceNodeId][sourceOutputName]) {
-    connections[sourceNodeId][sourceOutputName] = [];
+
+  const group = [...(outputGroups[sourceOutputIndex] || [])];
+  const exists = group.some(
+    conn => conn.node === targetNodeName && conn.type === targetInputType && conn.index === targetInputIndex
+  );
+  if (!exists) {
+    group.push({
+      node: targetNodeName,
+      type: targetInputType,
+      index: targetInputIndex,
+    });
   }
-  
-  connections[sourceNodeId][sourceOutputName].push({
-    node: targetNodeId,
-    type: targetInputName,
-    index: targetInputIndex,
-  });
+
+  outputGroups[sourceOutputIndex] = group;
+  outputs[sourceOutputType] = outputGroups;
+  connections[sourceNodeName] = outputs;
 
   return {
     ...workflow,
@@ -150,22 +163,31 @@ export function addConnectionToWorkflow(
 }
 
 /**
- * Remove a connection between two nodes
+ * Remove a connection between two nodes.
+ * When no source output index is given the connection is removed from every output.
  */
 export function removeConnectionFromWorkflow(
   workflow: N8nWorkflow,
-  sourceNodeId: string,
-  sourceOutputName: string,
-  targetNodeId: string,
-  targetInputName: string,
-  targetInputIndex: number = 0
+  sourceNodeName: string,
+  sourceOutputType: string,
+  targetNodeName: string,
+  targetInputType: string,
+  targetInputIndex: number = 0,
+  sourceOutputIndex?: number
 ): N8nWorkflow {
   const connections = { ...workflow.connections };
-  
-  if (connections[sourceNodeId] && connections[sourceNodeId][sourceOutputName]) {
-    connections[sourceNodeId][sourceOutputName] = connections[sourceNodeId][sourceOutputName].filter(
-      conn => !(conn.node === targetNodeId && conn.type === targetInputName && conn.index === targetInputIndex)
-    );
+
+  if (connections[sourceNodeName] && connections[sourceNodeName][sourceOutputType]) {
+    connections[sourceNodeName] = {
+      ...connections[sourceNodeName],
+      [sourceOutputType]: connections[sourceNodeName][sourceOutputType].map((group, outputIndex) =>
+        sourceOutputIndex !== undefined && outputIndex !== sourceOutputIndex
+          ? group
+          : (group || []).filter(
+              conn => !(conn.node === targetNodeName && conn.type === targetInputType && conn.index === targetInputIndex)
+            )
+      ),
+    };
   }
 
   return {
@@ -175,6 +197,99 @@ export function removeConnectionFromWorkflow(
   };
 }
 
+/**
+ * Rewrite connection keys and targets after a node is renamed
+ */
+export function renameNodeInConnections(
+  connections: N8nConnections,
+  oldName: string,
+  newName: string
+): N8nConnections {
+  const renamed: N8nConnections = {};
+
+  for (const [sourceNodeName, outputs] of Object.entries(connections)) {
+    const key = sourceNodeName === oldName ? newName : sourceNodeName;
+    renamed[key] = {};
+    for (const [connectionType, outputGroups] of Object.entries(outputs)) {
+      renamed[key][connectionType] = outputGroups.map(group =>
+        (group || []).map(conn => (conn.node === oldName ? { ...conn, node: newName } : conn))
+      );
+    }
+  }
+
+  return renamed;
+}
+
+/**
+ * Convert connections written by earlier versions of this server
+ * (keyed by node ID with one flat array per output) to n8n's native format
+ */
+export function migrateLegacyConnections(workflow: N8nWorkflow): N8nWorkflow {
+  const nodeNames = new Set(workflow.nodes.map(node => node.name));
+  const namesById = new Map(workflow.nodes.map(node => [node.id, node.name]));
+  const resolveName = (ref: string) => (nodeNames.has(ref) ? ref : namesById.get(ref) ?? ref);
+
+  let changed = false;
+  const connections: N8nConnections = {};
+
+  for (const [sourceRef, outputs] of Object.entries(workflow.connections || {})) {
+    const sourceNodeName = resolveName(sourceRef);
+    if (sourceNodeName !== sourceRef) changed = true;
+    connections[sourceNodeName] = { ...(connections[sourceNodeName] || {}) };
+
+    for (const [connectionType, value] of Object.entries(outputs as Record<string, unknown[]>)) {
+      if (!Array.isArray(value)) {
+        connections[sourceNodeName][connectionType] = value;
+        continue;
+      }
+
+      // Legacy outputs hold connection objects directly instead of one array per output index
+      const isFlat = value.length > 0 && value.every(item => item !== null && !Array.isArray(item));
+      if (isFlat) changed = true;
+      const outputGroups = (isFlat ? [value] : value) as N8nConnectionDetail[][];
+
+      connections[sourceNodeName][connectionType] = outputGroups.map(group =>
+        (group || []).map(conn => {
+          const node = resolveName(conn.node);
+          if (node !== conn.node) changed = true;
+          return node === conn.node ? conn : { ...conn, node };
+        })
+      );
+    }
+  }
+
+  return changed ? { ...workflow, connections } : workflow;
+}
+
+/**
+ * Count all connections in a workflow
+ */
+export function countConnections(connections: N8nConnections): number {
+  return Object.values(connections).reduce(
+    (total, outputs) => total + Object.values(outputs).reduce(
+      (outputTotal, outputGroups) => outputTotal + outputGroups.reduce(
+        (groupTotal, group) => groupTotal + (group?.length || 0), 0
+      ), 0
+    ), 0
+  );
+}
+
+/**
+ * Get a node name that is not yet used in the workflow, numbering duplicates like n8n does
+ */
+export function getUniqueNodeName(workflow: N8nWorkflow, baseName: string): string {
+  const existingNames = new Set(workflow.nodes.map(node => node.name));
+  if (!existingNames.has(baseName)) {
+    return baseName;
+  }
+
+  let counter = 1;
+  while (existingNames.has(`${baseName}${counter}`)) {
+    counter++;
+  }
+  return `${baseName}${counter}`;
+}
+
 /**
  * Find a node by ID in a workflow
  */
@@ -190,18 +305,49 @@ export function findNodeByName(workflow: N8nWorkflow, name: string): N8nWorkflow
 }
 
 /**
- * Update a node in a workflow
+ * Resolve a node reference by ID, exact name, or unique case-insensitive name
+ */
+export function resolveNodeReference(
+  workflow: N8nWorkflow,
+  reference: string
+): { node: N8nWorkflowNode; error?: undefined } | { node?: undefined; error: string } {
+  const node = findNodeById(workflow, reference) || findNodeByName(workflow, reference);
+  if (node) {
+    return { node };
+  }
+
+  const needle = reference.trim().toLowerCase();
+  const candidates = workflow.nodes.filter(candidate => candidate.name.toLowerCase() === needle);
+  if (candidates.length === 1) {
+    return { node: candidates[0] };
+  }
+  if (candidates.length > 1) {
+    const list = candidates.map(candidate => `'${candidate.name}' (${candidate.id})`).join(', ');
+    return { error: `Node reference '${reference}' is ambiguous; matching nodes: ${list}. Use the exact name or ID.` };
+  }
+
+  return { error: `Node '${reference}' not found in workflow` };
+}
+
+/**
+ * Update a node in a workflow, rewriting connections if the node is renamed
  */
 export function updateNodeInWorkflow(
   workflow: N8nWorkflow,
   nodeId: string,
   updates: Partial<N8nWorkflowNode>
 ): N8nWorkflow {
+  const existingNode = findNodeById(workflow, nodeId);
+  const renamed = existingNode && updates.name !== undefined && updates.name !== existingNode.name;
+
   return {
     ...workflow,
     nodes: workflow.nodes.map(node => 
       node.id === nodeId ? { ...node, ...updates } : node
     ),
+    connections: renamed
+      ? renameNodeInConnections(workflow.connections, existingNode.name, updates.name!)
+      : workflow.connections,
     updatedAt: new Date().toISOString(),
   };
 }
@@ -221,6 +367,7 @@ export function validateWorkflow(workflow: N8nWorkflow): { valid: boolean; error
   }
 
   // Check nodes
+  const nodeNames = new Set<string>();
   workflow.nodes.forEach((node, index) => {
     if (!node.id) errors.push(`Node ${index}: ID is required`);
     if (!node.name) errors.push(`Node ${index}: Name is required`);
@@ -228,36 +375,49 @@ export function validateWorkflow(workflow: N8nWorkflow): { valid: boolean; error
     if (!Array.isArray(node.position) || node.position.length !== 2) {
       errors.push(`Node ${index}: Position must be an array of two numbers`);
     }
+    if (node.name && nodeNames.has(node.name)) {
+      errors.push(`Node ${index}: Name '${node.name}' is already used by another node`);
+    }
+    nodeNames.add(node.name);
   });
 
   // Check connections
-  for (const [sourceNodeId, outputs] of Object.entries(workflow.connections)) {
-    const sourceNode = findNodeById(workflow, sourceNodeId);
+  for (const [sourceNodeName, outputs] of Object.entries(workflow.connections)) {
+    const sourceNode = findNodeByName(workflow, sourceNodeName);
     if (!sourceNode) {
-      errors.push(`Connection source node ${sourceNodeId} not found`);
+      errors.push(`Connection source node ${sourceNodeName} not found`);
     }
 
-    for (const [outputName, connections] of Object.entries(outputs)) {
-      if (!Array.isArray(connections)) {
-        errors.push(`Connections for ${sourceNodeId}.${outputName} must be an array`);
+    for (const [connectionType, outputGroups] of Object.entries(outputs)) {
+      if (!Array.isArray(outputGroups)) {
+        errors.push(`Connections for ${sourceNodeName}.${connectionType} must be an array`);
         continue;
       }
 
-      connections.forEach((conn, index) => {
-        if (!conn.node) {
-          errors.push(`Connection ${sourceNodeId}.${outputName}[${index}]: Target node is required`);
-        } else {
-          const targetNode = findNodeById(workflow, conn.node);
-          if (!targetNode) {
-            errors.push(`Connection ${sourceNodeId}.${outputName}[${index}]: Target node ${conn.node} not found`);
-          }
-        }
-        if (!conn.type) {
-          errors.push(`Connection ${sourceNodeId}.${outputName}[${index}]: Connection type is required`);
-        }
-        if (typeof conn.index !== 'number') {
-          errors.push(`Connection ${sourceNodeId}.${outputName}[${index}]: Connection index must be a number`);
+      outputGroups.forEach((group, outputIndex) => {
+        if (group === null) return;
+        if (!Array.isArray(group)) {
+          errors.push(`Connections for ${sourceNodeName}.${connectionType}[${outputIndex}] must be an array`);
+          return;
         }
+
+        group.forEach((conn, index) => {
+          const location = `${sourceNodeName}.${connectionType}[${outputIndex}][${index}]`;
+          if (!conn.node) {
+            errors.push(`Connection ${location}: Target node is required`);
+          } else {
+            const targetNode = findNodeByName(workflow, conn.node);
+            if (!targetNode) {
+              errors.push(`Connection ${location}: Target node ${conn.node} not found`);
+            }
+          }
+          if (!conn.type) {
+            errors.push(`Connection ${location}: Connection type is required`);
+          }
+          if (typeof conn.index !== 'number') {
+            errors.push(`Connection ${location}: Connection index must be a number`);
+          }
+        });
       });
     }
   }
@@ -273,11 +433,7 @@ export function validateWorkflow(workflow: N8nWorkflow): { valid: boolean; error
  */
 export function getWorkflowStats(workflow: N8nWorkflow) {
   const nodeTypes = new Set(workflow.nodes.map(node => node.type));
-  const connectionCount = Object.values(workflow.connections).reduce(
-    (total, outputs) => total + Object.values(outputs).reduce(
-      (outputTotal, connections) => outputTotal + connections.length, 0
-    ), 0
-  );
+  const connectionCount = countConnections(workflow.connections);
 
   return {
     nodeCount: workflow.nodes.length,
@@ -287,3 +443,66 @@ export function getWorkflowStats(workflow: N8nWorkflow) {
     lastUpdated: workflow.updatedAt,
   };
 }
+
+/**
+ * Check whether a node starts a workflow (trigger and webhook nodes)
+ */
+export function isTriggerNode(node: N8nWorkflowNode): boolean {
+  const shortType = node.type.split('.').pop() || '';
+  return /trigger$/i.test(shortType) || shortType === 'webhook';
+}
+
+export interface WorkflowSummary {
+  name: string;
+  id: string;
+  active: boolean;
+  tags: string[];
+  nodeCount: number;
+  nodeTypes: string[];
+  triggerTypes: string[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Summarise a workflow for listings
+ */
+export function summarizeWorkflow(workflow: N8nWorkflow): WorkflowSummary {
+  const nodes = workflow.nodes || [];
+  return {
+    name: workflow.name,
+    id: workflow.id,
+    active: workflow.active ?? false,
+    tags: getWorkflowTagNames(workflow),
+    nodeCount: nodes.length,
+    nodeTypes: [...new Set(nodes.map(node => node.type))],
+    triggerTypes: [...new Set(nodes.filter(isTriggerNode).map(node => node.type))],
+    createdAt: workflow.createdAt,
+    updatedAt: workflow.updatedAt,
+  };
+}
+
+/**
+ * Get the tag names of a workflow; files exported from n8n store tags as { id, name } objects
+ */
+export function getWorkflowTagNames(workflow: N8nWorkflow): string[] {
+  return (workflow.tags || [])
+    .map(tag => typeof tag === 'string' ? tag : (tag as { name?: string })?.name)
+    .filter((tag): tag is string => typeof tag === 'string' && tag.length > 0);
+}
+
+/**
+ * Trim tags and drop empty and duplicate ones, keeping the first spelling
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags.map(tag => tag.trim())) {
+    if (!tag) continue;
+    if (!seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      result.push(tag);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,350 @@
+/**
+ * AI Workflow Composer
+ * Builds an n8n AI agent workflow from a structured plan, selecting real
+ * LangChain node types from the node catalog and wiring the typed
+ * ai_* connections between the agent and its sub-nodes.
+ */
+
+import { N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import { NodeDiscoveryService } from './node-discovery-service.js';
+import {
+  createEmptyWorkflow,
+  createWorkflowNode,
+  addNodeToWorkflow,
+  addConnectionToWorkflow,
+  getUniqueNodeName,
+} from '../lib/workflow-utils.js';
+import { layoutWorkflow } from '../lib/workflow-layout.js';
+
+export type TriggerKind = 'webhook' | 'chat' | 'manual' | 'schedule';
+export type ModelProvider = 'openai' | 'anthropic' | 'google' | 'ollama' | 'mistral' | 'groq';
+export type MemoryKind = 'none' | 'buffer' | 'postgres' | 'redis';
+export type VectorStoreKind = 'none' | 'pinecone' | 'qdrant' | 'supabase' | 'in_memory';
+export type EmbeddingsProvider = 'openai' | 'google' | 'ollama' | 'mistral';
+export type AgentToolKind = 'http_request' | 'code' | 'calculator' | 'wikipedia' | 'serpapi' | 'workflow';
+
+export interface AgentToolPlan {
+  kind: AgentToolKind;
+  name?: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+export interface AiWorkflowPlan {
+  trigger: TriggerKind;
+  model_provider: ModelProvider;
+  model?: string;
+  system_message?: string;
+  prompt?: string;
+  memory?: MemoryKind;
+  vector_store?: VectorStoreKind;
+  vector_index?: string;
+  embeddings_provider?: EmbeddingsProvider;
+  tools?: AgentToolPlan[];
+}
+
+export interface ComposedConnection {
+  from: string;
+  to: string;
+  type: string;
+}
+
+export interface ComposeResult {
+  workflow: N8nWorkflow;
+  connections: ComposedConnection[];
+  warnings: string[];
+}
+
+const LANGCHAIN = '@n8n/n8n-nodes-langchain';
+
+const TRIGGER_NODES: Record<TriggerKind, string> = {
+  webhook: 'n8n-nodes-base.webhook',
+  chat: `${LANGCHAIN}.chatTrigger`,
+  manual: 'n8n-nodes-base.manualTrigger',
+  schedule: 'n8n-nodes-base.scheduleTrigger',
+};
+
+const MODEL_NODES: Record<ModelProvider, { type: string; defaultModel: string }> = {
+  openai: { type: `${LANGCHAIN}.lmChatOpenAi`, defaultModel: 'gpt-4o-mini' },
+  anthropic: { type: `${LANGCHAIN}.lmChatAnthropic`, defaultModel: 'claude-3-5-sonnet-20241022' },
+  google: { type: `${LANGCHAIN}.lmChatGoogleGemini`, defaultModel: 'models/gemini-1.5-flash' },
+  ollama: { type: `${LANGCHAIN}.lmChatOllama`, defaultModel: 'llama3.2' },
+  mistral: { type: `${LANGCHAIN}.lmChatMistralCloud`, defaultModel: 'mistral-small' },
+  groq: { type: `${LANGCHAIN}.lmChatGroq`, defaultModel: 'llama-3.1-70b-versatile' },
+};
+
+const MEMORY_NODES: Record<Exclude<MemoryKind, 'none'>, string> = {
+  buffer: `${LANGCHAIN}.memoryBufferWindow`,
+  postgres: `${LANGCHAIN}.memoryPostgresChat`,
+  redis: `${LANGCHAIN}.memoryRedisChat`,
+};
+
+const VECTOR_STORE_NODES: Record<Exclude<VectorStoreKind, 'none'>, { type: string; indexParameter: string }> = {
+  pinecone: { type: `${LANGCHAIN}.vectorStorePinecone`, indexParameter: 'pineconeIndex' },
+  qdrant: { type: `${LANGCHAIN}.vectorStoreQdrant`, indexParameter: 'qdrantCollection' },
+  supabase: { type: `${LANGCHAIN}.vectorStoreSupabase`, indexParameter: 'tableName' },
+  in_memory: { type: `${LANGCHAIN}.vectorStoreInMemory`, indexParameter: 'memoryKey' },
+};
+
+const EMBEDDINGS_NODES: Record<EmbeddingsProvider, string> = {
+  openai: `${LANGCHAIN}.embeddingsOpenAi`,
+  google: `${LANGCHAIN}.embeddingsGoogleGemini`,
+  ollama: `${LANGCHAIN}.embeddingsOllama`,
+  mistral: `${LANGCHAIN}.embeddingsMistralCloud`,
+};
+
+const TOOL_NODES: Record<AgentToolKind, { type: string; displayName: string }> = {
+  http_request: { type: `${LANGCHAIN}.toolHttpRequest`, displayName: 'HTTP Request Tool' },
+  code: { type: `${LANGCHAIN}.toolCode`, displayName: 'Code Tool' },
+  calculator: { type: `${LANGCHAIN}.toolCalculator`, displayName: 'Calculator' },
+  wikipedia: { type: `${LANGCHAIN}.toolWikipedia`, displayName: 'Wikipedia' },
+  serpapi: { type: `${LANGCHAIN}.toolSerpApi`, displayName: 'SerpAPI' },
+  workflow: { type: `${LANGCHAIN}.toolWorkflow`, displayName: 'Call Workflow Tool' },
+};
+
+// Versions used when the node catalog has no definition for a type
+const FALLBACK_VERSIONS: Record<string, number> = {
+  'n8n-nodes-base.webhook': 2,
+  'n8n-nodes-base.scheduleTrigger': 1.2,
+  'n8n-nodes-base.respondToWebhook': 1.1,
+  [`${LANGCHAIN}.chatTrigger`]: 1.1,
+  [`${LANGCHAIN}.agent`]: 1.7,
+  [`${LANGCHAIN}.lmChatOpenAi`]: 1.2,
+  [`${LANGCHAIN}.lmChatAnthropic`]: 1.3,
+  [`${LANGCHAIN}.memoryBufferWindow`]: 1.3,
+  [`${LANGCHAIN}.memoryPostgresChat`]: 1.3,
+  [`${LANGCHAIN}.memoryRedisChat`]: 1.4,
+  [`${LANGCHAIN}.toolHttpRequest`]: 1.1,
+  [`${LANGCHAIN}.toolCode`]: 1.1,
+  [`${LANGCHAIN}.toolWorkflow`]: 1.3,
+};
+
+export class AiWorkflowComposer {
+  private nodeDiscoveryService: NodeDiscoveryService;
+
+  constructor(nodeDiscoveryService: NodeDiscoveryService = new NodeDiscoveryService()) {
+    this.nodeDiscoveryService = nodeDiscoveryService;
+  }
+
+  /**
+   * Compose a workflow from a plan
+   */
+  async compose(workflowName: string, plan: AiWorkflowPlan, n8nVersion?: string): Promise<ComposeResult> {
+    const availableVersions = await this.nodeDiscoveryService.getAvailableVersions();
+    const catalogVersion = n8nVersion
+      ? this.nodeDiscoveryService.findBestMatchingVersion(n8nVersion, availableVersions) ?? undefined
+      : availableVersions[0];
+
+    const warnings: string[] = catalogVersion
+      ? []
+      : ['Node catalog unavailable, default type versions were used'];
+    const missing: string[] = [];
+    const resolveVersion = async (nodeType: string): Promise<number> => {
+      const definition = catalogVersion
+        ? await this.nodeDiscoveryService.getNodeDefinition(nodeType, catalogVersion)
+        : null;
+      if (definition) {
+        return definition.version;
+      }
+      if (catalogVersion) {
+        missing.push(nodeType);
+      }
+      return FALLBACK_VERSIONS[nodeType] ?? 1;
+    };
+
+    let workflow = createEmptyWorkflow(workflowName);
+    const connections: ComposedConnection[] = [];
+    const add = (node: N8nWorkflowNode) => {
+      workflow = addNodeToWorkflow(workflow, node);
+      return node;
+    };
+    const connect = (from: N8nWorkflowNode, to: N8nWorkflowNode, type: string) => {
+      workflow = addConnectionToWorkflow(workflow, from.name, type, to.name, type, 0);
+      connections.push({ from: from.name, to: to.name, type });
+    };
+
+    // Main row: trigger -> agent (-> respond to webhook)
+    const triggerType = TRIGGER_NODES[plan.trigger];
+    const trigger = add(createWorkflowNode(
+      triggerType,
+      this.getTriggerName(plan.trigger),
+      [0, 0],
+      this.getTriggerParameters(plan.trigger, workflowName),
+      await resolveVersion(triggerType)
+    ));
+
+    const agentType = `${LANGCHAIN}.agent`;
+    const agent = add(createWorkflowNode(
+      agentType,
+      'AI Agent',
+      [0, 0],
+      this.getAgentParameters(plan),
+      await resolveVersion(agentType)
+    ));
+    connect(trigger, agent, 'main');
+
+    if (plan.trigger === 'webhook') {
+      const respondType = 'n8n-nodes-base.respondToWebhook';
+      const respond = add(createWorkflowNode(
+        respondType,
+        'Respond to Webhook',
+        [0, 0],
+        { respondWith: 'json', responseBody: '={{ { "output": $json.output } }}' },
+        await resolveVersion(respondType)
+      ));
+      connect(agent, respond, 'main');
+    }
+
+    const model = MODEL_NODES[plan.model_provider];
+    const modelNode = add(createWorkflowNode(
+      model.type,
+      'Chat Model',
+      [0, 0],
+      { model: plan.model || model.defaultModel, options: {} },
+      await resolveVersion(model.type)
+    ));
+    connect(modelNode, agent, 'ai_languageModel');
+
+    if (plan.memory && plan.memory !== 'none') {
+      const memoryType = MEMORY_NODES[plan.memory];
+      const memoryNode = add(createWorkflowNode(
+        memoryType,
+        'Memory',
+        [0, 0],
+        this.getMemoryParameters(plan),
+        await resolveVersion(memoryType)
+      ));
+      connect(memoryNode, agent, 'ai_memory');
+    }
+
+    for (const tool of plan.tools || []) {
+      const toolDef = TOOL_NODES[tool.kind];
+      const toolNode = add(createWorkflowNode(
+        toolDef.type,
+        getUniqueNodeName(workflow, tool.name || toolDef.displayName),
+        [0, 0],
+        this.getToolParameters(tool),
+        await resolveVersion(toolDef.type)
+      ));
+      connect(toolNode, agent, 'ai_tool');
+    }
+
+    // The vector store is exposed to the agent as a retrieval tool, fed by an embeddings node
+    if (plan.vector_store && plan.vector_store !== 'none') {
+      const store = VECTOR_STORE_NODES[plan.vector_store];
+      const storeVersion = await resolveVersion(store.type);
+      const storeParameters: Record<string, any> = {
+        mode: 'retrieve-as-tool',
+        toolDescription: 'Search the knowledge base for information relevant to the question',
+      };
+      // From version 1.3 n8n names the tool after the node instead of reading toolName
+      if (storeVersion <= 1.2) {
+        storeParameters.toolName = 'knowledge_base';
+      }
+      if (plan.vector_index) {
+        storeParameters[store.indexParameter] = plan.vector_store === 'in_memory' || plan.vector_store === 'supabase'
+          ? plan.vector_index
+          : { __rl: true, value: plan.vector_index, mode: 'list' };
+      }
+
+      const storeNode = add(createWorkflowNode(
+        store.type,
+        getUniqueNodeName(workflow, 'Knowledge Base'),
+        [0, 0],
+        storeParameters,
+        storeVersion
+      ));
+      connect(storeNode, agent, 'ai_tool');
+
+      const embeddingsProvider = plan.embeddings_provider || this.getDefaultEmbeddingsProvider(plan.model_provider);
+      const embeddingsType = EMBEDDINGS_NODES[embeddingsProvider];
+      const embeddingsNode = add(createWorkflowNode(
+        embeddingsType,
+        'Embeddings',
+        [0, 0],
+        {},
+        await resolveVersion(embeddingsType)
+      ));
+      connect(embeddingsNode, storeNode, 'ai_embedding');
+    }
+
+    if (missing.length > 0) {
+      throw new Error(
+        `These node types are not available in n8n ${catalogVersion}: ${[...new Set(missing)].join(', ')}`
+      );
+    }
+
+    // Positions are assigned once the graph is complete
+    return { workflow: layoutWorkflow(workflow), connections, warnings };
+  }
+
+  private getTriggerName(trigger: TriggerKind): string {
+    switch (trigger) {
+      case 'webhook': return 'Webhook';
+      case 'chat': return 'When chat message received';
+      case 'manual': return 'When clicking ‘Test workflow’';
+      case 'schedule': return 'Schedule Trigger';
+    }
+  }
+
+  private getTriggerParameters(trigger: TriggerKind, workflowName: string): Record<string, any> {
+    switch (trigger) {
+      case 'webhook':
+        return {
+          httpMethod: 'POST',
+          path: workflowName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'ai-agent',
+          responseMode: 'responseNode',
+          options: {},
+        };
+      case 'chat':
+        return { options: {} };
+      case 'manual':
+        return {};
+      case 'schedule':
+        return { rule: { interval: [{ field: 'hours', hoursInterval: 1 }] } };
+    }
+  }
+
+  private getAgentParameters(plan: AiWorkflowPlan): Record<string, any> {
+    const options: Record<string, any> = {};
+    if (plan.system_message) {
+      options.systemMessage = plan.system_message;
+    }
+
+    // The chat trigger feeds chatInput automatically; other triggers need an explicit prompt
+    if (plan.trigger === 'chat') {
+      return { options };
+    }
+
+    const defaultPrompt = plan.trigger === 'webhook' ? '={{ $json.body.message }}' : 'Run the scheduled task';
+    return {
+      promptType: 'define',
+      text: plan.prompt || defaultPrompt,
+      options,
+    };
+  }
+
+  private getMemoryParameters(plan: AiWorkflowPlan): Record<string, any> {
+    const parameters: Record<string, any> = { contextWindowLength: 10 };
+    if (plan.trigger !== 'chat') {
+      parameters.sessionIdType = 'customKey';
+      parameters.sessionKey = plan.trigger === 'webhook' ? '={{ $json.body.sessionId }}' : 'default';
+    }
+    return parameters;
+  }
+
+  private getToolParameters(tool: AgentToolPlan): Record<string, any> {
+    const parameters: Record<string, any> = {};
+    if (tool.description) {
+      parameters[tool.kind === 'http_request' ? 'toolDescription' : 'description'] = tool.description;
+    }
+    return { ...parameters, ...(tool.parameters || {}) };
+  }
+
+  private getDefaultEmbeddingsProvider(provider: ModelProvider): EmbeddingsProvider {
+    if (provider === 'google' || provider === 'ollama' || provider === 'mistral') {
+      return provider;
+    }
+    return 'openai';
+  }
+}
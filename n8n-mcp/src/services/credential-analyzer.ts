@@ -0,0 +1,165 @@
+/**
+ * Credential Analyzer
+ * Works out which credential types each workflow node needs, from the
+ * credentials listed in its node definition (honouring displayOptions) and
+ * the generic authentication parameters of nodes like HTTP Request, and
+ * matches them against credentials stored on the n8n instance.
+ */
+
+import { N8nCredentialReference, N8nNodeDefinition, N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import { NodeDiscoveryService } from './node-discovery-service.js';
+import { PropertyDependencies } from './property-dependencies.js';
+
+export interface AvailableCredential {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface CredentialRequirement {
+  type: string;
+  required: boolean;
+  bound?: N8nCredentialReference;
+  /** Whether the bound credential exists on the instance; undefined when that is not known */
+  boundExists?: boolean;
+  candidates: AvailableCredential[];
+}
+
+export interface NodeCredentialAnalysis {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  definitionFound: boolean;
+  requirements: CredentialRequirement[];
+  /** Bound credential types the node does not use with its current parameters */
+  unusedBindings: string[];
+}
+
+export interface WorkflowCredentialAnalysis {
+  nodes: NodeCredentialAnalysis[];
+  missing: Array<{ nodeName: string; type: string }>;
+  availableCredentialsKnown: boolean;
+}
+
+export class CredentialAnalyzer {
+  private nodeDiscoveryService: NodeDiscoveryService;
+
+  constructor(nodeDiscoveryService: NodeDiscoveryService = new NodeDiscoveryService()) {
+    this.nodeDiscoveryService = nodeDiscoveryService;
+  }
+
+  /**
+   * Analyse the credential requirements of every node in a workflow.
+   * Pass null for availableCredentials when the n8n instance cannot be queried.
+   */
+  async analyzeWorkflow(
+    workflow: N8nWorkflow,
+    availableCredentials: AvailableCredential[] | null,
+    n8nVersion?: string
+  ): Promise<WorkflowCredentialAnalysis> {
+    const nodes: NodeCredentialAnalysis[] = [];
+
+    for (const node of workflow.nodes) {
+      const definition = await this.getDefinition(node.type, n8nVersion);
+      const needed = this.getRequiredCredentials(node, definition);
+      const boundTypes = Object.keys(node.credentials || {});
+
+      // Without a definition the bound credentials are the best record of what the node needs
+      if (!definition) {
+        for (const type of boundTypes.filter(type => !needed.some(entry => entry.type === type))) {
+          needed.push({ type, required: false });
+        }
+      }
+
+      nodes.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        nodeType: node.type,
+        definitionFound: definition !== null,
+        requirements: needed.map(({ type, required }) => {
+          const bound = node.credentials?.[type];
+          return {
+            type,
+            required,
+            bound,
+            boundExists: bound && availableCredentials ? this.findBoundCredential(bound, type, availableCredentials) !== undefined : undefined,
+            candidates: (availableCredentials || []).filter(credential => credential.type === type),
+          };
+        }),
+        unusedBindings: boundTypes.filter(type => !needed.some(entry => entry.type === type)),
+      });
+    }
+
+    return {
+      nodes,
+      missing: nodes.flatMap(node => node.requirements
+        .filter(requirement => requirement.required && !requirement.bound)
+        .map(requirement => ({ nodeName: node.nodeName, type: requirement.type }))),
+      availableCredentialsKnown: availableCredentials !== null,
+    };
+  }
+
+  /**
+   * List the credential types a node uses with its current parameters
+   */
+  getRequiredCredentials(node: N8nWorkflowNode, definition: N8nNodeDefinition | null): Array<{ type: string; required: boolean }> {
+    const parameters = node.parameters || {};
+    const result: Array<{ type: string; required: boolean }> = [];
+    const add = (type: string, required: boolean) => {
+      const existing = result.find(entry => entry.type === type);
+      if (existing) existing.required = existing.required || required;
+      else result.push({ type, required });
+    };
+
+    if (definition) {
+      // Credential displayOptions refer to parameters, so fill in defaults for unset ones
+      const values: Record<string, any> = { '@version': node.typeVersion ?? definition.version };
+      for (const prop of definition.properties || []) {
+        if (prop.default !== undefined && !(prop.name in values)) {
+          values[prop.name] = prop.default;
+        }
+      }
+      Object.assign(values, parameters);
+
+      for (const entry of definition.credentials || []) {
+        if (typeof entry === 'string') {
+          add(entry, true);
+        } else if (PropertyDependencies.isPropertyVisible(entry, values)) {
+          add(entry.name, entry.required ?? false);
+        }
+      }
+    }
+
+    // HTTP Request style nodes pick their credential type through parameters
+    if (parameters.authentication === 'predefinedCredentialType' && typeof parameters.nodeCredentialType === 'string') {
+      add(parameters.nodeCredentialType, true);
+    }
+    if (parameters.authentication === 'genericCredentialType' && typeof parameters.genericAuthType === 'string') {
+      add(parameters.genericAuthType, true);
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the stored credential a node's reference points to, by ID or else by name
+   */
+  findBoundCredential(
+    reference: N8nCredentialReference,
+    type: string,
+    availableCredentials: AvailableCredential[]
+  ): AvailableCredential | undefined {
+    const ofType = availableCredentials.filter(credential => credential.type === type);
+    return reference.id
+      ? ofType.find(credential => credential.id === reference.id)
+      : ofType.find(credential => credential.name === reference.name);
+  }
+
+  private async getDefinition(nodeType: string, n8nVersion?: string): Promise<N8nNodeDefinition | null> {
+    try {
+      return await this.nodeDiscoveryService.getNodeDefinition(nodeType, n8nVersion);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Mock n8n instance
+ * Stands in for a live n8n server when running workflow tests in CI.
+ * Executions finish immediately. Items flow from the webhook along the main
+ * connections: pinned nodes return their pinned data, as external calls are
+ * stubbed that way, and every other node passes its input through on its
+ * first output. Node outputs therefore depend on the input and the wiring,
+ * not on the expectations of the test.
+ */
+
+import { N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import { Execution, ExecutionListParams, ExecutionListResponse, ExecutionStatus } from '../types/n8n-api.js';
+import { getWebhookMethod, WorkflowTestClient } from './workflow-test-runner.js';
+
+// Guards against workflows that loop back on themselves
+const MAX_NODE_RUNS = 1000;
+
+export class MockN8nApiClient implements WorkflowTestClient {
+  private workflow: N8nWorkflow;
+  private executions: Map<string, Execution> = new Map();
+
+  constructor(workflow: N8nWorkflow) {
+    this.workflow = workflow;
+  }
+
+  /**
+   * Simulate a webhook call by running the workflow and recording a finished execution
+   */
+  async callWebhook(path: string, method: string = 'POST', data?: unknown): Promise<any> {
+    const webhookNode = this.workflow.nodes.find(
+      node => node.type === 'n8n-nodes-base.webhook' && !node.disabled && String(node.parameters?.path || node.webhookId) === path
+    );
+    if (!webhookNode) {
+      throw new Error(`No webhook registered for path '${path}'`);
+    }
+    if (getWebhookMethod(webhookNode) !== method.toUpperCase()) {
+      throw new Error(`Webhook '${path}' is registered for ${getWebhookMethod(webhookNode)}, not ${method.toUpperCase()}`);
+    }
+
+    const sendsQuery = ['GET', 'HEAD', 'DELETE'].includes(method.toUpperCase());
+    const request = { headers: {}, params: {}, query: sendsQuery ? data ?? {} : {}, body: sendsQuery ? {} : data ?? {} };
+    const runData = this.runFrom(webhookNode, [{ json: request }]);
+
+    const now = new Date().toISOString();
+    const execution: Execution = {
+      // n8n numbers executions in the order they start
+      id: String(this.executions.size + 1),
+      finished: true,
+      mode: 'webhook',
+      status: ExecutionStatus.SUCCESS,
+      startedAt: now,
+      stoppedAt: now,
+      workflowId: this.workflow.id,
+      workflowName: this.workflow.name,
+      data: {
+        resultData: {
+          runData,
+          lastNodeExecuted: Object.keys(runData).pop(),
+        },
+      },
+    };
+    this.executions.set(execution.id, execution);
+
+    return { executionId: execution.id };
+  }
+
+  async listExecutions(params: ExecutionListParams = {}): Promise<ExecutionListResponse> {
+    const data = [...this.executions.values()]
+      .filter(execution => !params.workflowId || execution.workflowId === params.workflowId)
+      .reverse()
+      .slice(0, params.limit ?? 20);
+    return { data, total: data.length };
+  }
+
+  async getExecution(id: string, includeData: boolean = false): Promise<Execution> {
+    const execution = this.executions.get(id);
+    if (!execution) {
+      throw new Error(`Execution ${id} not found`);
+    }
+    return includeData ? execution : { ...execution, data: undefined };
+  }
+
+  /**
+   * Run the nodes reachable from the trigger, breadth first
+   */
+  private runFrom(trigger: N8nWorkflowNode, triggerItems: unknown[]): Record<string, unknown[]> {
+    const runData: Record<string, unknown[]> = {};
+    const queue: Array<{ node: N8nWorkflowNode; items: unknown[] }> = [{ node: trigger, items: triggerItems }];
+
+    for (let runs = 0; queue.length > 0 && runs < MAX_NODE_RUNS; runs++) {
+      const { node, items } = queue.shift()!;
+      const pinned = this.workflow.pinData?.[node.name] as unknown[] | undefined;
+      // Disabled nodes pass their input through, like in n8n
+      const output = pinned && !node.disabled && node !== trigger ? pinned : items;
+
+      runData[node.name] = [...(runData[node.name] || []), this.createRun(output)];
+      if (output.length === 0) continue;
+
+      for (const target of this.workflow.connections[node.name]?.main?.[0] || []) {
+        const next = this.workflow.nodes.find(candidate => candidate.name === target.node);
+        if (next) {
+          queue.push({ node: next, items: output });
+        }
+      }
+    }
+
+    return runData;
+  }
+
+  private createRun(items: unknown[]) {
+    return {
+      startTime: Date.now(),
+      executionTime: 0,
+      data: { main: [items] },
+    };
+  }
+}
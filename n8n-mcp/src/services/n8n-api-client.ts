@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 import { logger } from '../utils/logger.js';
+import { getN8nApiConfig } from '../config/n8n-api.js';
 import {
   Workflow,
   WorkflowListParams,
@@ -33,11 +34,15 @@ export interface N8nApiClientConfig {
 export class N8nApiClient {
   private client: AxiosInstance;
   private maxRetries: number;
+  private instanceUrl: string;
+  private timeout: number;
 
   constructor(config: N8nApiClientConfig) {
     const { baseUrl, apiKey, timeout = 30000, maxRetries = 3 } = config;
 
     this.maxRetries = maxRetries;
+    this.timeout = timeout;
+    this.instanceUrl = baseUrl.replace(/\/+$/, '').replace(/\/api\/v1$/, '');
 
     // Ensure baseUrl ends with /api/v1
     const apiUrl = baseUrl.endsWith('/api/v1') 
@@ -96,7 +101,10 @@ export class N8nApiClient {
    */
   async listWorkflows(params: WorkflowListParams = {}): Promise<WorkflowListResponse> {
     try {
-      const response = await this.client.get('/workflows', { params });
+      // The API expects tag names as one comma-separated value
+      const response = await this.client.get('/workflows', {
+        params: { ...params, tags: params.tags?.length ? params.tags.join(',') : undefined },
+      });
       return response.data;
     } catch (error) {
       logger.error('Failed to list workflows:', error);
@@ -176,9 +184,11 @@ export class N8nApiClient {
     }
   }
 
-  async getExecution(id: string): Promise<Execution> {
+  async getExecution(id: string, includeData: boolean = false): Promise<Execution> {
     try {
-      const response = await this.client.get(`/executions/${id}`);
+      const response = await this.client.get(`/executions/${id}`, {
+        params: includeData ? { includeData: true } : undefined,
+      });
       return response.data;
     } catch (error) {
       logger.error(`Failed to get execution ${id}:`, error);
@@ -231,6 +241,58 @@ export class N8nApiClient {
     }
   }
 
+  async createTag(name: string): Promise<Tag> {
+    try {
+      const response = await this.client.post('/tags', { name });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to create tag ${name}:`, error);
+      throw error;
+    }
+  }
+
+  async updateTag(id: string, name: string): Promise<Tag> {
+    try {
+      const response = await this.client.put(`/tags/${id}`, { name });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to update tag ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteTag(id: string): Promise<void> {
+    try {
+      await this.client.delete(`/tags/${id}`);
+    } catch (error) {
+      logger.error(`Failed to delete tag ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async getWorkflowTags(workflowId: string): Promise<Tag[]> {
+    try {
+      const response = await this.client.get(`/workflows/${workflowId}/tags`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get tags of workflow ${workflowId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the tags of a workflow
+   */
+  async updateWorkflowTags(workflowId: string, tagIds: string[]): Promise<Tag[]> {
+    try {
+      const response = await this.client.put(`/workflows/${workflowId}/tags`, tagIds.map(id => ({ id })));
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to update tags of workflow ${workflowId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Variable operations
    */
@@ -260,6 +322,29 @@ export class N8nApiClient {
     }
   }
 
+  /**
+   * Call a production webhook of the instance. Webhooks are served outside the
+   * public API, at <instance>/webhook/<path>, and only while the workflow is active.
+   * GET, HEAD and DELETE requests send the data as query parameters.
+   */
+  async callWebhook(path: string, method: string = 'POST', data?: unknown): Promise<any> {
+    const httpMethod = method.toUpperCase();
+    const sendsQuery = ['GET', 'HEAD', 'DELETE'].includes(httpMethod);
+    try {
+      const response = await axios.request({
+        url: `${this.instanceUrl}/webhook/${path.replace(/^\/+/, '')}`,
+        method: httpMethod,
+        timeout: this.timeout,
+        params: sendsQuery ? data : undefined,
+        data: sendsQuery ? undefined : data,
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to call webhook ${httpMethod} ${path}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Export/Import operations
    */
@@ -316,3 +401,32 @@ export class N8nApiClient {
     }
   }
 }
+
+// Shared client instance, created on first use from the environment configuration
+let sharedClient: N8nApiClient | null = null;
+
+/**
+ * Get the shared n8n API client, throwing if the API is not configured
+ */
+export function getN8nApiClient(): N8nApiClient {
+  if (!sharedClient) {
+    const config = getN8nApiConfig();
+    if (!config) {
+      throw new Error('n8n API is not configured. Set N8N_API_URL and N8N_API_KEY to enable it.');
+    }
+    sharedClient = new N8nApiClient(config);
+  }
+  return sharedClient;
+}
+
+/**
+ * Extract a readable message from an n8n API error
+ */
+export function formatN8nApiError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const message = (error.response?.data as { message?: string } | undefined)?.message || error.message;
+    return status ? `${status} ${message}` : message;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
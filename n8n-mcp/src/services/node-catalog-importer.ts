@@ -0,0 +1,189 @@
+/**
+ * Node Catalog Importer
+ * Builds a node catalog from the node type descriptions n8n publishes as
+ * `types/nodes.json` (served by the editor at /types/nodes.json and shipped
+ * in the dist/ folder of n8n-nodes-base and @n8n/n8n-nodes-langchain).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { N8nNodeDefinition, N8nNodeProperty } from '../types.js';
+import { NodeCatalogMetadata, NodeCatalogStore } from './node-catalog.js';
+
+export interface NodeTypesDump {
+  /** File path or URL the dump was read from */
+  source: string;
+  data: unknown;
+  /** Package prefix for node names without one, e.g. n8n-nodes-base */
+  packageName?: string;
+}
+
+export interface NodeCatalogImportResult {
+  metadata: NodeCatalogMetadata;
+  imported: number;
+  skipped: number;
+  replaced: boolean;
+}
+
+const DEFAULT_PACKAGE_NAME = 'n8n-nodes-base';
+
+/**
+ * A node type description as listed in types/nodes.json: a node definition
+ * whose version is one number or the versions of one implementation
+ */
+type NodeTypeDescription = Omit<N8nNodeDefinition, 'version'> & {
+  version?: number | number[];
+  defaultVersion?: number;
+};
+
+interface MergedNodeType {
+  primary: NodeTypeDescription;
+  primaryVersion: number;
+  /** Every listed type version with the properties of its implementation */
+  properties: Map<number, N8nNodeProperty[]>;
+}
+
+/**
+ * The node list of a dump: an array, a `{ nodes: [...] }` object or an object keyed by node name
+ */
+function listDumpEntries(data: unknown): unknown[] {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (!data || typeof data !== 'object') {
+    return [];
+  }
+  const nodes = (data as { nodes?: unknown }).nodes;
+  return Array.isArray(nodes) ? nodes : Object.values(data);
+}
+
+function isNodeTypeDescription(entry: unknown): entry is NodeTypeDescription {
+  if (!entry || typeof entry !== 'object') {
+    return false;
+  }
+  const { name, properties } = entry as { name?: unknown; properties?: unknown };
+  return typeof name === 'string' && Array.isArray(properties);
+}
+
+/**
+ * Convert a types/nodes.json dump into node definitions. n8n lists a
+ * versioned node once per implementation with a version array; these are
+ * merged into one definition for the default (or newest) version that lists
+ * every supported version in `versions`, and keeps the properties of the
+ * other implementations in `propertiesByVersion`.
+ */
+export function convertNodeTypesDump(data: unknown, packageName: string = DEFAULT_PACKAGE_NAME): {
+  nodes: N8nNodeDefinition[];
+  skipped: number;
+} {
+  const byName = new Map<string, MergedNodeType>();
+  let skipped = 0;
+
+  for (const entry of listDumpEntries(data)) {
+    if (!isNodeTypeDescription(entry)) {
+      skipped++;
+      continue;
+    }
+
+    const name = entry.name.includes('.') ? entry.name : `${packageName}.${entry.name}`;
+    const versions = (Array.isArray(entry.version) ? entry.version : [entry.version ?? 1])
+      .filter((version): version is number => typeof version === 'number');
+    const entryVersion = typeof entry.defaultVersion === 'number' ? entry.defaultVersion : Math.max(...versions, 1);
+
+    let merged = byName.get(name);
+    if (!merged) {
+      merged = { primary: entry, primaryVersion: entryVersion, properties: new Map() };
+      byName.set(name, merged);
+    } else if (entryVersion > merged.primaryVersion) {
+      merged.primary = entry;
+      merged.primaryVersion = entryVersion;
+    }
+    versions.forEach(version => merged.properties.set(version, entry.properties));
+  }
+
+  const nodes = [...byName].map(([name, { primary, primaryVersion, properties }]): N8nNodeDefinition => {
+    const { defaultVersion: _defaultVersion, version: _version, ...description } = primary;
+    const definition: N8nNodeDefinition = {
+      ...description,
+      name,
+      version: primaryVersion,
+      versions: [...properties.keys()].sort((a, b) => a - b),
+    };
+
+    const otherVersions = [...properties].filter(([, versionProperties]) => versionProperties !== primary.properties);
+    if (otherVersions.length > 0) {
+      definition.propertiesByVersion = Object.fromEntries(otherVersions.map(([version, versionProperties]) => [String(version), versionProperties]));
+    }
+    return definition;
+  });
+
+  return { nodes: nodes.sort((a, b) => a.name.localeCompare(b.name)), skipped };
+}
+
+export class NodeCatalogImporter {
+  private store: NodeCatalogStore;
+
+  constructor(store: NodeCatalogStore) {
+    this.store = store;
+  }
+
+  /**
+   * Read a dump from an http(s) URL, a nodes.json file, or a directory
+   * containing nodes.json or types/nodes.json
+   */
+  async readDump(source: string, packageName?: string, headers?: Record<string, string>): Promise<NodeTypesDump> {
+    if (/^https?:\/\//i.test(source)) {
+      const response = await axios.get(source, { headers, timeout: 60000, responseType: 'json' });
+      return { source, data: response.data, packageName };
+    }
+
+    let filePath = path.resolve(source);
+    const stat = await fs.stat(filePath);
+    if (stat.isDirectory()) {
+      const candidates = ['nodes.json', path.join('types', 'nodes.json'), path.join('dist', 'types', 'nodes.json')]
+        .map(candidate => path.join(filePath, candidate));
+      const found = await Promise.all(candidates.map(candidate => fs.access(candidate).then(() => true, () => false)));
+      const index = found.indexOf(true);
+      if (index === -1) {
+        throw new Error(`No nodes.json found in directory '${source}'`);
+      }
+      filePath = candidates[index];
+    }
+
+    return { source: filePath, data: JSON.parse(await fs.readFile(filePath, 'utf-8')), packageName };
+  }
+
+  /**
+   * Convert dumps and store them as the catalog of an n8n version. With
+   * merge, nodes already stored for the version are kept unless a dump
+   * redefines them (e.g. to combine n8n-nodes-base and the langchain nodes).
+   */
+  async importDumps(version: string, dumps: NodeTypesDump[], merge: boolean = true): Promise<NodeCatalogImportResult> {
+    const nodes = new Map<string, N8nNodeDefinition>();
+    const sources: string[] = [];
+
+    const existingVersions = await this.store.listVersions();
+    const replaced = existingVersions.includes(version);
+    if (merge && replaced) {
+      (await this.store.loadNodes(version)).forEach(node => nodes.set(node.name, node));
+      sources.push(...((await this.store.readMetadata(version))?.sources || []));
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    for (const dump of dumps) {
+      const converted = convertNodeTypesDump(dump.data, dump.packageName);
+      if (converted.nodes.length === 0) {
+        throw new Error(`No node type descriptions found in '${dump.source}'`);
+      }
+      converted.nodes.forEach(node => nodes.set(node.name, node));
+      imported += converted.nodes.length;
+      skipped += converted.skipped;
+      sources.push(dump.source);
+    }
+
+    const metadata = await this.store.writeVersion(version, [...nodes.values()], [...new Set(sources)]);
+    return { metadata, imported, skipped, replaced };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Node Catalog
+ * Node definitions are stored per n8n version as `<dir>/<version>/<node>.json`.
+ * A catalog source lists the versions it holds and loads their definitions;
+ * the writable store also receives catalogs built by the importer.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { N8nNodeDefinition, N8nNodeProperty } from '../types.js';
+import { getNodeCatalogConfig } from '../config/node-catalog.js';
+
+export interface NodeCatalogSource {
+  readonly name: string;
+  readonly location: string;
+  listVersions(): Promise<string[]>;
+  loadNodes(version: string): Promise<N8nNodeDefinition[]>;
+  /** A value that changes whenever the stored definitions of a version change */
+  getVersionStamp(version: string): Promise<string | null>;
+}
+
+export interface NodeCatalogMetadata {
+  version: string;
+  importedAt: string;
+  nodeCount: number;
+  sources: string[];
+}
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+// Stored next to the node files; dot files are never loaded as node definitions
+const METADATA_FILE = '.catalog.json';
+
+// Node files read at once when loading a version
+const LOAD_CONCURRENCY = 32;
+
+// Bumped on every write so that caches of catalog contents can be dropped
+let catalogGeneration = 0;
+
+/**
+ * Get a counter that changes whenever a catalog is written
+ */
+export function getCatalogGeneration(): number {
+  return catalogGeneration;
+}
+
+/**
+ * Check that a string is a plain n8n version such as 1.110.1
+ */
+export function isCatalogVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version);
+}
+
+/**
+ * File name for a node type, e.g. @n8n/n8n-nodes-langchain.agent -> _n8n_n8n-nodes-langchain.agent.json
+ */
+export function getNodeFileName(nodeType: string): string {
+  return `${nodeType.replace(/[^\w.-]+/g, '_')}.json`;
+}
+
+/**
+ * Get the properties a type version of a node has, falling back to those of the default version
+ */
+export function getNodeProperties(definition: N8nNodeDefinition, typeVersion?: number): N8nNodeProperty[] {
+  const versioned = typeVersion !== undefined ? definition.propertiesByVersion?.[String(typeVersion)] : undefined;
+  return versioned || definition.properties || [];
+}
+
+/**
+ * Catalog source backed by a directory of version folders
+ */
+export class DirectoryCatalogSource implements NodeCatalogSource {
+  readonly name: string;
+  readonly location: string;
+
+  constructor(name: string, location: string) {
+    this.name = name;
+    this.location = location;
+  }
+
+  async listVersions(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.location, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory() && isCatalogVersion(entry.name))
+        .map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  }
+
+  async loadNodes(version: string): Promise<N8nNodeDefinition[]> {
+    const versionDir = path.join(this.location, version);
+    const files = await this.listNodeFiles(versionDir);
+
+    const nodes: Array<N8nNodeDefinition | null> = new Array(files.length).fill(null);
+    for (let start = 0; start < files.length; start += LOAD_CONCURRENCY) {
+      await Promise.all(files.slice(start, start + LOAD_CONCURRENCY).map(async (file, offset) => {
+        try {
+          nodes[start + offset] = JSON.parse(await fs.readFile(path.join(versionDir, file), 'utf-8')) as N8nNodeDefinition;
+        } catch (error) {
+          console.warn(`Failed to load node file ${file}:`, error);
+        }
+      }));
+    }
+    return nodes.filter((node): node is N8nNodeDefinition => node !== null);
+  }
+
+  /**
+   * Stamp a version from the names and modification times of its node files
+   */
+  async getVersionStamp(version: string): Promise<string | null> {
+    const versionDir = path.join(this.location, version);
+    try {
+      const files = await this.listNodeFiles(versionDir);
+      const stats = await Promise.all(files.map(file => fs.stat(path.join(versionDir, file))));
+      return files.map((file, index) => `${file}:${stats[index].mtimeMs}`).join('|');
+    } catch {
+      return null;
+    }
+  }
+
+  private async listNodeFiles(versionDir: string): Promise<string[]> {
+    return (await fs.readdir(versionDir)).filter(file => file.endsWith('.json') && !file.startsWith('.')).sort();
+  }
+
+  /**
+   * Read the import metadata of a version, if it was written by the importer
+   */
+  async readMetadata(version: string): Promise<NodeCatalogMetadata | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.location, version, METADATA_FILE), 'utf-8')) as NodeCatalogMetadata;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Writable catalog directory
+ */
+export class NodeCatalogStore extends DirectoryCatalogSource {
+  /**
+   * Replace the stored catalog of a version. The new catalog is written to a
+   * temporary folder first and swapped in, so readers never see a partial one.
+   */
+  async writeVersion(version: string, nodes: N8nNodeDefinition[], sources: string[]): Promise<NodeCatalogMetadata> {
+    if (!isCatalogVersion(version)) {
+      throw new Error(`Invalid n8n version '${version}', expected a version like 1.110.1`);
+    }
+
+    const suffix = `${process.pid}-${Date.now()}`;
+    const versionDir = path.join(this.location, version);
+    const tempDir = path.join(this.location, `.${version}.tmp-${suffix}`);
+    const oldDir = path.join(this.location, `.${version}.old-${suffix}`);
+
+    const metadata: NodeCatalogMetadata = {
+      version,
+      importedAt: new Date().toISOString(),
+      nodeCount: nodes.length,
+      sources,
+    };
+
+    await fs.mkdir(tempDir, { recursive: true });
+    try {
+      for (const node of nodes) {
+        await fs.writeFile(path.join(tempDir, getNodeFileName(node.name)), JSON.stringify(node, null, 2));
+      }
+      await fs.writeFile(path.join(tempDir, METADATA_FILE), JSON.stringify(metadata, null, 2));
+
+      const hadPrevious = await fs.rename(versionDir, oldDir).then(() => true, () => false);
+      await fs.rename(tempDir, versionDir);
+      if (hadPrevious) {
+        await fs.rm(oldDir, { recursive: true, force: true });
+      }
+    } catch (error) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    catalogGeneration++;
+    return metadata;
+  }
+}
+
+/**
+ * Build the configured catalog sources: the writable store first, then the
+ * bundled snapshot for versions the store does not have
+ */
+export function getDefaultCatalogSources(): { store: NodeCatalogStore; sources: NodeCatalogSource[] } {
+  const config = getNodeCatalogConfig();
+  const store = new NodeCatalogStore('catalog directory', config.catalogDir);
+  const sources: NodeCatalogSource[] = [store];
+
+  if (config.bundledDir && path.resolve(config.bundledDir) !== store.location) {
+    sources.push(new DirectoryCatalogSource('bundled snapshot', config.bundledDir));
+  }
+
+  return { store, sources };
+}
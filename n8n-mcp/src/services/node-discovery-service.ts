@@ -1,29 +1,64 @@
-import fs from 'fs/promises';
-import path from 'path';
 import { N8nNodeDefinition } from '../types.js';
+import { NodeSearchIndex, NodeSearchResult, buildNodeSearchIndex, searchNodeIndex } from '../lib/node-search.js';
+import { DirectoryCatalogSource, NodeCatalogSource, getCatalogGeneration, getDefaultCatalogSources } from './node-catalog.js';
+
+/**
+ * Loaded catalog of one n8n version with its lookup indexes
+ */
+interface CatalogCacheEntry {
+  source: NodeCatalogSource;
+  stamp: string | null;
+  nodes: N8nNodeDefinition[];
+  byName: Map<string, N8nNodeDefinition>;
+  /** Search indexes with and without tags, built on first search */
+  searchIndexes: Map<boolean, NodeSearchIndex>;
+  loadedAt: number;
+  checkedAt: number;
+}
 
 export class NodeDiscoveryService {
-  private nodesDir: string;
-  private nodeCache: Map<string, N8nNodeDefinition[]> = new Map();
-  private cacheTimestamp: number = 0;
+  private sources: NodeCatalogSource[];
+  private catalogCache: Map<string, CatalogCacheEntry> = new Map();
+  private pendingLoads: Map<string, Promise<CatalogCacheEntry | null>> = new Map();
+  private cacheGeneration: number = getCatalogGeneration();
   private readonly CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+  private readonly STAMP_CHECK_INTERVAL_MS = 5 * 1000; // Re-stat catalog files at most every 5 seconds
 
-  constructor(nodesDir: string = '../n8n-workflow-builder-mcp-main/workflow_nodes') {
-    this.nodesDir = nodesDir;
+  /**
+   * Sources are consulted in order; a version is loaded from the first source that has it.
+   * A directory path is accepted for a single versioned catalog directory.
+   */
+  constructor(sources: NodeCatalogSource[] | string = getDefaultCatalogSources().sources) {
+    this.sources = typeof sources === 'string' ? [new DirectoryCatalogSource('directory', sources)] : sources;
   }
 
   /**
    * Get available n8n versions
    */
   async getAvailableVersions(): Promise<string[]> {
-    try {
-      const entries = await fs.readdir(this.nodesDir);
-      return entries
-        .filter(entry => /^\d+\.\d+\.\d+$/.test(entry))
-        .sort((a, b) => this.compareVersions(b, a)); // Sort descending
-    } catch {
-      return [];
+    const versions = new Set<string>();
+    for (const source of this.sources) {
+      (await source.listVersions()).forEach(version => versions.add(version));
     }
+    return [...versions].sort((a, b) => this.compareVersions(b, a)); // Sort descending
+  }
+
+  /**
+   * Describe the catalog sources and the versions each provides
+   */
+  async getCatalogSources(): Promise<Array<{ name: string; location: string; versions: string[] }>> {
+    return Promise.all(this.sources.map(async source => ({
+      name: source.name,
+      location: source.location,
+      versions: (await source.listVersions()).sort((a, b) => this.compareVersions(b, a)),
+    })));
+  }
+
+  /**
+   * Drop cached node definitions so the next lookup reads the catalog again
+   */
+  clearCache(): void {
+    this.catalogCache.clear();
   }
 
   /**
@@ -75,45 +110,98 @@ export class NodeDiscoveryService {
    * Load nodes for a specific version
    */
   async loadNodesForVersion(version: string): Promise<N8nNodeDefinition[]> {
-    const cacheKey = version;
+    return (await this.getCatalogEntry(version))?.nodes || [];
+  }
+
+  /**
+   * Get the cached catalog of a version, reloading it when its TTL expired,
+   * a write happened in this process, or its files changed on disk.
+   * Concurrent requests for the same version share one load.
+   */
+  private async getCatalogEntry(version: string): Promise<CatalogCacheEntry | null> {
+    // No catalog version available
+    if (!version) {
+      return null;
+    }
+
+    // Catalogs written since the cache was filled invalidate it
+    if (this.cacheGeneration !== getCatalogGeneration()) {
+      this.clearCache();
+      this.cacheGeneration = getCatalogGeneration();
+    }
+
     const now = Date.now();
+    const cached = this.catalogCache.get(version);
+    if (cached && (now - cached.loadedAt) < this.CACHE_TTL_MS) {
+      if ((now - cached.checkedAt) < this.STAMP_CHECK_INTERVAL_MS) {
+        return cached;
+      }
 
-    // Check cache
-    if (this.nodeCache.has(cacheKey) && (now - this.cacheTimestamp) < this.CACHE_TTL_MS) {
-      return this.nodeCache.get(cacheKey)!;
+      // Another source may have gained the version, or its files may have changed
+      const source = await this.findSource(version);
+      if (source === cached.source && await source.getVersionStamp(version) === cached.stamp) {
+        cached.checkedAt = now;
+        return cached;
+      }
     }
 
-    try {
-      const versionDir = path.join(this.nodesDir, version);
-      const files = await fs.readdir(versionDir);
-      const nodeFiles = files.filter(file => file.endsWith('.json'));
+    let pending = this.pendingLoads.get(version);
+    if (!pending) {
+      pending = this.loadCatalogEntry(version).finally(() => this.pendingLoads.delete(version));
+      this.pendingLoads.set(version, pending);
+    }
+    return pending;
+  }
 
-      const nodes: N8nNodeDefinition[] = [];
-      
-      for (const file of nodeFiles) {
-        try {
-          const filePath = path.join(versionDir, file);
-          const content = await fs.readFile(filePath, 'utf-8');
-          const nodeDef = JSON.parse(content) as N8nNodeDefinition;
-          nodes.push(nodeDef);
-        } catch (error) {
-          console.warn(`Failed to load node file ${file}:`, error);
-        }
+  private async loadCatalogEntry(version: string): Promise<CatalogCacheEntry | null> {
+    const generation = this.cacheGeneration;
+    try {
+      const source = await this.findSource(version);
+      if (!source) {
+        this.catalogCache.delete(version);
+        return null;
       }
 
-      // Update cache
-      this.nodeCache.set(cacheKey, nodes);
-      this.cacheTimestamp = now;
+      // Stamp before reading so that changes made during the load trigger another one
+      const stamp = await source.getVersionStamp(version);
+      const nodes = await source.loadNodes(version);
+      const now = Date.now();
+      const entry: CatalogCacheEntry = {
+        source,
+        stamp,
+        nodes,
+        byName: new Map(nodes.map(node => [node.name, node])),
+        searchIndexes: new Map(),
+        loadedAt: now,
+        checkedAt: now,
+      };
 
-      return nodes;
+      // Don't cache a catalog that was replaced while it loaded
+      if (generation === getCatalogGeneration()) {
+        this.catalogCache.set(version, entry);
+      }
+      return entry;
     } catch (error) {
       console.warn(`Failed to load nodes for version ${version}:`, error);
-      return [];
+      return null;
     }
   }
 
   /**
-   * Search for nodes with various filters
+   * Find the first source that has a version
+   */
+  private async findSource(version: string): Promise<NodeCatalogSource | undefined> {
+    for (const source of this.sources) {
+      if ((await source.listVersions()).includes(version)) {
+        return source;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Search for nodes, ranked by relevance to the search term. Without a
+   * search term every node is listed in catalog order with a score of 0.
    */
   async searchNodes(params: {
     search_term?: string;
@@ -123,7 +211,7 @@ export class NodeDiscoveryService {
     tags?: boolean;
     token_logic?: 'or' | 'and';
   }): Promise<{
-    nodes: N8nNodeDefinition[];
+    results: NodeSearchResult[];
     total: number;
     hasMore: boolean;
     nextCursor?: string;
@@ -154,30 +242,17 @@ export class NodeDiscoveryService {
     }
 
     // Load nodes for the target version
-    const allNodes = await this.loadNodesForVersion(targetVersion);
-
-    // Apply search filters
-    let filteredNodes = allNodes;
+    const entry = await this.getCatalogEntry(targetVersion);
+    const allNodes = entry?.nodes || [];
 
-    if (search_term) {
-      const searchTokens = search_term.toLowerCase().split(/\s+/);
-      
-      filteredNodes = allNodes.filter(node => {
-        const searchableText = [
-          node.name,
-          node.displayName,
-          node.description,
-          ...(node.codex?.categories || []),
-          ...(node.group || []),
-          ...(tags ? Object.keys(node.codex?.subcategories || {}) : [])
-        ].join(' ').toLowerCase();
-
-        if (token_logic === 'and') {
-          return searchTokens.every(token => searchableText.includes(token));
-        } else {
-          return searchTokens.some(token => searchableText.includes(token));
-        }
-      });
+    let filteredNodes: NodeSearchResult[] = allNodes.map(node => ({ node, score: 0, matches: [] }));
+    if (entry && search_term.trim()) {
+      let index = entry.searchIndexes.get(tags);
+      if (!index) {
+        index = buildNodeSearchIndex(entry.nodes, tags);
+        entry.searchIndexes.set(tags, index);
+      }
+      filteredNodes = searchNodeIndex(index, search_term, { matchAll: token_logic === 'and' });
     }
 
     // Apply pagination
@@ -188,7 +263,7 @@ export class NodeDiscoveryService {
     const nextCursor = hasMore ? endIndex.toString() : undefined;
 
     return {
-      nodes: paginatedNodes,
+      results: paginatedNodes,
       total: filteredNodes.length,
       hasMore,
       nextCursor,
@@ -242,7 +317,29 @@ export class NodeDiscoveryService {
     const availableVersions = await this.getAvailableVersions();
     const targetVersion = version || availableVersions[0];
     
-    const nodes = await this.loadNodesForVersion(targetVersion);
-    return nodes.find(node => node.name === nodeType) || null;
+    const entry = await this.getCatalogEntry(targetVersion);
+    return entry?.byName.get(nodeType) || null;
+  }
+
+  /**
+   * Check whether a node type exposes an input or output of a connection type.
+   * Returns 'unknown' when the definition is missing or its connections are
+   * computed at runtime from an expression.
+   */
+  async getConnectionTypeSupport(
+    nodeType: string,
+    direction: 'inputs' | 'outputs',
+    connectionType: string,
+    version?: string
+  ): Promise<'supported' | 'unsupported' | 'unknown'> {
+    const definition = await this.getNodeDefinition(nodeType, version);
+    const connections = definition?.[direction] as unknown;
+    if (!Array.isArray(connections)) {
+      return 'unknown';
+    }
+
+    // Entries are either connection type names or objects like { type: 'ai_tool' }
+    const types = connections.map(entry => typeof entry === 'string' ? entry : entry?.type);
+    return types.includes(connectionType) ? 'supported' : 'unsupported';
   }
 }
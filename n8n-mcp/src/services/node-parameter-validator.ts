@@ -0,0 +1,314 @@
+/**
+ * Node Parameter Validator
+ * Validates node parameters against the node's definition file: required
+ * properties, value types, option values and unknown parameters, taking
+ * displayOptions visibility into account.
+ */
+
+import { N8nNodeDefinition, N8nNodeProperty, N8nNodePropertyCollection, N8nWorkflow } from '../types.js';
+import { NodeDiscoveryService } from './node-discovery-service.js';
+import { getNodeProperties } from './node-catalog.js';
+import { PropertyDependencies } from './property-dependencies.js';
+
+export interface ParameterIssue {
+  type: 'error' | 'warning';
+  message: string;
+  nodeId?: string;
+  nodeName?: string;
+  field?: string;
+}
+
+export interface NodeParameterValidationResult {
+  isValid: boolean;
+  nodeType: string;
+  definitionFound: boolean;
+  errors: ParameterIssue[];
+  warnings: ParameterIssue[];
+}
+
+// Property types that only render UI hints and never hold a value
+const DISPLAY_ONLY_TYPES = new Set(['notice', 'button', 'callout']);
+
+export class NodeParameterValidator {
+  private nodeDiscoveryService: NodeDiscoveryService;
+
+  constructor(nodeDiscoveryService: NodeDiscoveryService = new NodeDiscoveryService()) {
+    this.nodeDiscoveryService = nodeDiscoveryService;
+  }
+
+  /**
+   * Validate the parameters of a single node
+   */
+  async validateNodeParameters(
+    nodeType: string,
+    parameters: Record<string, any>,
+    typeVersion?: number,
+    n8nVersion?: string
+  ): Promise<NodeParameterValidationResult> {
+    const definition = await this.nodeDiscoveryService.getNodeDefinition(nodeType, n8nVersion);
+    if (!definition) {
+      return {
+        isValid: true,
+        nodeType,
+        definitionFound: false,
+        errors: [],
+        warnings: [{
+          type: 'warning',
+          message: `No definition found for node type '${nodeType}', parameters were not checked`,
+        }],
+      };
+    }
+
+    const issues = this.validateAgainstDefinition(definition, parameters || {}, typeVersion ?? definition.version);
+    const errors = issues.filter(issue => issue.type === 'error');
+
+    return {
+      isValid: errors.length === 0,
+      nodeType,
+      definitionFound: true,
+      errors,
+      warnings: issues.filter(issue => issue.type === 'warning'),
+    };
+  }
+
+  /**
+   * Validate the parameters of every node in a workflow
+   */
+  async validateWorkflowParameters(workflow: N8nWorkflow, n8nVersion?: string): Promise<{
+    isValid: boolean;
+    errors: ParameterIssue[];
+    warnings: ParameterIssue[];
+  }> {
+    const errors: ParameterIssue[] = [];
+    const warnings: ParameterIssue[] = [];
+
+    for (const node of workflow.nodes) {
+      const result = await this.validateNodeParameters(node.type, node.parameters, node.typeVersion, n8nVersion);
+      const tag = (issue: ParameterIssue) => ({ ...issue, nodeId: node.id, nodeName: node.name });
+      errors.push(...result.errors.map(tag));
+      warnings.push(...result.warnings.map(tag));
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Check parameter values against the properties of a node definition
+   */
+  validateAgainstDefinition(
+    definition: N8nNodeDefinition,
+    parameters: Record<string, any>,
+    typeVersion: number
+  ): ParameterIssue[] {
+    const issues: ParameterIssue[] = [];
+    const properties = getNodeProperties(definition, typeVersion).filter(prop => !DISPLAY_ONLY_TYPES.has(prop.type));
+
+    // Visibility depends on the effective values, so fill in defaults for unset parameters
+    const effectiveValues: Record<string, any> = { '@version': typeVersion };
+    for (const prop of properties) {
+      if (prop.default !== undefined && !(prop.name in effectiveValues)) {
+        effectiveValues[prop.name] = prop.default;
+      }
+    }
+    Object.assign(effectiveValues, parameters);
+
+    // Several properties may share a name with different displayOptions (e.g. 'operation' per resource)
+    const propertiesByName = new Map<string, N8nNodeProperty[]>();
+    for (const prop of properties) {
+      propertiesByName.set(prop.name, [...(propertiesByName.get(prop.name) || []), prop]);
+    }
+
+    for (const [name, variants] of propertiesByName) {
+      const visible = variants.filter(prop => PropertyDependencies.isPropertyVisible(prop, effectiveValues));
+      const value = parameters[name];
+      const isSet = value !== undefined;
+
+      if (visible.length === 0) {
+        if (isSet) {
+          issues.push({
+            type: 'warning',
+            message: `Parameter '${name}' is not shown for the current settings and will be ignored`,
+            field: `parameters.${name}`,
+          });
+        }
+        continue;
+      }
+
+      if (!isSet || value === '' || value === null) {
+        if (visible.some(prop => prop.required) && !visible.some(prop => this.hasUsableDefault(prop))) {
+          issues.push({
+            type: 'error',
+            message: `Required parameter '${name}' (${visible[0].displayName}) is missing`,
+            field: `parameters.${name}`,
+          });
+        }
+        continue;
+      }
+
+      // The value is valid if any visible variant accepts it; report the first variant's problems otherwise
+      const variantIssues = visible.map(prop => this.validateValue(prop, value, `parameters.${name}`));
+      if (!variantIssues.some(list => list.length === 0)) {
+        issues.push(...variantIssues[0]);
+      }
+    }
+
+    for (const name of Object.keys(parameters)) {
+      if (!propertiesByName.has(name)) {
+        issues.push({
+          type: 'warning',
+          message: `Unknown parameter '${name}' for node type '${definition.name}'`,
+          field: `parameters.${name}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check a value against a property's type and allowed options
+   */
+  private validateValue(prop: N8nNodeProperty, value: any, field: string): ParameterIssue[] {
+    // Expressions are evaluated at runtime and cannot be type-checked here
+    if (this.isExpression(value)) {
+      return [];
+    }
+
+    const typeError = (expected: string): ParameterIssue[] => [{
+      type: 'error',
+      message: `Parameter '${prop.name}' must be ${expected}, got ${Array.isArray(value) ? 'array' : typeof value}`,
+      field,
+    }];
+
+    switch (prop.type) {
+      case 'string':
+      case 'color':
+      case 'dateTime':
+      case 'hidden':
+        return typeof value === 'string' ? [] : typeError('a string');
+
+      case 'number':
+        return typeof value === 'number' && !isNaN(value) ? [] : typeError('a number');
+
+      case 'boolean':
+        return typeof value === 'boolean' ? [] : typeError('a boolean');
+
+      case 'json':
+        return typeof value === 'string' || typeof value === 'object' ? [] : typeError('JSON');
+
+      case 'options':
+        return this.validateOptionValue(prop, value, field);
+
+      case 'multiOptions':
+        if (!Array.isArray(value)) {
+          return typeError('an array');
+        }
+        return value.flatMap(item => this.validateOptionValue(prop, item, field));
+
+      case 'collection':
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          return typeError('an object');
+        }
+        return this.validateCollection(prop, value, field);
+
+      case 'fixedCollection':
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          return typeError('an object');
+        }
+        return this.validateFixedCollection(prop, value, field);
+
+      case 'resourceLocator':
+        return typeof value === 'string' || (typeof value === 'object' && value !== null && '__rl' in value)
+          ? []
+          : typeError('a resource locator');
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Check that a value is one of a property's options
+   */
+  private validateOptionValue(prop: N8nNodeProperty, value: any, field: string): ParameterIssue[] {
+    // Options loaded at runtime from the service cannot be checked offline
+    if (prop.typeOptions?.loadOptionsMethod || prop.typeOptions?.loadOptions || !prop.options) {
+      return [];
+    }
+
+    const allowed = prop.options.flatMap(option => 'value' in option ? [option.value] : []);
+    if (this.isExpression(value) || allowed.includes(value)) {
+      return [];
+    }
+
+    return [{
+      type: 'error',
+      message: `Invalid value ${JSON.stringify(value)} for '${prop.name}'. Allowed values: ${allowed.map(v => JSON.stringify(v)).join(', ')}`,
+      field,
+    }];
+  }
+
+  /**
+   * Check the entries of a collection against its option properties
+   */
+  private validateCollection(prop: N8nNodeProperty, value: Record<string, any>, field: string): ParameterIssue[] {
+    const options = (prop.options || []).filter((option): option is N8nNodeProperty => 'type' in option);
+    const issues: ParameterIssue[] = [];
+
+    for (const [key, entry] of Object.entries(value)) {
+      const option = options.find(candidate => candidate.name === key);
+      if (!option) {
+        issues.push({
+          type: 'warning',
+          message: `Unknown option '${key}' in '${prop.name}'`,
+          field: `${field}.${key}`,
+        });
+        continue;
+      }
+      issues.push(...this.validateValue(option, entry, `${field}.${key}`));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check the groups of a fixed collection against their value properties
+   */
+  private validateFixedCollection(prop: N8nNodeProperty, value: Record<string, any>, field: string): ParameterIssue[] {
+    const groups = (prop.options || []).filter((option): option is N8nNodePropertyCollection => 'values' in option);
+    const issues: ParameterIssue[] = [];
+
+    for (const [groupName, groupValue] of Object.entries(value)) {
+      const group = groups.find(candidate => candidate.name === groupName);
+      if (!group) {
+        issues.push({
+          type: 'warning',
+          message: `Unknown group '${groupName}' in '${prop.name}'`,
+          field: `${field}.${groupName}`,
+        });
+        continue;
+      }
+
+      const entries = Array.isArray(groupValue) ? groupValue : [groupValue];
+      entries.forEach((entry, index) => {
+        if (!entry || typeof entry !== 'object') return;
+        const entryField = Array.isArray(groupValue) ? `${field}.${groupName}[${index}]` : `${field}.${groupName}`;
+        issues.push(...this.validateCollection(
+          { ...prop, name: groupName, options: group.values },
+          entry,
+          entryField
+        ));
+      });
+    }
+
+    return issues;
+  }
+
+  private hasUsableDefault(prop: N8nNodeProperty): boolean {
+    return prop.default !== undefined && prop.default !== '' && prop.default !== null;
+  }
+
+  private isExpression(value: any): boolean {
+    return typeof value === 'string' && value.startsWith('=');
+  }
+}
@@ -133,14 +133,14 @@ export class PropertyDependencies {
             property,
             values: value,
             condition: 'includes',
-            description: `Property '${property}' must include one of: ${value.join(', ')}`
+            description: `Property '${property}' must include one of: ${value.map(item => this.describeValue(item)).join(', ')}`
           });
         } else {
           result.push({
             property,
             values: [value],
             condition: 'equals',
-            description: `Property '${property}' must equal: ${value}`
+            description: `Property '${property}' must equal: ${this.describeValue(value)}`
           });
         }
       }
@@ -149,6 +149,16 @@ export class PropertyDependencies {
     return result;
   }
 
+  /**
+   * Describe an expected value, spelling out n8n {_cnd: {...}} conditions
+   */
+  private static describeValue(value: any): string {
+    if (value && typeof value === 'object' && value._cnd) {
+      return Object.entries(value._cnd).map(([operator, operand]) => `${operator} ${JSON.stringify(operand)}`).join(', ');
+    }
+    return String(value);
+  }
+
   /**
    * Convert conditions to object format
    */
@@ -376,26 +386,96 @@ export class PropertyDependencies {
   }
 
   /**
-   * Check if conditions are met
+   * Check whether a property is displayed for the given parameter values.
+   * All show conditions must match; any matching hide condition hides it.
+   */
+  static isPropertyVisible(prop: any, values: Record<string, any>): boolean {
+    const show = prop.displayOptions?.show;
+    const hide = prop.displayOptions?.hide;
+
+    if (show && !this.checkConditions(show, values)) {
+      return false;
+    }
+
+    if (hide && Object.entries(hide).some(([property, value]) => this.checkConditions({ [property]: value }, values))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check if conditions are met: every property must match one of its expected values
    */
   private static checkConditions(conditions: Record<string, any>, values: Record<string, any>): boolean {
     for (const [property, expectedValue] of Object.entries(conditions)) {
       const actualValue = values[property];
-      
-      if (Array.isArray(expectedValue)) {
-        if (!expectedValue.includes(actualValue)) {
-          return false;
-        }
-      } else {
-        if (actualValue !== expectedValue) {
-          return false;
-        }
+      const expected = Array.isArray(expectedValue) ? expectedValue : [expectedValue];
+
+      if (actualValue === undefined || !expected.some(condition => this.matchesCondition(condition, actualValue))) {
+        return false;
       }
     }
     
     return true;
   }
 
+  /**
+   * Match a value against a plain expected value or an n8n {_cnd: {operator: operand}} condition.
+   * Array values must match as a whole for _cnd, like n8n does.
+   */
+  private static matchesCondition(condition: any, actualValue: any): boolean {
+    if (!condition || typeof condition !== 'object' || !condition._cnd || Object.keys(condition).length !== 1) {
+      return Array.isArray(actualValue)
+        ? actualValue.some(value => this.isEqual(value, condition))
+        : this.isEqual(actualValue, condition);
+    }
+
+    const [operator, operand] = Object.entries(condition._cnd as Record<string, any>)[0] || [];
+    const actualValues = Array.isArray(actualValue) ? actualValue : [actualValue];
+
+    return actualValues.every(value => {
+      switch (operator) {
+        case 'eq':
+          return this.isEqual(value, operand);
+        case 'not':
+          return !this.isEqual(value, operand);
+        case 'gte':
+          return value >= operand;
+        case 'lte':
+          return value <= operand;
+        case 'gt':
+          return value > operand;
+        case 'lt':
+          return value < operand;
+        case 'between':
+          return value >= operand?.from && value <= operand?.to;
+        case 'startsWith':
+          return typeof value === 'string' && value.startsWith(operand);
+        case 'endsWith':
+          return typeof value === 'string' && value.endsWith(operand);
+        case 'includes':
+          return (typeof value === 'string' || Array.isArray(value)) && value.includes(operand);
+        case 'regex':
+          try {
+            return typeof value === 'string' && new RegExp(operand).test(value);
+          } catch {
+            return false;
+          }
+        case 'exists':
+          return value !== null && value !== undefined && value !== '';
+        default:
+          return false;
+      }
+    });
+  }
+
+  private static isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
   /**
    * Get dependency chain for a property
    */
@@ -0,0 +1,208 @@
+/**
+ * SQLite Workflow Storage
+ * Keeps the workflows, revisions and documents of every workspace in one
+ * SQLite file, using the node:sqlite module (Node.js 22.5 or newer). The
+ * module is loaded on first use so other backends run on older Node.js.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { randomUUID } from 'crypto';
+import { N8nWorkflow } from '../types.js';
+import { acquireWithRetry, KeyedMutex, STALE_LOCK_MS } from '../lib/locking.js';
+import { StoredRevision, WorkflowStorage } from './workflow-storage.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workflows (
+    workspace TEXT NOT NULL,
+    name TEXT NOT NULL,
+    content TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (workspace, name)
+  );
+  CREATE TABLE IF NOT EXISTS workflow_revisions (
+    workspace TEXT NOT NULL,
+    name TEXT NOT NULL,
+    revision_id TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (workspace, name, revision_id)
+  );
+  CREATE TABLE IF NOT EXISTS documents (
+    workspace TEXT NOT NULL,
+    key TEXT NOT NULL,
+    content TEXT NOT NULL,
+    PRIMARY KEY (workspace, key)
+  );
+  CREATE TABLE IF NOT EXISTS workflow_locks (
+    workspace TEXT NOT NULL,
+    name TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    acquired_at INTEGER NOT NULL,
+    PRIMARY KEY (workspace, name)
+  );
+`;
+
+// Serialises lock holders within this process, so only other processes have to be polled
+const workflowMutex = new KeyedMutex();
+
+// One connection per database file, shared by all workspaces in it
+const databases = new Map<string, Promise<DatabaseSync>>();
+
+async function openDatabase(filePath: string): Promise<DatabaseSync> {
+  let database = databases.get(filePath);
+  if (!database) {
+    database = (async () => {
+      let sqlite: typeof import('node:sqlite');
+      try {
+        sqlite = await import('node:sqlite');
+      } catch {
+        throw new Error(`SQLite workflow storage requires Node.js 22.5 or newer (running ${process.version})`);
+      }
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const db = new sqlite.DatabaseSync(filePath);
+      db.exec('PRAGMA journal_mode = WAL;');
+      db.exec('PRAGMA busy_timeout = 5000;');
+      db.exec(SCHEMA);
+      return db;
+    })();
+    databases.set(filePath, database);
+    database.catch(() => databases.delete(filePath));
+  }
+  return database;
+}
+
+export class SqliteWorkflowStorage implements WorkflowStorage {
+  readonly location: string;
+  private filePath: string;
+  private workspace: string;
+
+  constructor(filePath: string, workspace: string = '') {
+    this.filePath = filePath;
+    this.workspace = workspace;
+    this.location = `sqlite:${filePath}#${workspace}`;
+  }
+
+  private db(): Promise<DatabaseSync> {
+    return openDatabase(this.filePath);
+  }
+
+  async readWorkflow(name: string): Promise<N8nWorkflow | null> {
+    const row = (await this.db())
+      .prepare('SELECT content FROM workflows WHERE workspace = ? AND name = ?')
+      .get(this.workspace, name) as { content: string } | undefined;
+    return row ? JSON.parse(row.content) as N8nWorkflow : null;
+  }
+
+  async writeWorkflow(name: string, workflow: N8nWorkflow): Promise<void> {
+    (await this.db())
+      .prepare(`INSERT INTO workflows (workspace, name, content, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (workspace, name) DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at`)
+      .run(this.workspace, name, JSON.stringify(workflow), new Date().toISOString());
+  }
+
+  async deleteWorkflow(name: string): Promise<boolean> {
+    const result = (await this.db())
+      .prepare('DELETE FROM workflows WHERE workspace = ? AND name = ?')
+      .run(this.workspace, name);
+    return Number(result.changes) > 0;
+  }
+
+  async workflowExists(name: string): Promise<boolean> {
+    return (await this.db())
+      .prepare('SELECT 1 FROM workflows WHERE workspace = ? AND name = ?')
+      .get(this.workspace, name) !== undefined;
+  }
+
+  async listWorkflows(): Promise<string[]> {
+    const rows = (await this.db())
+      .prepare('SELECT name FROM workflows WHERE workspace = ? ORDER BY name')
+      .all(this.workspace) as Array<{ name: string }>;
+    return rows.map(row => row.name);
+  }
+
+  async renameWorkflow(name: string, newName: string, workflow: N8nWorkflow): Promise<void> {
+    const db = await this.db();
+    db.exec('BEGIN');
+    try {
+      const result = db
+        .prepare('UPDATE workflows SET name = ?, content = ?, updated_at = ? WHERE workspace = ? AND name = ?')
+        .run(newName, JSON.stringify(workflow), new Date().toISOString(), this.workspace, name);
+      if (Number(result.changes) === 0) {
+        throw new Error(`Workflow '${name}' not found`);
+      }
+      db.prepare('UPDATE OR REPLACE workflow_revisions SET name = ? WHERE workspace = ? AND name = ?')
+        .run(newName, this.workspace, name);
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async listRevisionIds(name: string): Promise<string[]> {
+    const rows = (await this.db())
+      .prepare('SELECT revision_id FROM workflow_revisions WHERE workspace = ? AND name = ? ORDER BY revision_id')
+      .all(this.workspace, name) as Array<{ revision_id: string }>;
+    return rows.map(row => row.revision_id);
+  }
+
+  async readRevision(name: string, revisionId: string): Promise<StoredRevision | null> {
+    const row = (await this.db())
+      .prepare('SELECT content, created_at FROM workflow_revisions WHERE workspace = ? AND name = ? AND revision_id = ?')
+      .get(this.workspace, name, revisionId) as { content: string; created_at: string } | undefined;
+    return row ? { workflow: JSON.parse(row.content) as N8nWorkflow, createdAt: row.created_at } : null;
+  }
+
+  async writeRevision(name: string, revisionId: string, workflow: N8nWorkflow): Promise<void> {
+    (await this.db())
+      .prepare('INSERT OR REPLACE INTO workflow_revisions (workspace, name, revision_id, content, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(this.workspace, name, revisionId, JSON.stringify(workflow), new Date().toISOString());
+  }
+
+  async deleteRevision(name: string, revisionId: string): Promise<void> {
+    (await this.db())
+      .prepare('DELETE FROM workflow_revisions WHERE workspace = ? AND name = ? AND revision_id = ?')
+      .run(this.workspace, name, revisionId);
+  }
+
+  async readDocument<T>(key: string): Promise<T | null> {
+    const row = (await this.db())
+      .prepare('SELECT content FROM documents WHERE workspace = ? AND key = ?')
+      .get(this.workspace, key) as { content: string } | undefined;
+    return row ? JSON.parse(row.content) as T : null;
+  }
+
+  async writeDocument(key: string, value: unknown): Promise<void> {
+    (await this.db())
+      .prepare(`INSERT INTO documents (workspace, key, content) VALUES (?, ?, ?)
+        ON CONFLICT (workspace, key) DO UPDATE SET content = excluded.content`)
+      .run(this.workspace, key, JSON.stringify(value));
+  }
+
+  async withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+    const db = await this.db();
+    const owner = randomUUID();
+
+    return workflowMutex.runExclusive(`${this.location}\0${name}`, async () => {
+      await acquireWithRetry(async () => {
+        // Take over locks left by a process that stopped without releasing them
+        db.prepare('DELETE FROM workflow_locks WHERE workspace = ? AND name = ? AND acquired_at < ?')
+          .run(this.workspace, name, Date.now() - STALE_LOCK_MS);
+        const result = db
+          .prepare('INSERT OR IGNORE INTO workflow_locks (workspace, name, owner, acquired_at) VALUES (?, ?, ?, ?)')
+          .run(this.workspace, name, owner, Date.now());
+        return Number(result.changes) > 0;
+      }, `workflow '${name}'`);
+
+      try {
+        return await callback();
+      } finally {
+        db.prepare('DELETE FROM workflow_locks WHERE workspace = ? AND name = ? AND owner = ?')
+          .run(this.workspace, name, owner);
+      }
+    });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Sync Manifest
+ * Records which remote workflow each local workflow is linked to. The manifest
+ * is a single document per workspace, so changes are made under a lock and
+ * only touch the entry of their own workflow.
+ */
+
+import { WorkflowStorage } from './workflow-storage.js';
+
+export interface SyncManifestEntry {
+  remoteId: string;
+  remoteVersionId?: string;
+  remoteUpdatedAt?: string;
+  /** versionId of the local workflow when it was synced; every local save assigns a new one */
+  localVersionId?: string;
+  localUpdatedAt?: string;
+  syncedAt: string;
+}
+
+export interface SyncManifest {
+  workflows: Record<string, SyncManifestEntry>;
+}
+
+// Stored with the workflows, as .sync-manifest.json on the filesystem
+const MANIFEST_KEY = 'sync-manifest';
+
+// Workflow names cannot contain control characters, so no workflow lock has this name
+const MANIFEST_LOCK = `\u0001${MANIFEST_KEY}`;
+
+/**
+ * Read the sync manifest, returning an empty one if it does not exist yet
+ */
+export async function readSyncManifest(storage: WorkflowStorage): Promise<SyncManifest> {
+  try {
+    const manifest = await storage.readDocument<SyncManifest>(MANIFEST_KEY);
+    return { workflows: manifest?.workflows || {} };
+  } catch {
+    return { workflows: {} };
+  }
+}
+
+/**
+ * Replace the manifest entry of one workflow, or remove it when update returns undefined
+ */
+export async function updateSyncManifestEntry(
+  storage: WorkflowStorage,
+  workflowName: string,
+  update: (entry: SyncManifestEntry | undefined) => SyncManifestEntry | undefined
+): Promise<void> {
+  await storage.withLock(MANIFEST_LOCK, async () => {
+    const manifest = await readSyncManifest(storage);
+    const entry = update(manifest.workflows[workflowName]);
+    if (entry) {
+      manifest.workflows[workflowName] = entry;
+    } else {
+      delete manifest.workflows[workflowName];
+    }
+    await storage.writeDocument(MANIFEST_KEY, manifest);
+  });
+}
+
+/**
+ * Keep the remote link of a renamed workflow so the next push updates it instead of creating a copy
+ */
+export async function renameSyncManifestEntry(storage: WorkflowStorage, workflowName: string, newName: string): Promise<boolean> {
+  return storage.withLock(MANIFEST_LOCK, async () => {
+    const manifest = await readSyncManifest(storage);
+    const entry = manifest.workflows[workflowName];
+    if (!entry) {
+      return false;
+    }
+
+    delete manifest.workflows[workflowName];
+    manifest.workflows[newName] = entry;
+    await storage.writeDocument(MANIFEST_KEY, manifest);
+    return true;
+  });
+}
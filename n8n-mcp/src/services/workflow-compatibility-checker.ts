@@ -0,0 +1,257 @@
+/**
+ * Workflow Compatibility Checker
+ * Checks a workflow against the node catalog of a target n8n version: node
+ * types that do not exist there, type versions it does not support, and
+ * parameters or option values that were removed or renamed since the
+ * version the workflow was built with.
+ */
+
+import { N8nNodeDefinition, N8nNodeProperty, N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import { NodeDiscoveryService } from './node-discovery-service.js';
+import { getNodeProperties } from './node-catalog.js';
+import { ParameterIssue } from './node-parameter-validator.js';
+
+export interface WorkflowCompatibilityReport {
+  targetVersion: string;
+  /** Catalog version used for the target; the closest one at or below it */
+  targetCatalog: string;
+  sourceVersion?: string;
+  sourceCatalog?: string;
+  compatible: boolean;
+  errors: ParameterIssue[];
+  warnings: ParameterIssue[];
+}
+
+// Property types that only render UI hints and never hold a value
+const DISPLAY_ONLY_TYPES = new Set(['notice', 'button', 'callout']);
+
+export class WorkflowCompatibilityChecker {
+  private nodeDiscoveryService: NodeDiscoveryService;
+
+  constructor(nodeDiscoveryService: NodeDiscoveryService = new NodeDiscoveryService()) {
+    this.nodeDiscoveryService = nodeDiscoveryService;
+  }
+
+  /**
+   * Check a workflow against a target n8n version. With a source version,
+   * parameters missing from the target are reported as removed or renamed
+   * between the two versions.
+   */
+  async checkWorkflow(workflow: N8nWorkflow, targetVersion: string, sourceVersion?: string): Promise<WorkflowCompatibilityReport> {
+    const targetCatalog = await this.resolveCatalog(targetVersion);
+    const sourceCatalog = sourceVersion ? await this.resolveCatalog(sourceVersion) : undefined;
+
+    const errors: ParameterIssue[] = [];
+    const warnings: ParameterIssue[] = [];
+
+    if (targetCatalog !== targetVersion) {
+      warnings.push({
+        type: 'warning',
+        message: `No node catalog for n8n ${targetVersion}, using the closest older catalog ${targetCatalog}. Import ${targetVersion} with refresh_node_catalog for exact results`,
+      });
+    }
+    if (sourceVersion && sourceCatalog === targetCatalog) {
+      warnings.push({
+        type: 'warning',
+        message: `n8n ${sourceVersion} and ${targetVersion} resolve to the same catalog ${targetCatalog}, so removed and renamed parameters cannot be detected`,
+      });
+    }
+
+    for (const node of workflow.nodes) {
+      const tag = (issue: ParameterIssue): ParameterIssue => ({ ...issue, nodeId: node.id, nodeName: node.name });
+      const target = await this.nodeDiscoveryService.getNodeDefinition(node.type, targetCatalog);
+      const source = sourceCatalog && sourceCatalog !== targetCatalog
+        ? await this.nodeDiscoveryService.getNodeDefinition(node.type, sourceCatalog)
+        : null;
+
+      if (!target) {
+        errors.push(tag({
+          type: 'error',
+          message: `Node type '${node.type}' does not exist in n8n ${targetVersion}${source ? ` (it exists in ${sourceVersion})` : ''}`,
+          field: 'type',
+        }));
+        continue;
+      }
+
+      const typeVersionIssue = this.checkTypeVersion(node, target, targetVersion);
+      if (typeVersionIssue) {
+        (typeVersionIssue.type === 'error' ? errors : warnings).push(tag(typeVersionIssue));
+      }
+
+      for (const issue of this.checkParameters(node, target, source, targetVersion, sourceVersion)) {
+        (issue.type === 'error' ? errors : warnings).push(tag(issue));
+      }
+    }
+
+    return {
+      targetVersion,
+      targetCatalog,
+      sourceVersion,
+      sourceCatalog,
+      compatible: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
+  /**
+   * Pick the catalog for an n8n version: the exact one or the closest older one
+   */
+  private async resolveCatalog(version: string): Promise<string> {
+    const available = await this.nodeDiscoveryService.getAvailableVersions();
+    const match = this.nodeDiscoveryService.findBestMatchingVersion(version, available);
+    if (!match) {
+      throw new Error(`No node catalog at or below n8n ${version} (available: ${available.join(', ') || 'none'}). Import one with refresh_node_catalog`);
+    }
+    return match;
+  }
+
+  private checkTypeVersion(
+    node: N8nWorkflowNode,
+    definition: N8nNodeDefinition,
+    targetVersion: string
+  ): ParameterIssue | null {
+    const supported = definition.versions?.length ? definition.versions : [definition.version];
+    const typeVersion = node.typeVersion ?? 1;
+    const newest = Math.max(...supported);
+
+    if (typeVersion > newest) {
+      return {
+        type: 'error',
+        message: `typeVersion ${typeVersion} of '${node.type}' is newer than n8n ${targetVersion} supports (up to ${newest})`,
+        field: 'typeVersion',
+      };
+    }
+    if (definition.versions?.length && !supported.includes(typeVersion)) {
+      return {
+        type: 'warning',
+        message: `typeVersion ${typeVersion} is not a known version of '${node.type}' in n8n ${targetVersion} (supported: ${supported.join(', ')})`,
+        field: 'typeVersion',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Report parameters and option values the target definition no longer has
+   */
+  private checkParameters(
+    node: N8nWorkflowNode,
+    target: N8nNodeDefinition,
+    source: N8nNodeDefinition | null,
+    targetVersion: string,
+    sourceVersion?: string
+  ): ParameterIssue[] {
+    const issues: ParameterIssue[] = [];
+    const targetProperties = this.groupProperties(target, node.typeVersion ?? 1);
+    const sourceProperties = source ? this.groupProperties(source, node.typeVersion ?? 1) : null;
+
+    for (const [name, value] of Object.entries(node.parameters || {})) {
+      const field = `parameters.${name}`;
+      const targetVariants = targetProperties.get(name);
+
+      if (!targetVariants) {
+        const sourceVariants = sourceProperties?.get(name);
+        if (!sourceVariants) {
+          issues.push({
+            type: 'warning',
+            message: `Parameter '${name}' is not defined for '${node.type}' in n8n ${targetVersion}`,
+            field,
+          });
+          continue;
+        }
+
+        const renamedTo = this.findRenamedProperty(sourceVariants[0], targetProperties, sourceProperties!);
+        issues.push({
+          type: 'error',
+          message: renamedTo
+            ? `Parameter '${name}' was renamed to '${renamedTo}' between n8n ${sourceVersion} and ${targetVersion}`
+            : `Parameter '${name}' was removed between n8n ${sourceVersion} and ${targetVersion}`,
+          field,
+        });
+        continue;
+      }
+
+      const removedValues = this.findRemovedOptionValues(value, targetVariants);
+      for (const removed of removedValues) {
+        const sourceAllowed = sourceProperties?.get(name)?.some(prop => this.optionValues(prop)?.includes(removed));
+        issues.push({
+          type: 'error',
+          message: sourceAllowed
+            ? `Value ${JSON.stringify(removed)} of '${name}' was removed between n8n ${sourceVersion} and ${targetVersion}`
+            : `Value ${JSON.stringify(removed)} of '${name}' is not available in n8n ${targetVersion}`,
+          field,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Properties of the node's type version, grouped by name
+   */
+  private groupProperties(definition: N8nNodeDefinition, typeVersion?: number): Map<string, N8nNodeProperty[]> {
+    const byName = new Map<string, N8nNodeProperty[]>();
+    for (const prop of getNodeProperties(definition, typeVersion)) {
+      if (DISPLAY_ONLY_TYPES.has(prop.type)) continue;
+      byName.set(prop.name, [...(byName.get(prop.name) || []), prop]);
+    }
+    return byName;
+  }
+
+  /**
+   * Find the target property a removed source property most likely became:
+   * a property new in the target with the same label, or else the same type
+   * and a name that contains or is contained in the old one
+   */
+  private findRenamedProperty(
+    removed: N8nNodeProperty,
+    targetProperties: Map<string, N8nNodeProperty[]>,
+    sourceProperties: Map<string, N8nNodeProperty[]>
+  ): string | null {
+    const added = [...targetProperties]
+      .filter(([name]) => !sourceProperties.has(name))
+      .map(([, variants]) => variants[0]);
+
+    const label = removed.displayName?.toLowerCase();
+    const sameLabel = added.find(prop => label && prop.displayName?.toLowerCase() === label);
+    if (sameLabel) {
+      return sameLabel.name;
+    }
+
+    const oldName = removed.name.toLowerCase();
+    const similar = added.filter(prop => {
+      const newName = prop.name.toLowerCase();
+      return prop.type === removed.type && (newName.includes(oldName) || oldName.includes(newName));
+    });
+    return similar.length === 1 ? similar[0].name : null;
+  }
+
+  /**
+   * Option values set on a node that none of the property's variants offer
+   */
+  private findRemovedOptionValues(value: any, variants: N8nNodeProperty[]): any[] {
+    const allowedLists = variants.map(prop => this.optionValues(prop));
+    // Options loaded at runtime, or free-form variants, accept anything
+    if (allowedLists.some(list => list === null)) {
+      return [];
+    }
+
+    const values = variants.some(prop => prop.type === 'multiOptions') && Array.isArray(value) ? value : [value];
+    return values.filter(item =>
+      !(typeof item === 'string' && item.startsWith('=')) &&
+      !allowedLists.some(list => list!.includes(item))
+    );
+  }
+
+  private optionValues(prop: N8nNodeProperty): any[] | null {
+    if ((prop.type !== 'options' && prop.type !== 'multiOptions') || !prop.options) {
+      return null;
+    }
+    if (prop.typeOptions?.loadOptionsMethod || prop.typeOptions?.loadOptions) {
+      return null;
+    }
+    return prop.options.flatMap(option => 'value' in option ? [option.value] : []);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Workflow History Service
+ * Keeps snapshots of workflows in the workspace storage so that edits can be
+ * inspected and rolled back. A revision is the state of the workflow before
+ * a change was written over it.
+ */
+
+import { N8nWorkflow } from '../types.js';
+import { WorkflowStorage } from './workflow-storage.js';
+
+export interface WorkflowRevision {
+  revisionId: string;
+  workflowName: string;
+  createdAt: string;
+  nodeCount: number;
+}
+
+// Oldest revisions beyond this count are pruned
+const DEFAULT_MAX_REVISIONS = 50;
+
+export class WorkflowHistoryService {
+  private storage: WorkflowStorage;
+  private maxRevisions: number;
+
+  constructor(storage: WorkflowStorage, maxRevisions: number = DEFAULT_MAX_REVISIONS) {
+    this.storage = storage;
+    this.maxRevisions = maxRevisions;
+  }
+
+  /**
+   * Build a sortable, filesystem-safe revision ID from the current time
+   */
+  private async createRevisionId(workflowName: string): Promise<string> {
+    const base = new Date().toISOString().replace(/[:.]/g, '-');
+    const existing = new Set(await this.storage.listRevisionIds(workflowName));
+    let revisionId = base;
+    let counter = 1;
+    while (existing.has(revisionId)) {
+      revisionId = `${base}_${counter++}`;
+    }
+    return revisionId;
+  }
+
+  /**
+   * Record a snapshot of a workflow
+   */
+  async recordRevision(workflowName: string, workflow: N8nWorkflow): Promise<string> {
+    const revisionId = await this.createRevisionId(workflowName);
+    await this.storage.writeRevision(workflowName, revisionId, workflow);
+    await this.prune(workflowName);
+
+    return revisionId;
+  }
+
+  /**
+   * List revisions of a workflow, newest first
+   */
+  async listRevisions(workflowName: string): Promise<WorkflowRevision[]> {
+    const revisions: WorkflowRevision[] = [];
+
+    for (const revisionId of (await this.storage.listRevisionIds(workflowName)).reverse()) {
+      // Unreadable snapshots are skipped
+      const revision = await this.storage.readRevision(workflowName, revisionId);
+      if (revision) {
+        revisions.push({
+          revisionId,
+          workflowName,
+          createdAt: revision.createdAt,
+          nodeCount: revision.workflow.nodes?.length || 0,
+        });
+      }
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Load the workflow stored in a revision
+   */
+  async loadRevision(workflowName: string, revisionId: string): Promise<N8nWorkflow | null> {
+    if (!(await this.storage.listRevisionIds(workflowName)).includes(revisionId)) {
+      return null;
+    }
+    return (await this.storage.readRevision(workflowName, revisionId))?.workflow || null;
+  }
+
+  /**
+   * Get the most recent revision of a workflow
+   */
+  async getLatestRevisionId(workflowName: string): Promise<string | null> {
+    const revisionIds = await this.storage.listRevisionIds(workflowName);
+    return revisionIds.length > 0 ? revisionIds[revisionIds.length - 1] : null;
+  }
+
+  /**
+   * Delete a revision
+   */
+  async deleteRevision(workflowName: string, revisionId: string): Promise<void> {
+    await this.storage.deleteRevision(workflowName, revisionId);
+  }
+
+  private async prune(workflowName: string): Promise<void> {
+    const revisionIds = await this.storage.listRevisionIds(workflowName);
+    const excess = revisionIds.slice(0, Math.max(0, revisionIds.length - this.maxRevisions));
+    await Promise.all(excess.map(revisionId => this.deleteRevision(workflowName, revisionId)));
+  }
+}
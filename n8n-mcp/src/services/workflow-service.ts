@@ -1,31 +1,174 @@
-import fs from 'fs/promises';
 import path from 'path';
 import { N8nWorkflow } from '../types.js';
-import { createEmptyWorkflow, validateWorkflow } from '../lib/workflow-utils.js';
+import {
+  createEmptyWorkflow,
+  validateWorkflow,
+  migrateLegacyConnections,
+  countConnections,
+  generateN8nId,
+  summarizeWorkflow,
+  normalizeTags,
+  WorkflowSummary,
+} from '../lib/workflow-utils.js';
+import { getStorageConfig } from '../config/storage.js';
+import { WorkflowHistoryService } from './workflow-history-service.js';
+import { FileSystemWorkflowStorage, InMemoryWorkflowStorage, WorkflowStorage } from './workflow-storage.js';
+import { SqliteWorkflowStorage } from './sqlite-workflow-storage.js';
+import { renameSyncManifestEntry } from './sync-manifest.js';
+
+// In-memory workspaces live as long as the process, shared by every service that opens them
+const memoryWorkspaces = new Map<string, InMemoryWorkflowStorage>();
+
+// One service per storage location, so all tools see the same workspace state
+const workflowServices = new Map<string, WorkflowService>();
+
+/**
+ * Create the configured storage backend for a workspace. Filesystem
+ * workspaces are directories; the default one is WORKFLOWS_DIR.
+ */
+export function createWorkflowStorage(workspace?: string): WorkflowStorage {
+  const config = getStorageConfig();
+
+  switch (config.backend) {
+    case 'memory': {
+      const key = workspace || '';
+      let storage = memoryWorkspaces.get(key);
+      if (!storage) {
+        storage = new InMemoryWorkflowStorage(key);
+        memoryWorkspaces.set(key, storage);
+      }
+      return storage;
+    }
+
+    case 'sqlite':
+      return new SqliteWorkflowStorage(config.sqlitePath, workspace || '');
+
+    default: {
+      if (!workspace) {
+        return new FileSystemWorkflowStorage(config.workflowsDir);
+      }
+      const dir = path.resolve(config.workspaceRoot || '.', workspace);
+      const relative = config.workspaceRoot ? path.relative(config.workspaceRoot, dir) : '';
+      if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        throw new Error(`Workspace '${workspace}' is outside the workspace root ${config.workspaceRoot}`);
+      }
+      return new FileSystemWorkflowStorage(dir);
+    }
+  }
+}
+
+/**
+ * Get the workflow service of a workspace, or of the default workspace
+ */
+export function getWorkflowService(workspace?: string): WorkflowService {
+  const storage = createWorkflowStorage(workspace);
+  let service = workflowServices.get(storage.location);
+  if (!service) {
+    service = new WorkflowService(storage);
+    workflowServices.set(storage.location, service);
+  }
+  return service;
+}
+
+/**
+ * Pick the workspace from tool arguments: workspace_dir, or the directory of workflow_path
+ */
+export function resolveWorkspace(args: { workspace_dir?: string; workflow_path?: string }): string | undefined {
+  if (args.workspace_dir) {
+    return args.workspace_dir;
+  }
+  return args.workflow_path ? path.dirname(args.workflow_path) : undefined;
+}
+
+// n8n limits workflow names to 128 characters
+const MAX_WORKFLOW_NAME_LENGTH = 128;
+
+/**
+ * Reject workflow names that are empty, too long or contain control characters
+ */
+export function assertValidWorkflowName(name: string): void {
+  if (!name.trim()) {
+    throw new Error('Workflow name must not be empty');
+  }
+  if (name.length > MAX_WORKFLOW_NAME_LENGTH) {
+    throw new Error(`Workflow name must be at most ${MAX_WORKFLOW_NAME_LENGTH} characters`);
+  }
+  if (/[\u0000-\u001f\u007f]/.test(name)) {
+    throw new Error('Workflow name must not contain control characters');
+  }
+}
+
+export type WorkflowSortField = 'name' | 'updatedAt' | 'createdAt';
+
+export interface WorkflowListOptions {
+  limit?: number;
+  /** Cursor returned as nextCursor by the previous page */
+  cursor?: string;
+  /** Case-insensitive substring of the name */
+  search?: string;
+  /** Workflows must have all of these tags */
+  tags?: string[];
+  active?: boolean;
+  /** Full node type or its short name, e.g. 'n8n-nodes-base.slack' or 'slack' */
+  nodeType?: string;
+  sortBy?: WorkflowSortField;
+  order?: 'asc' | 'desc';
+}
+
+export interface WorkflowListPage {
+  workflows: WorkflowSummary[];
+  /** Number of matching workflows before this page */
+  offset: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+// Cursors point at the last item of a page, so pages stay stable when workflows are added or removed
+interface WorkflowListCursor {
+  sortBy: WorkflowSortField;
+  order: 'asc' | 'desc';
+  key: string;
+  name: string;
+}
+
+// Workflows read at the same time when building summaries
+const SUMMARY_CONCURRENCY = 16;
+
+/**
+ * Error raised when a workflow changed in storage after the copy being saved was loaded
+ */
+export class WorkflowConflictError extends Error {
+  constructor(public workflowName: string, public expectedVersionId: string | undefined, public actualVersionId: string) {
+    super(`Workflow '${workflowName}' was changed by someone else since it was loaded (expected version ${expectedVersionId || 'none'}, found ${actualVersionId}). Load it again and reapply the change.`);
+    this.name = 'WorkflowConflictError';
+  }
+}
 
 export class WorkflowService {
-  private workflowsDir: string;
+  private storage: WorkflowStorage;
+  private history: WorkflowHistoryService;
 
-  constructor(workflowsDir: string = './workflows') {
-    this.workflowsDir = workflowsDir;
+  /**
+   * A directory path is accepted for filesystem storage
+   */
+  constructor(storage: WorkflowStorage | string = createWorkflowStorage()) {
+    this.storage = typeof storage === 'string' ? new FileSystemWorkflowStorage(storage) : storage;
+    this.history = new WorkflowHistoryService(this.storage);
   }
 
   /**
-   * Ensure the workflows directory exists
+   * Get the revision history store
    */
-  private async ensureWorkflowsDir(): Promise<void> {
-    try {
-      await fs.access(this.workflowsDir);
-    } catch {
-      await fs.mkdir(this.workflowsDir, { recursive: true });
-    }
+  getHistory(): WorkflowHistoryService {
+    return this.history;
   }
 
   /**
-   * Get the file path for a workflow
+   * Get the storage backend of this workspace
    */
-  private getWorkflowPath(workflowName: string): string {
-    return path.join(this.workflowsDir, `${workflowName}.json`);
+  getStorage(): WorkflowStorage {
+    return this.storage;
   }
 
   /**
@@ -35,46 +178,144 @@ export class WorkflowService {
     name: string,
     description?: string,
     active: boolean = false,
-    settings: Record<string, any> = {}
+    settings: Record<string, any> = {},
+    tags: string[] = []
   ): Promise<N8nWorkflow> {
-    await this.ensureWorkflowsDir();
-
+    assertValidWorkflowName(name);
     const workflow = createEmptyWorkflow(name, description);
     workflow.active = active;
     workflow.settings = settings;
+    workflow.tags = normalizeTags(tags);
 
-    const workflowPath = this.getWorkflowPath(name);
-    await fs.writeFile(workflowPath, JSON.stringify(workflow, null, 2));
+    await this.storage.withLock(name, async () => {
+      if (await this.storage.workflowExists(name)) {
+        throw new Error(`Workflow '${name}' already exists`);
+      }
+      await this.storage.writeWorkflow(name, workflow);
+    });
 
     return workflow;
   }
 
   /**
-   * Load a workflow from file
+   * Load a workflow from storage, upgrading legacy connections to n8n's format
    */
   async loadWorkflow(workflowName: string): Promise<N8nWorkflow | null> {
-    try {
-      const workflowPath = this.getWorkflowPath(workflowName);
-      const content = await fs.readFile(workflowPath, 'utf-8');
-      return JSON.parse(content) as N8nWorkflow;
-    } catch (error) {
-      return null;
+    const workflow = await this.storage.readWorkflow(workflowName);
+    return workflow ? migrateLegacyConnections(workflow) : null;
+  }
+
+  /**
+   * Rewrite stored workflows that still use legacy ID-keyed connections
+   */
+  async migrateWorkflowFiles(): Promise<string[]> {
+    const migrated: string[] = [];
+
+    for (const workflowName of await this.listWorkflows()) {
+      const stored = await this.storage.readWorkflow(workflowName);
+      if (!stored) continue;
+
+      const workflow = migrateLegacyConnections(stored);
+      if (workflow !== stored) {
+        await this.saveWorkflow(workflow);
+        migrated.push(workflowName);
+      }
     }
+
+    return migrated;
   }
 
   /**
-   * Save a workflow to file
+   * Save a workflow to storage, recording the overwritten version as a revision.
+   * The save is rejected with a WorkflowConflictError when the stored workflow
+   * has another versionId than the one being saved, i.e. it changed since it was
+   * loaded. Every save assigns a new versionId, which is also set on the passed
+   * workflow.
    */
-  async saveWorkflow(workflow: N8nWorkflow): Promise<void> {
-    await this.ensureWorkflowsDir();
+  async saveWorkflow(workflow: N8nWorkflow, options: { recordRevision?: boolean } = {}): Promise<void> {
+    await this.storage.withLock(workflow.name, () => this.saveLocked(workflow, options));
+  }
 
+  /**
+   * Save a workflow while already holding its lock
+   */
+  private async saveLocked(workflow: N8nWorkflow, options: { recordRevision?: boolean } = {}): Promise<void> {
     const validation = validateWorkflow(workflow);
     if (!validation.valid) {
       throw new Error(`Invalid workflow: ${validation.errors.join(', ')}`);
     }
 
-    const workflowPath = this.getWorkflowPath(workflow.name);
-    await fs.writeFile(workflowPath, JSON.stringify(workflow, null, 2));
+    const previous = await this.storage.readWorkflow(workflow.name);
+    if (previous?.versionId && previous.versionId !== workflow.versionId) {
+      throw new WorkflowConflictError(workflow.name, workflow.versionId, previous.versionId);
+    }
+
+    const next = { ...workflow, versionId: previous?.versionId ?? workflow.versionId, updatedAt: previous?.updatedAt ?? workflow.updatedAt };
+    if (previous && JSON.stringify(previous) === JSON.stringify(next)) {
+      // Nothing changed, so the stored version stays current
+      workflow.versionId = next.versionId;
+      workflow.updatedAt = next.updatedAt;
+      return;
+    }
+
+    if (previous && options.recordRevision !== false) {
+      await this.history.recordRevision(workflow.name, previous);
+    }
+
+    // Every stored change counts as an update, whether or not the caller stamped it
+    next.versionId = generateN8nId();
+    next.updatedAt = new Date().toISOString();
+    await this.storage.writeWorkflow(workflow.name, next);
+    workflow.versionId = next.versionId;
+    workflow.updatedAt = next.updatedAt;
+  }
+
+  /**
+   * Turn a revision into the next version of a workflow. Call with the workflow's
+   * lock held: it takes the versionId of the stored workflow, so saving it
+   * replaces exactly the version the revision was chosen against.
+   */
+  private async prepareRevision(workflowName: string, revision: N8nWorkflow): Promise<N8nWorkflow> {
+    const current = await this.storage.readWorkflow(workflowName);
+    return migrateLegacyConnections({ ...revision, name: workflowName, versionId: current?.versionId ?? revision.versionId });
+  }
+
+  /**
+   * Restore a workflow to a recorded revision. The current version is kept as a new revision.
+   */
+  async restoreRevision(workflowName: string, revisionId: string): Promise<N8nWorkflow | null> {
+    return this.storage.withLock(workflowName, async () => {
+      const revision = await this.history.loadRevision(workflowName, revisionId);
+      if (!revision) {
+        return null;
+      }
+
+      const workflow = await this.prepareRevision(workflowName, revision);
+      await this.saveLocked(workflow);
+      return workflow;
+    });
+  }
+
+  /**
+   * Revert the most recent change by restoring the latest revision and removing it from the history
+   */
+  async undoLastChange(workflowName: string): Promise<{ revisionId: string; workflow: N8nWorkflow } | null> {
+    return this.storage.withLock(workflowName, async () => {
+      const revisionId = await this.history.getLatestRevisionId(workflowName);
+      if (!revisionId) {
+        return null;
+      }
+
+      const revision = await this.history.loadRevision(workflowName, revisionId);
+      if (!revision) {
+        return null;
+      }
+
+      const workflow = await this.prepareRevision(workflowName, revision);
+      await this.saveLocked(workflow, { recordRevision: false });
+      await this.history.deleteRevision(workflowName, revisionId);
+      return { revisionId, workflow };
+    });
   }
 
   /**
@@ -82,40 +323,148 @@ export class WorkflowService {
    */
   async listWorkflows(): Promise<string[]> {
     try {
-      await this.ensureWorkflowsDir();
-      const files = await fs.readdir(this.workflowsDir);
-      return files
-        .filter(file => file.endsWith('.json'))
-        .map(file => path.basename(file, '.json'));
+      return await this.storage.listWorkflows();
     } catch {
       return [];
     }
   }
 
+  /**
+   * List workflow summaries matching the filters, sorted and paginated by cursor
+   */
+  async listWorkflowSummaries(options: WorkflowListOptions = {}): Promise<WorkflowListPage> {
+    const { limit = 50, sortBy = 'updatedAt', order = sortBy === 'name' ? 'asc' : 'desc' } = options;
+    const cursor = options.cursor ? this.decodeCursor(options.cursor, sortBy, order) : null;
+
+    const search = options.search?.trim().toLowerCase();
+    const tags = (options.tags || []).map(tag => tag.toLowerCase());
+    const nodeType = options.nodeType?.trim().toLowerCase();
+
+    const matching = (await this.loadSummaries()).filter(summary =>
+      (!search || summary.name.toLowerCase().includes(search)) &&
+      (options.active === undefined || summary.active === options.active) &&
+      tags.every(tag => summary.tags.some(own => own.toLowerCase() === tag)) &&
+      (!nodeType || summary.nodeTypes.some(type =>
+        type.toLowerCase() === nodeType || (type.split('.').pop() || '').toLowerCase() === nodeType
+      ))
+    );
+
+    const sortKey = (summary: WorkflowSummary) => (sortBy === 'name' ? summary.name : summary[sortBy]) || '';
+    const direction = order === 'asc' ? 1 : -1;
+    const compare = (keyA: string, nameA: string, keyB: string, nameB: string) =>
+      direction * (keyA.localeCompare(keyB) || nameA.localeCompare(nameB));
+    matching.sort((a, b) => compare(sortKey(a), a.name, sortKey(b), b.name));
+
+    const remaining = cursor
+      ? matching.filter(summary => compare(sortKey(summary), summary.name, cursor.key, cursor.name) > 0)
+      : matching;
+    const workflows = remaining.slice(0, limit);
+    const hasMore = remaining.length > limit;
+    const last = workflows[workflows.length - 1];
+
+    return {
+      workflows,
+      offset: matching.length - remaining.length,
+      total: matching.length,
+      hasMore,
+      nextCursor: hasMore && last
+        ? Buffer.from(JSON.stringify({ sortBy, order, key: sortKey(last), name: last.name } as WorkflowListCursor)).toString('base64url')
+        : undefined,
+    };
+  }
+
+  /**
+   * Read every workflow of the workspace and summarise it; unreadable workflows are skipped
+   */
+  private async loadSummaries(): Promise<WorkflowSummary[]> {
+    const names = await this.listWorkflows();
+    const summaries: WorkflowSummary[] = [];
+
+    for (let start = 0; start < names.length; start += SUMMARY_CONCURRENCY) {
+      const batch = await Promise.all(names.slice(start, start + SUMMARY_CONCURRENCY).map(async name => {
+        try {
+          const workflow = await this.storage.readWorkflow(name);
+          return workflow ? { ...summarizeWorkflow(workflow), name } : null;
+        } catch {
+          return null;
+        }
+      }));
+      summaries.push(...batch.filter((summary): summary is WorkflowSummary => summary !== null));
+    }
+
+    return summaries;
+  }
+
+  private decodeCursor(cursor: string, sortBy: WorkflowSortField, order: 'asc' | 'desc'): WorkflowListCursor {
+    let decoded: WorkflowListCursor;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+    if (typeof decoded?.key !== 'string' || typeof decoded.name !== 'string') {
+      throw new Error('Invalid cursor');
+    }
+    if (decoded.sortBy !== sortBy || decoded.order !== order) {
+      throw new Error(`Cursor belongs to a listing sorted by ${decoded.sortBy} ${decoded.order}; use the same sort to continue`);
+    }
+    return decoded;
+  }
+
   /**
    * Delete a workflow
    */
   async deleteWorkflow(workflowName: string): Promise<boolean> {
     try {
-      const workflowPath = this.getWorkflowPath(workflowName);
-      await fs.unlink(workflowPath);
-      return true;
+      return await this.storage.withLock(workflowName, async () => {
+        // Keep the deleted workflow in the history so it can be restored
+        const workflow = await this.storage.readWorkflow(workflowName);
+        if (workflow) {
+          await this.history.recordRevision(workflowName, workflow);
+        }
+
+        return this.storage.deleteWorkflow(workflowName);
+      });
     } catch {
       return false;
     }
   }
 
+  /**
+   * Rename a workflow, moving its revisions and its link to the n8n instance along.
+   * Returns null when it does not exist.
+   */
+  async renameWorkflow(workflowName: string, newName: string): Promise<{ workflow: N8nWorkflow; remoteLinkKept: boolean } | null> {
+    assertValidWorkflowName(newName);
+    if (newName === workflowName) {
+      throw new Error(`Workflow is already named '${newName}'`);
+    }
+
+    // Both names are locked, always in the same order so two renames cannot deadlock
+    const [first, second] = [workflowName, newName].sort();
+    return this.storage.withLock(first, () => this.storage.withLock(second, async () => {
+      if (await this.storage.workflowExists(newName)) {
+        throw new Error(`Workflow '${newName}' already exists`);
+      }
+
+      const workflow = await this.loadWorkflow(workflowName);
+      if (!workflow) {
+        return null;
+      }
+
+      const renamed = { ...workflow, name: newName, versionId: generateN8nId(), updatedAt: new Date().toISOString() };
+      await this.storage.renameWorkflow(workflowName, newName, renamed);
+      // Moved while both names are locked, so a push of the new name always finds the link
+      const remoteLinkKept = await renameSyncManifestEntry(this.storage, workflowName, newName);
+      return { workflow: renamed, remoteLinkKept };
+    }));
+  }
+
   /**
    * Check if a workflow exists
    */
   async workflowExists(workflowName: string): Promise<boolean> {
-    try {
-      const workflowPath = this.getWorkflowPath(workflowName);
-      await fs.access(workflowPath);
-      return true;
-    } catch {
-      return false;
-    }
+    return this.storage.workflowExists(workflowName);
   }
 
   /**
@@ -135,11 +484,7 @@ export class WorkflowService {
     const stats = {
       nodeCount: workflow.nodes.length,
       nodeTypes: [...new Set(workflow.nodes.map(node => node.type))],
-      connectionCount: Object.values(workflow.connections).reduce(
-        (total, outputs) => total + Object.values(outputs).reduce(
-          (outputTotal, connections) => outputTotal + connections.length, 0
-        ), 0
-      ),
+      connectionCount: countConnections(workflow.connections),
       isActive: workflow.active,
       lastUpdated: workflow.updatedAt,
     };
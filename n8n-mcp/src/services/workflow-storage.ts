@@ -0,0 +1,581 @@
+/**
+ * Workflow Storage
+ * Backends that hold the workflows of one workspace together with their
+ * revision history and small JSON documents such as the sync manifest.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { N8nWorkflow } from '../types.js';
+import { acquireWithRetry, KeyedMutex, STALE_LOCK_MS } from '../lib/locking.js';
+
+export interface StoredRevision {
+  workflow: N8nWorkflow;
+  createdAt: string;
+}
+
+export interface WorkflowStorage {
+  /** Where the workspace lives, e.g. a directory or `sqlite:<file>#<workspace>` */
+  readonly location: string;
+  readWorkflow(name: string): Promise<N8nWorkflow | null>;
+  writeWorkflow(name: string, workflow: N8nWorkflow): Promise<void>;
+  /** Returns false when the workflow did not exist */
+  deleteWorkflow(name: string): Promise<boolean>;
+  workflowExists(name: string): Promise<boolean>;
+  listWorkflows(): Promise<string[]>;
+  /** Store a workflow under a new name and move its revisions there */
+  renameWorkflow(name: string, newName: string, workflow: N8nWorkflow): Promise<void>;
+  /** Revision IDs of a workflow, oldest first */
+  listRevisionIds(name: string): Promise<string[]>;
+  readRevision(name: string, revisionId: string): Promise<StoredRevision | null>;
+  writeRevision(name: string, revisionId: string, workflow: N8nWorkflow): Promise<void>;
+  deleteRevision(name: string, revisionId: string): Promise<void>;
+  readDocument<T>(key: string): Promise<T | null>;
+  writeDocument(key: string, value: unknown): Promise<void>;
+  /** Run a callback holding the lock of one workflow, shared with other processes using the workspace */
+  withLock<T>(name: string, callback: () => Promise<T>): Promise<T>;
+}
+
+// Serialises lock holders within this process, so only other processes have to be polled
+const workflowMutex = new KeyedMutex();
+
+// Name-to-file index of a filesystem workspace, stored as .workflow-index.json
+const INDEX_KEY = 'workflow-index';
+
+// Workflow names cannot contain control characters, so no workflow lock has this name
+const INDEX_LOCK = `\u0001${INDEX_KEY}`;
+
+// Device names Windows refuses as file names
+const RESERVED_FILE_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/;
+
+interface WorkflowIndexDocument {
+  /** Workflow name -> file name without .json. Entries outlive deleted files so history stays reachable. */
+  workflows: Record<string, string>;
+}
+
+/**
+ * Turn a workflow name into a lowercase file name: 'Sales / Leads (EU)' -> 'sales-leads-eu'
+ */
+export function slugifyWorkflowName(name: string): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^[-_]+|[-_]+$/g, '')
+    .slice(0, 80)
+    .replace(/[-_]+$/, '');
+  if (!slug) return 'workflow';
+  return RESERVED_FILE_NAMES.test(slug) ? `${slug}-workflow` : slug;
+}
+
+/**
+ * Write a file through a temporary file and a rename, so readers and crashes
+ * only ever see the old or the new content, never a truncated file
+ */
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`);
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Check that a name from the index or the directory is a plain file name
+ */
+function isSafeFileName(file: string): boolean {
+  return file.length > 0 && path.basename(file) === file && !file.startsWith('.') && !/[\\/\0]/.test(file);
+}
+
+/**
+ * Workflows as `<dir>/<slug>.json` with the workflow name kept inside the
+ * JSON and mapped to its file in `<dir>/.workflow-index.json`. Revisions are
+ * in `<dir>/.history/<slug>/<revision>.json` and documents in `<dir>/.<key>.json`.
+ * Files are replaced atomically and workflow locks are files in `<dir>/.locks`.
+ */
+export class FileSystemWorkflowStorage implements WorkflowStorage {
+  readonly location: string;
+  private index: Map<string, string> | null = null;
+  // Identifies the index file the cached index was read from
+  private indexStamp: string | null = null;
+
+  constructor(workflowsDir: string) {
+    this.location = path.resolve(workflowsDir);
+  }
+
+  /**
+   * Resolve a path below the workspace directory, refusing anything that escapes it
+   */
+  private resolveInside(...segments: string[]): string {
+    const resolved = path.resolve(this.location, ...segments);
+    const relative = path.relative(this.location, resolved);
+    if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`Path '${segments.join('/')}' is outside the workflows directory`);
+    }
+    return resolved;
+  }
+
+  private getFilePath(file: string): string {
+    return this.resolveInside(`${file}.json`);
+  }
+
+  private getHistoryDir(file: string): string {
+    return this.resolveInside('.history', file);
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    return fs.access(filePath).then(() => true, () => false);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.location))
+        .filter(file => file.endsWith('.json') && !file.startsWith('.'))
+        .map(file => path.basename(file, '.json'));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Load the name index, reading it again whenever another process replaced the
+   * index file, and building it from the workflow files on first use
+   */
+  private async loadIndex(): Promise<Map<string, string>> {
+    if (this.index && await this.readIndexStamp() === this.indexStamp) {
+      return this.index;
+    }
+
+    await this.readIndex();
+    await this.syncIndex();
+    return this.index!;
+  }
+
+  /**
+   * Read the index file into the cache
+   */
+  private async readIndex(): Promise<Map<string, string>> {
+    const stamp = await this.readIndexStamp();
+    const document = await this.readDocument<WorkflowIndexDocument>(INDEX_KEY);
+    const entries = Object.entries(document?.workflows || {}).filter(([, file]) => isSafeFileName(file));
+    this.index = new Map(entries);
+    this.indexStamp = stamp;
+    return this.index;
+  }
+
+  /**
+   * The index file is replaced atomically on every write, so a new inode or mtime means new content
+   */
+  private async readIndexStamp(): Promise<string | null> {
+    try {
+      const stat = await fs.stat(this.getDocumentPath(INDEX_KEY));
+      return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Change the index under its lock, starting from the file on disk so entries
+   * written by other processes in the meantime are kept
+   */
+  private async updateIndex<T>(change: (index: Map<string, string>) => Promise<T>): Promise<T> {
+    return this.withLock(INDEX_LOCK, async () => {
+      const index = await this.readIndex();
+      const before = JSON.stringify([...index]);
+      const result = await change(index);
+      if (JSON.stringify([...index]) !== before) {
+        await this.saveIndex();
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Write the cached index. Call with the index lock held.
+   */
+  private async saveIndex(): Promise<void> {
+    await this.writeDocument(INDEX_KEY, { workflows: Object.fromEntries(this.index || []) } as WorkflowIndexDocument);
+    this.indexStamp = await this.readIndexStamp();
+  }
+
+  /**
+   * Add workflow files that are not in the index yet, e.g. files from before
+   * the index existed or copied in by hand, under the name stored inside them
+   */
+  private async syncIndex(): Promise<void> {
+    const isUnindexed = (index: Map<string, string>, file: string) =>
+      isSafeFileName(file) && ![...index.values()].includes(file);
+    if (!(await this.listFiles()).some(file => isUnindexed(this.index!, file))) {
+      return;
+    }
+
+    await this.updateIndex(async index => {
+      for (const file of await this.listFiles()) {
+        if (!isUnindexed(index, file)) continue;
+
+        let name = file;
+        try {
+          const workflow = JSON.parse(await fs.readFile(this.getFilePath(file), 'utf-8')) as Partial<N8nWorkflow>;
+          if (typeof workflow.name === 'string' && workflow.name.trim()) {
+            name = workflow.name;
+          }
+        } catch {
+          // Unreadable files are indexed under their file name
+        }
+
+        // A name already taken by another file keeps that file
+        const existing = index.get(name);
+        if (existing && await this.fileExists(this.getFilePath(existing))) {
+          continue;
+        }
+        index.set(name, file);
+      }
+    });
+  }
+
+  /**
+   * Find the file of a workflow name, checking the directory again when the index does not know it
+   */
+  private async findFile(name: string): Promise<string | null> {
+    const index = await this.loadIndex();
+    if (!index.has(name)) {
+      await this.syncIndex();
+    }
+    return index.get(name) || null;
+  }
+
+  /**
+   * Get the file of a workflow name, assigning a free slug to new names.
+   * Slugs are compared case-insensitively so that names differing only in
+   * case never share a file on case-insensitive filesystems.
+   */
+  private async fileForWrite(name: string): Promise<string> {
+    const existing = await this.findFile(name);
+    if (existing) {
+      return existing;
+    }
+
+    // Allocate under the index lock so two new workflows never get the same slug
+    return this.updateIndex(async index => {
+      const assigned = index.get(name);
+      if (assigned) {
+        return assigned;
+      }
+
+      const file = await this.allocateFile(name);
+      index.set(name, file);
+      return file;
+    });
+  }
+
+  /**
+   * Pick a slug for a name that no indexed workflow or file uses yet. Call with the index lock held.
+   */
+  private async allocateFile(name: string): Promise<string> {
+    const used = new Set([...this.index!.values(), ...await this.listFiles()].map(file => file.toLowerCase()));
+    const base = slugifyWorkflowName(name);
+    let file = base;
+    for (let counter = 2; used.has(file.toLowerCase()); counter++) {
+      file = `${base}-${counter}`;
+    }
+    return file;
+  }
+
+  async readWorkflow(name: string): Promise<N8nWorkflow | null> {
+    const file = await this.findFile(name);
+    if (!file) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(this.getFilePath(file), 'utf-8')) as N8nWorkflow;
+    } catch {
+      return null;
+    }
+  }
+
+  async writeWorkflow(name: string, workflow: N8nWorkflow): Promise<void> {
+    await fs.mkdir(this.location, { recursive: true });
+    const file = await this.fileForWrite(name);
+    await writeFileAtomic(this.getFilePath(file), JSON.stringify(workflow, null, 2));
+  }
+
+  async deleteWorkflow(name: string): Promise<boolean> {
+    const file = await this.findFile(name);
+    if (!file) {
+      return false;
+    }
+    try {
+      await fs.unlink(this.getFilePath(file));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async workflowExists(name: string): Promise<boolean> {
+    const file = await this.findFile(name);
+    return file !== null && this.fileExists(this.getFilePath(file));
+  }
+
+  async listWorkflows(): Promise<string[]> {
+    const index = await this.loadIndex();
+    await this.syncIndex();
+
+    const files = new Set(await this.listFiles());
+    return [...index].filter(([, file]) => files.has(file)).map(([name]) => name);
+  }
+
+  async renameWorkflow(name: string, newName: string, workflow: N8nWorkflow): Promise<void> {
+    const oldFile = await this.findFile(name);
+    if (!oldFile) {
+      throw new Error(`Workflow '${name}' not found`);
+    }
+
+    await this.updateIndex(async index => {
+      // A rename that keeps the slug, e.g. one that only changes case, keeps the file
+      const keepsFile = slugifyWorkflowName(newName) === slugifyWorkflowName(name);
+      const newFile = keepsFile ? oldFile : await this.allocateFile(newName);
+      index.set(newName, newFile);
+      if (keepsFile) {
+        index.delete(name);
+      }
+      await this.saveIndex();
+
+      await writeFileAtomic(this.getFilePath(newFile), JSON.stringify(workflow, null, 2));
+      if (!keepsFile) {
+        await fs.rm(this.getFilePath(oldFile), { force: true });
+        await this.moveHistory(oldFile, newFile);
+        // Dropped only once the old file is gone, so syncIndex never indexes it again under the old name
+        index.delete(name);
+        await this.saveIndex();
+      }
+    });
+  }
+
+  /**
+   * Move the revisions of a workflow to its new history folder
+   */
+  private async moveHistory(oldFile: string, newFile: string): Promise<void> {
+    const oldDir = this.getHistoryDir(oldFile);
+    let revisions: string[];
+    try {
+      revisions = await fs.readdir(oldDir);
+    } catch {
+      return;
+    }
+
+    const newDir = this.getHistoryDir(newFile);
+    await fs.mkdir(newDir, { recursive: true });
+    for (const revision of revisions) {
+      await fs.rename(path.join(oldDir, revision), path.join(newDir, revision));
+    }
+    await fs.rm(oldDir, { recursive: true, force: true });
+  }
+
+  async listRevisionIds(name: string): Promise<string[]> {
+    const file = await this.findFile(name);
+    if (!file) {
+      return [];
+    }
+    try {
+      const files = await fs.readdir(this.getHistoryDir(file));
+      return files
+        .filter(revision => revision.endsWith('.json'))
+        .map(revision => path.basename(revision, '.json'))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private async getRevisionPath(name: string, revisionId: string): Promise<string | null> {
+    const file = await this.findFile(name);
+    return file && isSafeFileName(revisionId) ? path.join(this.getHistoryDir(file), `${revisionId}.json`) : null;
+  }
+
+  async readRevision(name: string, revisionId: string): Promise<StoredRevision | null> {
+    const filePath = await this.getRevisionPath(name, revisionId);
+    if (!filePath) {
+      return null;
+    }
+    try {
+      const [stat, content] = await Promise.all([fs.stat(filePath), fs.readFile(filePath, 'utf-8')]);
+      return { workflow: JSON.parse(content) as N8nWorkflow, createdAt: stat.mtime.toISOString() };
+    } catch {
+      return null;
+    }
+  }
+
+  async writeRevision(name: string, revisionId: string, workflow: N8nWorkflow): Promise<void> {
+    const file = await this.fileForWrite(name);
+    if (!isSafeFileName(revisionId)) {
+      throw new Error(`Invalid revision ID '${revisionId}'`);
+    }
+    await fs.mkdir(this.getHistoryDir(file), { recursive: true });
+    await writeFileAtomic(path.join(this.getHistoryDir(file), `${revisionId}.json`), JSON.stringify(workflow, null, 2));
+  }
+
+  async deleteRevision(name: string, revisionId: string): Promise<void> {
+    const filePath = await this.getRevisionPath(name, revisionId);
+    if (filePath) {
+      await fs.unlink(filePath);
+    }
+  }
+
+  private getDocumentPath(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid document key '${key}'`);
+    }
+    return path.join(this.location, `.${key}.json`);
+  }
+
+  async readDocument<T>(key: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getDocumentPath(key), 'utf-8')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async writeDocument(key: string, value: unknown): Promise<void> {
+    await fs.mkdir(this.location, { recursive: true });
+    await writeFileAtomic(this.getDocumentPath(key), JSON.stringify(value, null, 2));
+  }
+
+  async withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+    // Named by a hash so locks work for workflows that have no file yet
+    const lockPath = this.resolveInside('.locks', `${createHash('sha1').update(name).digest('hex')}.lock`);
+
+    return workflowMutex.runExclusive(lockPath, async () => {
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      await acquireWithRetry(() => this.tryLockFile(lockPath), `workflow '${name}'`);
+      try {
+        return await callback();
+      } finally {
+        await fs.rm(lockPath, { force: true });
+      }
+    });
+  }
+
+  /**
+   * Create a lock file, removing it first when its owner stopped without releasing it
+   */
+  private async tryLockFile(lockPath: string): Promise<boolean> {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() }), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    try {
+      const stat = await fs.stat(lockPath);
+      if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+      }
+    } catch {
+      // Released in the meantime
+    }
+    return false;
+  }
+}
+
+/**
+ * Workflows kept in process memory, for tests and throwaway sessions.
+ * Values are stored serialised so callers never share objects with the store.
+ */
+export class InMemoryWorkflowStorage implements WorkflowStorage {
+  readonly location: string;
+  private workflows = new Map<string, string>();
+  private revisions = new Map<string, Map<string, { content: string; createdAt: string }>>();
+  private documents = new Map<string, string>();
+
+  constructor(workspace: string = '') {
+    this.location = `memory:${workspace}`;
+  }
+
+  async readWorkflow(name: string): Promise<N8nWorkflow | null> {
+    const content = this.workflows.get(name);
+    return content ? JSON.parse(content) as N8nWorkflow : null;
+  }
+
+  async writeWorkflow(name: string, workflow: N8nWorkflow): Promise<void> {
+    this.workflows.set(name, JSON.stringify(workflow));
+  }
+
+  async deleteWorkflow(name: string): Promise<boolean> {
+    return this.workflows.delete(name);
+  }
+
+  async workflowExists(name: string): Promise<boolean> {
+    return this.workflows.has(name);
+  }
+
+  async listWorkflows(): Promise<string[]> {
+    return [...this.workflows.keys()];
+  }
+
+  async renameWorkflow(name: string, newName: string, workflow: N8nWorkflow): Promise<void> {
+    if (!this.workflows.delete(name)) {
+      throw new Error(`Workflow '${name}' not found`);
+    }
+    this.workflows.set(newName, JSON.stringify(workflow));
+
+    const revisions = this.revisions.get(name);
+    if (revisions) {
+      this.revisions.delete(name);
+      const target = this.revisions.get(newName) || new Map();
+      revisions.forEach((revision, revisionId) => target.set(revisionId, revision));
+      this.revisions.set(newName, target);
+    }
+  }
+
+  async listRevisionIds(name: string): Promise<string[]> {
+    return [...(this.revisions.get(name)?.keys() || [])].sort();
+  }
+
+  async readRevision(name: string, revisionId: string): Promise<StoredRevision | null> {
+    const revision = this.revisions.get(name)?.get(revisionId);
+    return revision ? { workflow: JSON.parse(revision.content) as N8nWorkflow, createdAt: revision.createdAt } : null;
+  }
+
+  async writeRevision(name: string, revisionId: string, workflow: N8nWorkflow): Promise<void> {
+    let revisions = this.revisions.get(name);
+    if (!revisions) {
+      revisions = new Map();
+      this.revisions.set(name, revisions);
+    }
+    revisions.set(revisionId, { content: JSON.stringify(workflow), createdAt: new Date().toISOString() });
+  }
+
+  async deleteRevision(name: string, revisionId: string): Promise<void> {
+    this.revisions.get(name)?.delete(revisionId);
+  }
+
+  async readDocument<T>(key: string): Promise<T | null> {
+    const content = this.documents.get(key);
+    return content ? JSON.parse(content) as T : null;
+  }
+
+  async writeDocument(key: string, value: unknown): Promise<void> {
+    this.documents.set(key, JSON.stringify(value));
+  }
+
+  async withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+    return workflowMutex.runExclusive(`${this.location}\0${name}`, callback);
+  }
+}
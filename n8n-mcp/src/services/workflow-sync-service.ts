@@ -0,0 +1,299 @@
+/**
+ * Workflow Sync Service
+ * Pushes local workflow files to a live n8n instance and pulls them back,
+ * tracking which remote workflow each local file maps to in a sidecar manifest.
+ */
+
+import axios from 'axios';
+import { N8nWorkflow, N8nConnections } from '../types.js';
+import { Workflow, WorkflowConnection, WorkflowNode } from '../types/n8n-api.js';
+import { WorkflowService } from './workflow-service.js';
+import { N8nApiClient } from './n8n-api-client.js';
+import { generateN8nId } from '../lib/workflow-utils.js';
+import { readSyncManifest, SyncManifest, SyncManifestEntry, updateSyncManifestEntry } from './sync-manifest.js';
+
+export type SyncState =
+  | 'untracked'
+  | 'in-sync'
+  | 'local-changes'
+  | 'remote-changes'
+  | 'diverged'
+  | 'remote-missing'
+  | 'local-missing';
+
+export interface SyncStatus {
+  workflowName: string;
+  state: SyncState;
+  remoteId?: string;
+  localUpdatedAt?: string;
+  remoteUpdatedAt?: string;
+  lastSyncedAt?: string;
+}
+
+export interface SyncResult {
+  success: boolean;
+  message: string;
+  remoteId?: string;
+  created?: boolean;
+}
+
+export class WorkflowSyncService {
+  private workflowService: WorkflowService;
+  private client: N8nApiClient;
+
+  constructor(workflowService: WorkflowService, client: N8nApiClient) {
+    this.workflowService = workflowService;
+    this.client = client;
+  }
+
+  /**
+   * Load the sync manifest, returning an empty one if it does not exist yet
+   */
+  async loadManifest(): Promise<SyncManifest> {
+    return readSyncManifest(this.workflowService.getStorage());
+  }
+
+  /**
+   * Record a successful sync in the manifest, leaving the entries of other workflows alone
+   */
+  private async saveManifestEntry(workflowName: string, entry: SyncManifestEntry): Promise<void> {
+    await updateSyncManifestEntry(this.workflowService.getStorage(), workflowName, () => entry);
+  }
+
+  /**
+   * Push a local workflow to the n8n instance
+   */
+  async push(workflowName: string, force: boolean = false): Promise<SyncResult> {
+    // Read under the workflow lock so a rename in progress has either moved the link or not started
+    const { workflow, entry } = await this.workflowService.getStorage().withLock(workflowName, async () => ({
+      workflow: await this.workflowService.loadWorkflow(workflowName),
+      entry: (await this.loadManifest()).workflows[workflowName],
+    }));
+    if (!workflow) {
+      return { success: false, message: `Workflow '${workflowName}' not found locally` };
+    }
+
+    const payload = this.toRemoteWorkflow(workflow);
+
+    let remote: Workflow;
+    let created = false;
+
+    if (!entry) {
+      remote = await this.client.createWorkflow(payload);
+      created = true;
+    } else {
+      const current = await this.fetchRemote(entry.remoteId);
+
+      if (!current) {
+        if (!force) {
+          return {
+            success: false,
+            remoteId: entry.remoteId,
+            message: `Remote workflow ${entry.remoteId} no longer exists. Use force to create it again.`,
+          };
+        }
+        remote = await this.client.createWorkflow(payload);
+        created = true;
+      } else {
+        if (this.hasRemoteChanges(entry, current) && !force) {
+          return {
+            success: false,
+            remoteId: entry.remoteId,
+            message: `Remote workflow ${entry.remoteId} was modified since the last sync (updated ${current.updatedAt}). Pull it first or use force to overwrite the remote edits.`,
+          };
+        }
+        remote = await this.client.updateWorkflow(entry.remoteId, payload);
+      }
+    }
+
+    await this.saveManifestEntry(workflowName, this.createEntry(remote, workflow));
+
+    return {
+      success: true,
+      remoteId: remote.id,
+      created,
+      message: `Workflow '${workflowName}' ${created ? 'created' : 'updated'} on the n8n instance (ID: ${remote.id})`,
+    };
+  }
+
+  /**
+   * Pull a workflow from the n8n instance into a local file
+   */
+  async pull(workflowName: string, remoteId?: string, force: boolean = false): Promise<SyncResult> {
+    const manifest = await this.loadManifest();
+    const entry = manifest.workflows[workflowName];
+    const targetId = remoteId || entry?.remoteId;
+
+    if (!targetId) {
+      return {
+        success: false,
+        message: `Workflow '${workflowName}' is not linked to a remote workflow. Provide a remote ID to pull.`,
+      };
+    }
+
+    const local = await this.workflowService.loadWorkflow(workflowName);
+    if (local && !force) {
+      if (!entry || entry.remoteId !== targetId) {
+        return {
+          success: false,
+          message: `Local workflow '${workflowName}' exists and is not linked to remote workflow ${targetId}. Use force to overwrite it.`,
+        };
+      }
+      if (this.hasLocalChanges(entry, local)) {
+        return {
+          success: false,
+          message: `Local workflow '${workflowName}' was modified since the last sync. Push it first or use force to discard the local edits.`,
+        };
+      }
+    }
+
+    const remote = await this.fetchRemote(targetId);
+    if (!remote) {
+      return { success: false, remoteId: targetId, message: `Remote workflow ${targetId} not found` };
+    }
+
+    const workflow = this.toLocalWorkflow(remote, workflowName, local);
+    await this.workflowService.saveWorkflow(workflow);
+
+    await this.saveManifestEntry(workflowName, this.createEntry(remote, workflow));
+
+    return {
+      success: true,
+      remoteId: targetId,
+      message: `Workflow '${workflowName}' pulled from the n8n instance (ID: ${targetId})`,
+    };
+  }
+
+  /**
+   * Get the sync status of one or all tracked and local workflows
+   */
+  async status(workflowName?: string): Promise<SyncStatus[]> {
+    const manifest = await this.loadManifest();
+    const names = workflowName
+      ? [workflowName]
+      : [...new Set([...(await this.workflowService.listWorkflows()), ...Object.keys(manifest.workflows)])].sort();
+
+    const statuses: SyncStatus[] = [];
+    for (const name of names) {
+      const entry = manifest.workflows[name];
+      const local = await this.workflowService.loadWorkflow(name);
+
+      if (!entry) {
+        statuses.push({ workflowName: name, state: 'untracked', localUpdatedAt: local?.updatedAt });
+        continue;
+      }
+
+      const remote = await this.fetchRemote(entry.remoteId);
+      const status: SyncStatus = {
+        workflowName: name,
+        state: 'in-sync',
+        remoteId: entry.remoteId,
+        localUpdatedAt: local?.updatedAt,
+        remoteUpdatedAt: remote?.updatedAt,
+        lastSyncedAt: entry.syncedAt,
+      };
+
+      if (!local) {
+        status.state = 'local-missing';
+      } else if (!remote) {
+        status.state = 'remote-missing';
+      } else {
+        const localChanged = this.hasLocalChanges(entry, local);
+        const remoteChanged = this.hasRemoteChanges(entry, remote);
+        if (localChanged && remoteChanged) {
+          status.state = 'diverged';
+        } else if (localChanged) {
+          status.state = 'local-changes';
+        } else if (remoteChanged) {
+          status.state = 'remote-changes';
+        }
+      }
+
+      statuses.push(status);
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Fetch a remote workflow, returning null if it does not exist
+   */
+  private async fetchRemote(remoteId: string): Promise<Workflow | null> {
+    try {
+      return await this.client.getWorkflow(remoteId);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether the remote workflow changed since the last sync
+   */
+  private hasRemoteChanges(entry: SyncManifestEntry, remote: Workflow): boolean {
+    if (entry.remoteVersionId && remote.versionId) {
+      return entry.remoteVersionId !== remote.versionId;
+    }
+    return entry.remoteUpdatedAt !== remote.updatedAt;
+  }
+
+  /**
+   * Check whether the local workflow changed since the last sync
+   */
+  private hasLocalChanges(entry: SyncManifestEntry, local: N8nWorkflow): boolean {
+    if (entry.localVersionId && local.versionId) {
+      return entry.localVersionId !== local.versionId;
+    }
+    return entry.localUpdatedAt !== local.updatedAt;
+  }
+
+  /**
+   * Build a manifest entry after a successful sync
+   */
+  private createEntry(remote: Workflow, local: N8nWorkflow): SyncManifestEntry {
+    return {
+      remoteId: remote.id!,
+      remoteVersionId: remote.versionId,
+      remoteUpdatedAt: remote.updatedAt,
+      localVersionId: local.versionId,
+      localUpdatedAt: local.updatedAt,
+      syncedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Convert a local workflow into the payload accepted by the n8n API
+   */
+  private toRemoteWorkflow(workflow: N8nWorkflow): Workflow {
+    return {
+      name: workflow.name,
+      nodes: workflow.nodes as unknown as WorkflowNode[],
+      connections: workflow.connections as WorkflowConnection,
+      settings: workflow.settings,
+    };
+  }
+
+  /**
+   * Convert a remote workflow into a local workflow file
+   */
+  private toLocalWorkflow(remote: Workflow, workflowName: string, existing: N8nWorkflow | null): N8nWorkflow {
+    const now = new Date().toISOString();
+    return {
+      ...(existing || {}),
+      id: existing?.id || remote.id || generateN8nId(),
+      name: workflowName,
+      nodes: remote.nodes.map(node => ({ ...node, id: node.id || generateN8nId() })) as unknown as N8nWorkflow['nodes'],
+      connections: (remote.connections || {}) as N8nConnections,
+      active: remote.active ?? false,
+      settings: remote.settings || {},
+      staticData: remote.staticData,
+      // The local versionId tracks local saves; the remote one is kept in the manifest
+      versionId: existing?.versionId,
+      tags: existing?.tags || [],
+      createdAt: existing?.createdAt || remote.createdAt || now,
+      updatedAt: now,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Workflow Tag Service
+ * Manages the tags of local workflows. Tags exist only on the workflows that
+ * carry them and are matched case-insensitively, like n8n does.
+ */
+
+import { N8nWorkflow } from '../types.js';
+import { getWorkflowTagNames, normalizeTags } from '../lib/workflow-utils.js';
+import { WorkflowConflictError, WorkflowService } from './workflow-service.js';
+
+export interface TagUsage {
+  name: string;
+  workflows: string[];
+}
+
+export interface WorkflowTagChanges {
+  /** Replaces all tags; applied before add and remove */
+  set?: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+// Attempts to reapply a tag change when another writer saved the workflow in between
+const MAX_CONFLICT_RETRIES = 3;
+
+export class WorkflowTagService {
+  private workflowService: WorkflowService;
+
+  constructor(workflowService: WorkflowService) {
+    this.workflowService = workflowService;
+  }
+
+  /**
+   * List the tags used in the workspace with the workflows carrying them, most used first
+   */
+  async listTags(): Promise<TagUsage[]> {
+    const { workflows } = await this.workflowService.listWorkflowSummaries({ limit: Infinity, sortBy: 'name' });
+    const usage = new Map<string, TagUsage>();
+
+    for (const summary of workflows) {
+      for (const tag of summary.tags) {
+        const entry = usage.get(tag.toLowerCase()) || { name: tag, workflows: [] };
+        entry.workflows.push(summary.name);
+        usage.set(tag.toLowerCase(), entry);
+      }
+    }
+
+    return [...usage.values()].sort((a, b) => b.workflows.length - a.workflows.length || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Change the tags of one workflow. Returns the new tags, or null when the workflow does not exist.
+   */
+  async updateWorkflowTags(workflowName: string, changes: WorkflowTagChanges): Promise<string[] | null> {
+    const add = normalizeTags(changes.add || []);
+    const remove = new Set(normalizeTags(changes.remove || []).map(tag => tag.toLowerCase()));
+    const set = changes.set ? normalizeTags(changes.set) : null;
+
+    const workflow = await this.updateTags(workflowName, tags =>
+      normalizeTags([...(set || tags), ...add]).filter(tag => !remove.has(tag.toLowerCase()))
+    );
+    return workflow ? workflow.tags || [] : null;
+  }
+
+  /**
+   * Rename a tag on every workflow carrying it. Returns the workflows that changed.
+   */
+  async renameTag(tag: string, newName: string): Promise<string[]> {
+    const [renamed] = normalizeTags([newName]);
+    if (!renamed) {
+      throw new Error('New tag name must not be empty');
+    }
+    return this.updateTagEverywhere(tag, tags =>
+      normalizeTags(tags.map(own => own.toLowerCase() === tag.trim().toLowerCase() ? renamed : own))
+    );
+  }
+
+  /**
+   * Remove a tag from every workflow carrying it. Returns the workflows that changed.
+   */
+  async deleteTag(tag: string): Promise<string[]> {
+    return this.updateTagEverywhere(tag, tags => tags.filter(own => own.toLowerCase() !== tag.trim().toLowerCase()));
+  }
+
+  private async updateTagEverywhere(tag: string, update: (tags: string[]) => string[]): Promise<string[]> {
+    const usage = (await this.listTags()).find(entry => entry.name.toLowerCase() === tag.trim().toLowerCase());
+    const changed: string[] = [];
+
+    for (const workflowName of usage?.workflows || []) {
+      if (await this.updateTags(workflowName, update)) {
+        changed.push(workflowName);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Load, update and save the tags of a workflow, starting over when the save conflicts with another writer
+   */
+  private async updateTags(workflowName: string, update: (tags: string[]) => string[]): Promise<N8nWorkflow | null> {
+    for (let attempt = 1; ; attempt++) {
+      const workflow = await this.workflowService.loadWorkflow(workflowName);
+      if (!workflow) {
+        return null;
+      }
+
+      const tags = update(getWorkflowTagNames(workflow));
+      if (JSON.stringify(tags) === JSON.stringify(workflow.tags || [])) {
+        return workflow;
+      }
+
+      try {
+        const updated = { ...workflow, tags, updatedAt: new Date().toISOString() };
+        await this.workflowService.saveWorkflow(updated);
+        return updated;
+      } catch (error) {
+        if (!(error instanceof WorkflowConflictError) || attempt >= MAX_CONFLICT_RETRIES) {
+          throw error;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Workflow Test Runner
+ * Triggers a workflow on an n8n instance, waits for the execution to finish
+ * and compares each node's output with the expected (pinned) data.
+ */
+
+import { N8nWorkflow, N8nWorkflowNode } from '../types.js';
+import { Execution } from '../types/n8n-api.js';
+import { N8nApiClient } from './n8n-api-client.js';
+
+// The subset of the n8n API the runner needs, so a mock instance can stand in for CI
+export type WorkflowTestClient = Pick<N8nApiClient, 'callWebhook' | 'listExecutions' | 'getExecution'>;
+
+export type OutputMatchMode = 'subset' | 'exact';
+
+export interface WorkflowTestOptions {
+  workflow: N8nWorkflow;
+  remoteWorkflowId: string;
+  input: unknown;
+  expectedOutputs?: Record<string, unknown[]>;
+  matchMode?: OutputMatchMode;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export interface NodeAssertionResult {
+  nodeName: string;
+  passed: boolean;
+  expectedItems: number;
+  actualItems: number;
+  mismatches: string[];
+}
+
+export interface WorkflowTestResult {
+  passed: boolean;
+  executionId?: string;
+  status?: string;
+  error?: string;
+  durationMs: number;
+  assertions: NodeAssertionResult[];
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+export class WorkflowTestRunner {
+  private client: WorkflowTestClient;
+
+  constructor(client: WorkflowTestClient) {
+    this.client = client;
+  }
+
+  /**
+   * Trigger the workflow, wait for completion and assert on node outputs
+   */
+  async run(options: WorkflowTestOptions): Promise<WorkflowTestResult> {
+    const {
+      workflow,
+      remoteWorkflowId,
+      input,
+      matchMode = 'subset',
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    } = options;
+    const expectedOutputs = options.expectedOutputs ?? this.getPinnedOutputs(workflow);
+    const startedAt = Date.now();
+
+    const webhookNode = this.findWebhookNode(workflow);
+    if (!webhookNode) {
+      return this.failure(startedAt, 'Workflow has no webhook trigger node to start the test with');
+    }
+
+    const webhookPath = String(webhookNode.parameters?.path || webhookNode.webhookId || '');
+    if (!webhookPath) {
+      return this.failure(startedAt, `Webhook node '${webhookNode.name}' has no path`);
+    }
+
+    // Taken before the trigger: the instance's clock may differ from ours, but its execution IDs only grow
+    const previous = await this.client.listExecutions({ workflowId: remoteWorkflowId, limit: 1 });
+    const previousExecutionId = previous.data[0]?.id ?? null;
+    const response = await this.client.callWebhook(webhookPath, getWebhookMethod(webhookNode), input);
+
+    const executionId = response?.executionId
+      ? String(response.executionId)
+      : await this.waitForExecutionId(remoteWorkflowId, previousExecutionId, startedAt, timeoutMs, pollIntervalMs);
+    if (!executionId) {
+      return this.failure(startedAt, `No execution of workflow ${remoteWorkflowId} started within ${timeoutMs}ms`);
+    }
+
+    const execution = await this.waitForCompletion(executionId, startedAt, timeoutMs, pollIntervalMs);
+    if (!execution) {
+      return this.failure(startedAt, `Execution ${executionId} did not finish within ${timeoutMs}ms`, executionId);
+    }
+
+    const runData = (execution.data?.resultData?.runData || {}) as Record<string, any[]>;
+    const assertions = Object.entries(expectedOutputs).map(([nodeName, expectedItems]) =>
+      this.assertNodeOutput(nodeName, expectedItems, runData[nodeName], matchMode)
+    );
+
+    const executionError = (execution.data?.resultData as { error?: { message?: string } } | undefined)?.error;
+    const succeeded = execution.status !== 'error' && !executionError;
+
+    return {
+      passed: succeeded && assertions.every(assertion => assertion.passed),
+      executionId,
+      status: execution.status,
+      error: executionError?.message,
+      durationMs: Date.now() - startedAt,
+      assertions,
+    };
+  }
+
+  /**
+   * Get the expected node outputs stored in the workflow's pinData
+   */
+  getPinnedOutputs(workflow: N8nWorkflow): Record<string, unknown[]> {
+    return (workflow.pinData || {}) as Record<string, unknown[]>;
+  }
+
+  /**
+   * Find the webhook node that triggers the workflow
+   */
+  private findWebhookNode(workflow: N8nWorkflow): N8nWorkflowNode | undefined {
+    return workflow.nodes.find(node => node.type === 'n8n-nodes-base.webhook' && !node.disabled);
+  }
+
+  /**
+   * Poll the executions list until an execution newer than the last one before the trigger shows up.
+   * The oldest such execution is taken, as later ones were started by someone else.
+   */
+  private async waitForExecutionId(
+    workflowId: string,
+    previousExecutionId: string | null,
+    startedAt: number,
+    timeoutMs: number,
+    pollIntervalMs: number
+  ): Promise<string | null> {
+    while (Date.now() - startedAt < timeoutMs) {
+      const result = await this.client.listExecutions({ workflowId, limit: 5 });
+      const newer = result.data
+        .map(candidate => candidate.id)
+        .filter(id => previousExecutionId === null || Number(id) > Number(previousExecutionId))
+        .sort((a, b) => Number(a) - Number(b));
+      if (newer.length > 0) {
+        return newer[0];
+      }
+      await this.sleep(pollIntervalMs);
+    }
+    return null;
+  }
+
+  /**
+   * Poll an execution until it has stopped running
+   */
+  private async waitForCompletion(
+    executionId: string,
+    startedAt: number,
+    timeoutMs: number,
+    pollIntervalMs: number
+  ): Promise<Execution | null> {
+    while (Date.now() - startedAt < timeoutMs) {
+      const execution = await this.client.getExecution(executionId, true);
+      if (execution.finished || (execution.stoppedAt && execution.status !== 'waiting')) {
+        return execution;
+      }
+      await this.sleep(pollIntervalMs);
+    }
+    return null;
+  }
+
+  /**
+   * Compare the expected items of a node with its output in the last run
+   */
+  private assertNodeOutput(
+    nodeName: string,
+    expectedItems: unknown[],
+    nodeRuns: any[] | undefined,
+    matchMode: OutputMatchMode
+  ): NodeAssertionResult {
+    const expected = expectedItems.map(item => this.unwrapItem(item));
+
+    if (!nodeRuns || nodeRuns.length === 0) {
+      return {
+        nodeName,
+        passed: false,
+        expectedItems: expected.length,
+        actualItems: 0,
+        mismatches: ['Node did not run'],
+      };
+    }
+
+    const lastRun = nodeRuns[nodeRuns.length - 1];
+    const actual = ((lastRun?.data?.main?.[0] || []) as unknown[]).map(item => this.unwrapItem(item));
+    const mismatches: string[] = [];
+
+    if (lastRun?.error) {
+      mismatches.push(`Node failed: ${lastRun.error.message || 'unknown error'}`);
+    }
+
+    if (actual.length !== expected.length) {
+      mismatches.push(`Expected ${expected.length} items, got ${actual.length}`);
+    }
+
+    expected.forEach((expectedItem, index) => {
+      if (index < actual.length) {
+        mismatches.push(...compareValues(expectedItem, actual[index], `item[${index}]`, matchMode));
+      }
+    });
+
+    return {
+      nodeName,
+      passed: mismatches.length === 0,
+      expectedItems: expected.length,
+      actualItems: actual.length,
+      mismatches,
+    };
+  }
+
+  /**
+   * n8n items wrap their data in a json property
+   */
+  private unwrapItem(item: unknown): unknown {
+    if (item && typeof item === 'object' && 'json' in item) {
+      return (item as { json: unknown }).json;
+    }
+    return item;
+  }
+
+  private failure(startedAt: number, error: string, executionId?: string): WorkflowTestResult {
+    return {
+      passed: false,
+      executionId,
+      error,
+      durationMs: Date.now() - startedAt,
+      assertions: [],
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * HTTP method a webhook node listens on; n8n defaults to GET
+ */
+export function getWebhookMethod(node: N8nWorkflowNode): string {
+  const method = node.parameters?.httpMethod;
+  const first = Array.isArray(method) ? method[0] : method;
+  return typeof first === 'string' && first ? first.toUpperCase() : 'GET';
+}
+
+/**
+ * Compare an expected value with an actual one, returning a message per difference.
+ * In subset mode extra object keys in the actual value are ignored.
+ */
+export function compareValues(
+  expected: unknown,
+  actual: unknown,
+  path: string,
+  matchMode: OutputMatchMode
+): string[] {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) {
+      return [`${path}: expected an array, got ${JSON.stringify(actual)}`];
+    }
+    if (expected.length !== actual.length) {
+      return [`${path}: expected ${expected.length} elements, got ${actual.length}`];
+    }
+    return expected.flatMap((value, index) => compareValues(value, actual[index], `${path}[${index}]`, matchMode));
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      return [`${path}: expected an object, got ${JSON.stringify(actual)}`];
+    }
+
+    const expectedRecord = expected as Record<string, unknown>;
+    const actualRecord = actual as Record<string, unknown>;
+    const mismatches = Object.keys(expectedRecord).flatMap(key =>
+      key in actualRecord
+        ? compareValues(expectedRecord[key], actualRecord[key], `${path}.${key}`, matchMode)
+        : [`${path}.${key}: missing`]
+    );
+
+    if (matchMode === 'exact') {
+      for (const key of Object.keys(actualRecord)) {
+        if (!(key in expectedRecord)) {
+          mismatches.push(`${path}.${key}: unexpected field`);
+        }
+      }
+    }
+
+    return mismatches;
+  }
+
+  return expected === actual
+    ? []
+    : [`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
@@ -5,6 +5,7 @@
 
 import { Workflow, WorkflowNode, WorkflowConnection } from '../types/n8n-api.js';
 import { logger } from '../utils/logger.js';
+import { analyzeWorkflowExpressions } from '../lib/workflow-expressions.js';
 
 interface ValidationError {
   type: 'error' | 'warning';
@@ -40,6 +41,9 @@ export class WorkflowValidator {
     
     // Validate connections
     this.validateConnections(workflow.connections, workflow.nodes, errors, warnings);
+
+    // Validate {{ }} expressions in node parameters
+    this.validateExpressions(workflow, errors, warnings);
     
     // Validate workflow settings
     if (workflow.settings) {
@@ -287,14 +291,15 @@ export class WorkflowValidator {
   ): void {
     if (!connections) return;
 
-    const nodeIds = new Set(nodes.map(n => n.id));
+    // Connections reference nodes by name
+    const nodeNames = new Set(nodes.map(n => n.name));
 
-    for (const [sourceNodeId, outputs] of Object.entries(connections as Record<string, any>)) {
+    for (const [sourceNodeName, outputs] of Object.entries(connections as Record<string, any>)) {
       // Check if source node exists
-      if (!nodeIds.has(sourceNodeId)) {
+      if (!nodeNames.has(sourceNodeName)) {
         errors.push({
           type: 'error',
-          message: `Connection references non-existent source node: ${sourceNodeId}`
+          message: `Connection references non-existent source node: ${sourceNodeName}`
         });
         continue;
       }
@@ -304,29 +309,30 @@ export class WorkflowValidator {
         if (!Array.isArray(connectionsArray)) {
           errors.push({
             type: 'error',
-            message: `Output ${outputType} for node ${sourceNodeId} must be an array`,
-            nodeId: sourceNodeId
+            message: `Output ${outputType} for node ${sourceNodeName} must be an array`,
+            nodeId: this.findNodeId(nodes, sourceNodeName)
           });
           continue;
         }
 
         // Validate each connection
         for (const connectionGroup of connectionsArray) {
+          if (connectionGroup === null) continue;
           if (!Array.isArray(connectionGroup)) {
             errors.push({
               type: 'error',
-              message: `Connection group for ${sourceNodeId} output ${outputType} must be an array`,
-              nodeId: sourceNodeId
+              message: `Connection group for ${sourceNodeName} output ${outputType} must be an array`,
+              nodeId: this.findNodeId(nodes, sourceNodeName)
             });
             continue;
           }
 
           for (const connection of connectionGroup) {
-            if (!connection.node || !nodeIds.has(connection.node)) {
+            if (!connection.node || !nodeNames.has(connection.node)) {
               errors.push({
                 type: 'error',
                 message: `Connection references non-existent target node: ${connection.node}`,
-                nodeId: sourceNodeId
+                nodeId: this.findNodeId(nodes, sourceNodeName)
               });
             }
 
@@ -334,7 +340,7 @@ export class WorkflowValidator {
               errors.push({
                 type: 'error',
                 message: `Connection must have a type`,
-                nodeId: sourceNodeId
+                nodeId: this.findNodeId(nodes, sourceNodeName)
               });
             }
 
@@ -342,7 +348,7 @@ export class WorkflowValidator {
               errors.push({
                 type: 'error',
                 message: `Connection index must be a non-negative number`,
-                nodeId: sourceNodeId
+                nodeId: this.findNodeId(nodes, sourceNodeName)
               });
             }
           }
@@ -351,6 +357,35 @@ export class WorkflowValidator {
     }
   }
 
+  /**
+   * Validate expression syntax, node references and known $json fields
+   */
+  private validateExpressions(
+    workflow: Workflow,
+    errors: ValidationError[],
+    warnings: ValidationError[]
+  ): void {
+    if (!workflow.nodes) return;
+
+    const result = analyzeWorkflowExpressions(workflow);
+
+    for (const issue of [...result.errors, ...result.warnings]) {
+      (issue.type === 'error' ? errors : warnings).push({
+        type: issue.type,
+        message: `${issue.nodeName}: ${issue.message}`,
+        nodeId: issue.nodeId,
+        field: issue.field,
+      });
+    }
+  }
+
+  /**
+   * Find the ID of a node by name
+   */
+  private findNodeId(nodes: WorkflowNode[], nodeName: string): string | undefined {
+    return nodes.find(n => n.name === nodeName)?.id;
+  }
+
   /**
    * Validate workflow settings
    */
@@ -1,198 +1,84 @@
 import { z } from 'zod';
-import { WorkflowService } from '../services/workflow-service.js';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
 import { NodeDiscoveryService } from '../services/node-discovery-service.js';
-import { createEmptyWorkflow, createWorkflowNode, addNodeToWorkflow, addConnectionToWorkflow } from '../lib/workflow-utils.js';
+import { AiWorkflowComposer, AiWorkflowPlan } from '../services/ai-workflow-composer.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
 
-const workflowService = new WorkflowService();
 const nodeDiscoveryService = new NodeDiscoveryService();
+const aiWorkflowComposer = new AiWorkflowComposer(nodeDiscoveryService);
+
+const agentToolSchema = z.object({
+  kind: z.enum(['http_request', 'code', 'calculator', 'wikipedia', 'serpapi', 'workflow']).describe('Kind of tool the agent can call'),
+  name: z.string().optional().describe('Node name for the tool'),
+  description: z.string().optional().describe('Description the agent uses to decide when to call the tool'),
+  parameters: z.record(z.string(), z.any()).optional().describe('Additional node parameters (e.g. url, jsCode, workflowId)'),
+});
+
+const aiWorkflowPlanSchema = z.object({
+  trigger: z.enum(['webhook', 'chat', 'manual', 'schedule']).describe('How the workflow is started'),
+  model_provider: z.enum(['openai', 'anthropic', 'google', 'ollama', 'mistral', 'groq']).describe('Chat model provider'),
+  model: z.string().optional().describe('Model name (defaults to a sensible model for the provider)'),
+  system_message: z.string().optional().describe('System message for the agent'),
+  prompt: z.string().optional().describe('Prompt or expression for the agent input (not used with the chat trigger)'),
+  memory: z.enum(['none', 'buffer', 'postgres', 'redis']).optional().default('none').describe('Conversation memory'),
+  vector_store: z.enum(['none', 'pinecone', 'qdrant', 'supabase', 'in_memory']).optional().default('none').describe('Vector store exposed to the agent as a retrieval tool'),
+  vector_index: z.string().optional().describe('Index, collection or table name of the vector store'),
+  embeddings_provider: z.enum(['openai', 'google', 'ollama', 'mistral']).optional().describe('Embeddings provider for the vector store (defaults to the model provider where possible)'),
+  tools: z.array(agentToolSchema).optional().default([]).describe('Tools the agent can call'),
+});
 
 /**
  * Compose AI workflow tool
  */
 export const composeAiWorkflowTool = {
   name: 'compose_ai_workflow',
-  description: 'Compose a complex AI workflow (agent + model + memory + embeddings + vector + tools + trigger) in one call',
+  description: 'Compose an AI agent workflow from a structured plan (trigger, chat model, memory, vector store, tools) using LangChain nodes from the node catalog, wired with typed ai_* connections',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow to create'),
-    plan: z.string().describe('Description of the AI workflow plan'),
+    plan: aiWorkflowPlanSchema.describe('Structured plan of the AI workflow'),
     n8n_version: z.string().optional().describe('n8n version to use'),
+    ...workspaceParams,
   }),
-  execute: async (args: { workflow_name: string; plan: string; n8n_version?: string }) => {
+  execute: async (args: { workflow_name: string; plan: AiWorkflowPlan; n8n_version?: string } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
       // Check if workflow already exists
-      const exists = await workflowService.workflowExists(args.workflow_name);
+      const exists = await workspaceService.workflowExists(args.workflow_name);
       if (exists) {
         return `Error: Workflow '${args.workflow_name}' already exists`;
       }
 
-      // Create a new workflow
-      let workflow = createEmptyWorkflow(args.workflow_name, `AI Workflow: ${args.plan}`);
-
-      // Get available versions
-      const availableVersions = await nodeDiscoveryService.getAvailableVersions();
-      const targetVersion = args.n8n_version || availableVersions[0];
-
-      // Create nodes for a typical AI workflow
-      const nodes = [];
-
-      // 1. Webhook trigger
-      const webhookNode = createWorkflowNode(
-        'n8n-nodes-base.webhook',
-        'Webhook Trigger',
-        [100, 100],
-        {
-          httpMethod: 'POST',
-          path: 'ai-workflow',
-          responseMode: 'responseNode',
-        }
-      );
-      nodes.push(webhookNode);
-
-      // 2. AI Agent node
-      const agentNode = createWorkflowNode(
-        'n8n-nodes-base.openAiAgent',
-        'AI Agent',
-        [400, 100],
-        {
-          model: 'gpt-4',
-          systemMessage: 'You are a helpful AI assistant.',
-          options: {},
-        }
-      );
-      nodes.push(agentNode);
-
-      // 3. OpenAI model node
-      const modelNode = createWorkflowNode(
-        'n8n-nodes-base.openAi',
-        'OpenAI Model',
-        [400, 300],
-        {
-          resource: 'chat',
-          operation: 'create',
-          model: 'gpt-4',
-          messages: '={{ $json.messages }}',
-        }
-      );
-      nodes.push(modelNode);
-
-      // 4. Memory node (if available)
-      const memoryNode = createWorkflowNode(
-        'n8n-nodes-base.memory',
-        'Memory',
-        [700, 100],
-        {
-          operation: 'get',
-          key: 'conversation',
-        }
-      );
-      nodes.push(memoryNode);
-
-      // 5. Embeddings node
-      const embeddingsNode = createWorkflowNode(
-        'n8n-nodes-base.openAiEmbeddings',
-        'Embeddings',
-        [700, 300],
-        {
-          resource: 'embeddings',
-          operation: 'create',
-          model: 'text-embedding-ada-002',
-          input: '={{ $json.text }}',
-        }
-      );
-      nodes.push(embeddingsNode);
-
-      // 6. Vector store node
-      const vectorStoreNode = createWorkflowNode(
-        'n8n-nodes-base.pinecone',
-        'Vector Store',
-        [1000, 100],
-        {
-          resource: 'vector',
-          operation: 'upsert',
-          index: 'ai-workflow',
-          vectors: '={{ $json.vectors }}',
-        }
-      );
-      nodes.push(vectorStoreNode);
-
-      // 7. Tool node (example: HTTP Request)
-      const toolNode = createWorkflowNode(
-        'n8n-nodes-base.httpRequest',
-        'HTTP Tool',
-        [1000, 300],
-        {
-          method: 'GET',
-          url: 'https://api.example.com/data',
-          options: {},
-        }
+      const { workflow, connections, warnings } = await aiWorkflowComposer.compose(
+        args.workflow_name,
+        args.plan,
+        args.n8n_version
       );
-      nodes.push(toolNode);
-
-      // 8. Response node
-      const responseNode = createWorkflowNode(
-        'n8n-nodes-base.respondToWebhook',
-        'Response',
-        [1300, 100],
-        {
-          respondWith: 'json',
-          responseBody: '={{ $json.response }}',
-        }
-      );
-      nodes.push(responseNode);
-
-      // Add all nodes to the workflow
-      for (const node of nodes) {
-        workflow = addNodeToWorkflow(workflow, node);
-      }
-
-      // Create connections
-      // Webhook -> Agent
-      workflow = addConnectionToWorkflow(workflow, webhookNode.id, 'main', agentNode.id, 'main', 0);
-      
-      // Agent -> Model
-      workflow = addConnectionToWorkflow(workflow, agentNode.id, 'main', modelNode.id, 'main', 0);
-      
-      // Agent -> Memory
-      workflow = addConnectionToWorkflow(workflow, agentNode.id, 'memory', memoryNode.id, 'main', 0);
-      
-      // Agent -> Embeddings
-      workflow = addConnectionToWorkflow(workflow, agentNode.id, 'embeddings', embeddingsNode.id, 'main', 0);
-      
-      // Agent -> Vector Store
-      workflow = addConnectionToWorkflow(workflow, agentNode.id, 'vectorStore', vectorStoreNode.id, 'main', 0);
-      
-      // Agent -> Tool
-      workflow = addConnectionToWorkflow(workflow, agentNode.id, 'tools', toolNode.id, 'main', 0);
-      
-      // Agent -> Response
-      workflow = addConnectionToWorkflow(workflow, agentNode.id, 'main', responseNode.id, 'main', 0);
 
       // Save the workflow
-      await workflowService.saveWorkflow(workflow);
+      await workspaceService.saveWorkflow(workflow);
 
-      const nodeList = nodes.map((node, index) => 
-        `${index + 1}. ${node.name} (${node.type})`
+      const nodeList = workflow.nodes.map((node, index) =>
+        `${index + 1}. ${node.name} (${node.type} v${node.typeVersion})`
       ).join('\n');
 
-      const connectionList = [
-        'Webhook -> Agent',
-        'Agent -> Model',
-        'Agent -> Memory',
-        'Agent -> Embeddings',
-        'Agent -> Vector Store',
-        'Agent -> Tool',
-        'Agent -> Response',
-      ].join('\n');
+      const connectionList = connections.map(connection =>
+        `${connection.from} -[${connection.type}]-> ${connection.to}`
+      ).join('\n');
 
-      return `AI workflow '${args.workflow_name}' created successfully!\n\n` +
+      let response = `AI workflow '${args.workflow_name}' created successfully!\n\n` +
         `Workflow ID: ${workflow.id}\n` +
-        `Nodes: ${nodes.length}\n` +
-        `Connections: 7\n\n` +
+        `Nodes: ${workflow.nodes.length}\n` +
+        `Connections: ${connections.length}\n\n` +
         `Nodes:\n${nodeList}\n\n` +
-        `Connections:\n${connectionList}\n\n` +
-        `Plan: ${args.plan}`;
+        `Connections:\n${connectionList}`;
+
+      if (warnings.length > 0) {
+        response += `\n\nWarnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}`;
+      }
+
+      return response;
     } catch (error) {
       return `Failed to compose AI workflow: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   },
-};
\ No newline at end of file
+};
@@ -1,8 +1,11 @@
 import { z } from 'zod';
-import { WorkflowService } from '../services/workflow-service.js';
-import { addConnectionToWorkflow, removeConnectionFromWorkflow, findNodeById } from '../lib/workflow-utils.js';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
+import { NodeDiscoveryService } from '../services/node-discovery-service.js';
+import { addConnectionToWorkflow, removeConnectionFromWorkflow, resolveNodeReference } from '../lib/workflow-utils.js';
+import { N8nWorkflowNode } from '../types.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
 
-const workflowService = new WorkflowService();
+const nodeDiscoveryService = new NodeDiscoveryService();
 
 /**
  * Add a connection between two nodes tool
@@ -12,55 +15,61 @@ export const addConnectionTool = {
   description: 'Create a connection between two nodes in a workflow',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
-    source_node_id: z.string().describe('ID of the source node'),
-    source_node_output_name: z.string().describe('Name of the output on the source node'),
-    target_node_id: z.string().describe('ID of the target node'),
-    target_node_input_name: z.string().describe('Name of the input on the target node'),
+    source_node_id: z.string().describe('ID or name of the source node'),
+    source_node_output_name: z.string().describe("Connection type of the source output (usually 'main')"),
+    source_node_output_index: z.number().optional().default(0).describe('Index of the output on the source node (e.g. 1 for the false branch of an IF node)'),
+    target_node_id: z.string().describe('ID or name of the target node'),
+    target_node_input_name: z.string().describe("Connection type of the target input (usually 'main')"),
     target_node_input_index: z.number().optional().default(0).describe('Index of the input on the target node'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
+    ...workspaceParams,
   }),
   execute: async (args: {
     workflow_name: string;
     source_node_id: string;
     source_node_output_name: string;
+    source_node_output_index?: number;
     target_node_id: string;
     target_node_input_name: string;
     target_node_input_index?: number;
-    workflow_path?: string;
-  }) => {
+  } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+
       // Load the workflow
-      const workflow = await workflowService.loadWorkflow(args.workflow_name);
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
       if (!workflow) {
         return `Error: Workflow '${args.workflow_name}' not found`;
       }
 
       // Validate source node exists
-      const sourceNode = findNodeById(workflow, args.source_node_id);
-      if (!sourceNode) {
-        return `Error: Source node '${args.source_node_id}' not found in workflow`;
+      const sourceRef = resolveNodeReference(workflow, args.source_node_id);
+      if (sourceRef.error) {
+        return `Error: Source node: ${sourceRef.error}`;
       }
+      const sourceNode = sourceRef.node!;
 
       // Validate target node exists
-      const targetNode = findNodeById(workflow, args.target_node_id);
-      if (!targetNode) {
-        return `Error: Target node '${args.target_node_id}' not found in workflow`;
+      const targetRef = resolveNodeReference(workflow, args.target_node_id);
+      if (targetRef.error) {
+        return `Error: Target node: ${targetRef.error}`;
       }
+      const targetNode = targetRef.node!;
 
       // Add the connection
       const updatedWorkflow = addConnectionToWorkflow(
         workflow,
-        args.source_node_id,
+        sourceNode.name,
         args.source_node_output_name,
-        args.target_node_id,
+        targetNode.name,
         args.target_node_input_name,
-        args.target_node_input_index || 0
+        args.target_node_input_index || 0,
+        args.source_node_output_index || 0
       );
 
       // Save the updated workflow
-      await workflowService.saveWorkflow(updatedWorkflow);
+      await workspaceService.saveWorkflow(updatedWorkflow);
 
-      return `Connection added from '${sourceNode.name}' (${args.source_node_output_name}) to '${targetNode.name}' (${args.target_node_input_name})`;
+      return `Connection added from '${sourceNode.name}' (${args.source_node_output_name}[${args.source_node_output_index || 0}]) to '${targetNode.name}' (${args.target_node_input_name})`;
     } catch (error) {
       return `Failed to add connection: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
@@ -75,53 +84,59 @@ export const removeConnectionTool = {
   description: 'Remove a connection between two nodes in a workflow',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
-    source_node_id: z.string().describe('ID of the source node'),
-    source_node_output_name: z.string().describe('Name of the output on the source node'),
-    target_node_id: z.string().describe('ID of the target node'),
-    target_node_input_name: z.string().describe('Name of the input on the target node'),
+    source_node_id: z.string().describe('ID or name of the source node'),
+    source_node_output_name: z.string().describe("Connection type of the source output (usually 'main')"),
+    source_node_output_index: z.number().optional().describe('Index of the output on the source node (defaults to every output)'),
+    target_node_id: z.string().describe('ID or name of the target node'),
+    target_node_input_name: z.string().describe("Connection type of the target input (usually 'main')"),
     target_node_input_index: z.number().optional().default(0).describe('Index of the input on the target node'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
+    ...workspaceParams,
   }),
   execute: async (args: {
     workflow_name: string;
     source_node_id: string;
     source_node_output_name: string;
+    source_node_output_index?: number;
     target_node_id: string;
     target_node_input_name: string;
     target_node_input_index?: number;
-    workflow_path?: string;
-  }) => {
+  } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+
       // Load the workflow
-      const workflow = await workflowService.loadWorkflow(args.workflow_name);
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
       if (!workflow) {
         return `Error: Workflow '${args.workflow_name}' not found`;
       }
 
       // Validate source node exists
-      const sourceNode = findNodeById(workflow, args.source_node_id);
-      if (!sourceNode) {
-        return `Error: Source node '${args.source_node_id}' not found in workflow`;
+      const sourceRef = resolveNodeReference(workflow, args.source_node_id);
+      if (sourceRef.error) {
+        return `Error: Source node: ${sourceRef.error}`;
       }
+      const sourceNode = sourceRef.node!;
 
       // Validate target node exists
-      const targetNode = findNodeById(workflow, args.target_node_id);
-      if (!targetNode) {
-        return `Error: Target node '${args.target_node_id}' not found in workflow`;
+      const targetRef = resolveNodeReference(workflow, args.target_node_id);
+      if (targetRef.error) {
+        return `Error: Target node: ${targetRef.error}`;
       }
+      const targetNode = targetRef.node!;
 
       // Remove the connection
       const updatedWorkflow = removeConnectionFromWorkflow(
         workflow,
-        args.source_node_id,
+        sourceNode.name,
         args.source_node_output_name,
-        args.target_node_id,
+        targetNode.name,
         args.target_node_input_name,
-        args.target_node_input_index || 0
+        args.target_node_input_index || 0,
+        args.source_node_output_index
       );
 
       // Save the updated workflow
-      await workflowService.saveWorkflow(updatedWorkflow);
+      await workspaceService.saveWorkflow(updatedWorkflow);
 
       return `Connection removed from '${sourceNode.name}' (${args.source_node_output_name}) to '${targetNode.name}' (${args.target_node_input_name})`;
     } catch (error) {
@@ -130,23 +145,55 @@ export const removeConnectionTool = {
   },
 };
 
+/**
+ * A typed connection from an AI sub-node to the node that consumes it
+ */
+interface AiConnectionPairing {
+  label: string;
+  source: N8nWorkflowNode;
+  target: N8nWorkflowNode;
+  type: string;
+}
+
+/**
+ * Check that the source exposes the connection type as an output and the target accepts it as an input
+ */
+async function checkAiPairing(pairing: AiConnectionPairing, n8nVersion?: string): Promise<{ error?: string; warning?: string }> {
+  const { source, target, type } = pairing;
+  const outputSupport = await nodeDiscoveryService.getConnectionTypeSupport(source.type, 'outputs', type, n8nVersion);
+  if (outputSupport === 'unsupported') {
+    return { error: `${pairing.label}: '${source.name}' (${source.type}) has no '${type}' output` };
+  }
+
+  const inputSupport = await nodeDiscoveryService.getConnectionTypeSupport(target.type, 'inputs', type, n8nVersion);
+  if (inputSupport === 'unsupported') {
+    return { error: `${pairing.label}: '${target.name}' (${target.type}) does not accept a '${type}' input` };
+  }
+
+  if (outputSupport === 'unknown') {
+    return { warning: `${pairing.label}: could not verify that '${source.name}' (${source.type}) has a '${type}' output` };
+  }
+  return {};
+}
+
 /**
  * Add AI connections tool (for connecting AI components)
  */
 export const addAiConnectionsTool = {
   name: 'add_ai_connections',
-  description: 'Wire AI model, tools, and memory to an agent node',
+  description: 'Wire AI sub-nodes (model, tools, memory, vector store, embeddings) to an agent using typed ai_* connections, checking each node definition supports the connection',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
-    agent_node_id: z.string().describe('ID of the agent node'),
-    model_node_id: z.string().optional().describe('ID of the model node'),
-    tool_node_ids: z.array(z.string()).optional().describe('Array of tool node IDs'),
-    memory_node_id: z.string().optional().describe('ID of the memory node'),
-    embeddings_node_id: z.string().optional().describe('ID of the embeddings node'),
-    vector_store_node_id: z.string().optional().describe('ID of the vector store node'),
-    vector_insert_node_id: z.string().optional().describe('ID of the vector insert node'),
-    vector_tool_node_id: z.string().optional().describe('ID of the vector tool node'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
+    agent_node_id: z.string().describe('ID or name of the agent node'),
+    model_node_id: z.string().optional().describe('ID or name of the chat model node (ai_languageModel)'),
+    tool_node_ids: z.array(z.string()).optional().describe('IDs or names of tool nodes (ai_tool)'),
+    memory_node_id: z.string().optional().describe('ID or name of the memory node (ai_memory)'),
+    embeddings_node_id: z.string().optional().describe('ID or name of the embeddings node, connected to the vector store and vector insert nodes (ai_embedding)'),
+    vector_store_node_id: z.string().optional().describe('ID or name of the vector store node, connected to the vector tool (ai_vectorStore) or directly to the agent as a tool (ai_tool)'),
+    vector_insert_node_id: z.string().optional().describe('ID or name of the vector store node that inserts documents (receives ai_embedding)'),
+    vector_tool_node_id: z.string().optional().describe('ID or name of the vector store tool node (ai_tool)'),
+    n8n_version: z.string().optional().describe('n8n version whose node definitions are checked'),
+    ...workspaceParams,
   }),
   execute: async (args: {
     workflow_name: string;
@@ -158,112 +205,112 @@ export const addAiConnectionsTool = {
     vector_store_node_id?: string;
     vector_insert_node_id?: string;
     vector_tool_node_id?: string;
-    workflow_path?: string;
-  }) => {
+    n8n_version?: string;
+  } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+
       // Load the workflow
-      const workflow = await workflowService.loadWorkflow(args.workflow_name);
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
       if (!workflow) {
         return `Error: Workflow '${args.workflow_name}' not found`;
       }
 
       // Validate agent node exists
-      const agentNode = findNodeById(workflow, args.agent_node_id);
-      if (!agentNode) {
-        return `Error: Agent node '${args.agent_node_id}' not found in workflow`;
+      const agentRef = resolveNodeReference(workflow, args.agent_node_id);
+      if (agentRef.error) {
+        return `Error: Agent node: ${agentRef.error}`;
       }
+      const agentNode = agentRef.node!;
 
-      let updatedWorkflow = workflow;
-      const connections = [];
+      const errors: string[] = [];
+      const resolve = (reference: string | undefined, label: string): N8nWorkflowNode | undefined => {
+        if (!reference) return undefined;
+        const resolved = resolveNodeReference(workflow, reference);
+        if (resolved.error) {
+          errors.push(`${label} node: ${resolved.error}`);
+        }
+        return resolved.node;
+      };
+
+      const modelNode = resolve(args.model_node_id, 'Model');
+      const toolNodes = (args.tool_node_ids || []).map(id => resolve(id, 'Tool'));
+      const memoryNode = resolve(args.memory_node_id, 'Memory');
+      const embeddingsNode = resolve(args.embeddings_node_id, 'Embeddings');
+      const vectorStoreNode = resolve(args.vector_store_node_id, 'Vector store');
+      const vectorInsertNode = resolve(args.vector_insert_node_id, 'Vector insert');
+      const vectorToolNode = resolve(args.vector_tool_node_id, 'Vector tool');
 
-      // Connect model if provided
-      if (args.model_node_id) {
-        const modelNode = findNodeById(workflow, args.model_node_id);
-        if (modelNode) {
-          updatedWorkflow = addConnectionToWorkflow(
-            updatedWorkflow,
-            args.model_node_id,
-            'main',
-            args.agent_node_id,
-            'model',
-            0
-          );
-          connections.push(`Model: ${modelNode.name} -> Agent`);
+      // Sub-nodes connect from their typed output into the consuming node's input of the same type
+      const pairings: AiConnectionPairing[] = [];
+      if (modelNode) {
+        pairings.push({ label: 'Model', source: modelNode, target: agentNode, type: 'ai_languageModel' });
+      }
+      for (const toolNode of toolNodes) {
+        if (toolNode) {
+          pairings.push({ label: 'Tool', source: toolNode, target: agentNode, type: 'ai_tool' });
         }
       }
-
-      // Connect tools if provided
-      if (args.tool_node_ids && args.tool_node_ids.length > 0) {
-        for (const toolNodeId of args.tool_node_ids) {
-          const toolNode = findNodeById(workflow, toolNodeId);
-          if (toolNode) {
-            updatedWorkflow = addConnectionToWorkflow(
-              updatedWorkflow,
-              toolNodeId,
-              'main',
-              args.agent_node_id,
-              'tools',
-              0
-            );
-            connections.push(`Tool: ${toolNode.name} -> Agent`);
-          }
+      if (memoryNode) {
+        pairings.push({ label: 'Memory', source: memoryNode, target: agentNode, type: 'ai_memory' });
+      }
+      if (vectorToolNode) {
+        pairings.push({ label: 'Vector tool', source: vectorToolNode, target: agentNode, type: 'ai_tool' });
+      }
+      if (vectorStoreNode) {
+        pairings.push(vectorToolNode
+          ? { label: 'Vector store', source: vectorStoreNode, target: vectorToolNode, type: 'ai_vectorStore' }
+          : { label: 'Vector store', source: vectorStoreNode, target: agentNode, type: 'ai_tool' });
+      }
+      if (embeddingsNode) {
+        const embeddingTargets = [vectorStoreNode, vectorInsertNode].filter((node): node is N8nWorkflowNode => !!node);
+        if (embeddingTargets.length === 0) {
+          errors.push(`Embeddings: '${embeddingsNode.name}' must connect to a vector store; pass vector_store_node_id or vector_insert_node_id`);
+        }
+        for (const target of embeddingTargets) {
+          pairings.push({ label: 'Embeddings', source: embeddingsNode, target, type: 'ai_embedding' });
         }
       }
 
-      // Connect memory if provided
-      if (args.memory_node_id) {
-        const memoryNode = findNodeById(workflow, args.memory_node_id);
-        if (memoryNode) {
-          updatedWorkflow = addConnectionToWorkflow(
-            updatedWorkflow,
-            args.memory_node_id,
-            'main',
-            args.agent_node_id,
-            'memory',
-            0
-          );
-          connections.push(`Memory: ${memoryNode.name} -> Agent`);
-        }
+      const warnings: string[] = [];
+      for (const pairing of pairings) {
+        const check = await checkAiPairing(pairing, args.n8n_version);
+        if (check.error) errors.push(check.error);
+        if (check.warning) warnings.push(check.warning);
       }
 
-      // Connect embeddings if provided
-      if (args.embeddings_node_id) {
-        const embeddingsNode = findNodeById(workflow, args.embeddings_node_id);
-        if (embeddingsNode) {
-          updatedWorkflow = addConnectionToWorkflow(
-            updatedWorkflow,
-            args.embeddings_node_id,
-            'main',
-            args.agent_node_id,
-            'embeddings',
-            0
-          );
-          connections.push(`Embeddings: ${embeddingsNode.name} -> Agent`);
-        }
+      if (errors.length > 0) {
+        return `Error: No AI connections were added to agent '${agentNode.name}':\n\n${errors.map(error => `- ${error}`).join('\n')}`;
+      }
+      if (pairings.length === 0) {
+        return `Error: No AI sub-nodes were given to connect to agent '${agentNode.name}'`;
       }
 
-      // Connect vector store if provided
-      if (args.vector_store_node_id) {
-        const vectorStoreNode = findNodeById(workflow, args.vector_store_node_id);
-        if (vectorStoreNode) {
-          updatedWorkflow = addConnectionToWorkflow(
-            updatedWorkflow,
-            args.vector_store_node_id,
-            'main',
-            args.agent_node_id,
-            'vectorStore',
-            0
-          );
-          connections.push(`Vector Store: ${vectorStoreNode.name} -> Agent`);
-        }
+      let updatedWorkflow = workflow;
+      for (const pairing of pairings) {
+        updatedWorkflow = addConnectionToWorkflow(
+          updatedWorkflow,
+          pairing.source.name,
+          pairing.type,
+          pairing.target.name,
+          pairing.type,
+          0
+        );
       }
 
       // Save the updated workflow
-      await workflowService.saveWorkflow(updatedWorkflow);
+      await workspaceService.saveWorkflow(updatedWorkflow);
 
-      return `AI connections added to agent '${agentNode.name}':\n\n${connections.join('\n')}`;
+      const connectionList = pairings.map(pairing =>
+        `${pairing.label}: ${pairing.source.name} -[${pairing.type}]-> ${pairing.target.name}`
+      );
+      let response = `AI connections added to agent '${agentNode.name}':\n\n${connectionList.join('\n')}`;
+      if (warnings.length > 0) {
+        response += `\n\nWarnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}`;
+      }
+      return response;
     } catch (error) {
       return `Failed to add AI connections: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
+import { NodeDiscoveryService } from '../services/node-discovery-service.js';
+import { AvailableCredential, CredentialAnalyzer, CredentialRequirement } from '../services/credential-analyzer.js';
+import { getN8nApiClient, formatN8nApiError } from '../services/n8n-api-client.js';
+import { isN8nApiConfigured } from '../config/n8n-api.js';
+import { resolveNodeReference, updateNodeInWorkflow } from '../lib/workflow-utils.js';
+import { N8nCredentialReference, N8nWorkflow } from '../types.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
+
+const credentialAnalyzer = new CredentialAnalyzer(new NodeDiscoveryService());
+
+// Page size used when reading every credential from the n8n instance
+const CREDENTIAL_PAGE_SIZE = 250;
+
+/**
+ * List every credential on the n8n instance, or null when the API is not configured
+ */
+async function listAvailableCredentials(): Promise<AvailableCredential[] | null> {
+  if (!isN8nApiConfigured()) {
+    return null;
+  }
+
+  const client = getN8nApiClient();
+  const credentials: AvailableCredential[] = [];
+  for (;;) {
+    const page = await client.listCredentials({ limit: CREDENTIAL_PAGE_SIZE, offset: credentials.length });
+    credentials.push(...page.data.map(({ id, name, type }) => ({ id, name, type })));
+    if (page.data.length < CREDENTIAL_PAGE_SIZE || (page.total !== undefined && credentials.length >= page.total)) {
+      return credentials;
+    }
+  }
+}
+
+/**
+ * Format one credential requirement of a node
+ */
+function formatRequirement(requirement: CredentialRequirement, availableKnown: boolean): string {
+  let line = `   - ${requirement.type}${requirement.required ? '' : ' (optional)'}: `;
+  if (requirement.bound) {
+    line += `bound to '${requirement.bound.name}'${requirement.bound.id ? ` (ID: ${requirement.bound.id})` : ''}`;
+    if (requirement.boundExists === false) line += ' - NOT FOUND on the n8n instance';
+  } else {
+    line += 'not bound';
+  }
+  if (availableKnown && (!requirement.bound || requirement.boundExists === false)) {
+    line += requirement.candidates.length > 0
+      ? `\n     Candidates: ${requirement.candidates.map(candidate => `'${candidate.name}' (ID: ${candidate.id})`).join(', ')}`
+      : '\n     Candidates: none of this type on the n8n instance';
+  }
+  return line;
+}
+
+/**
+ * Analyze workflow credentials tool
+ */
+export const analyzeWorkflowCredentialsTool = {
+  name: 'analyze_workflow_credentials',
+  description: 'List the credential types each node of a workflow needs, whether they are bound, and (when the n8n API is configured) the existing credentials of each type that could be bound',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    n8n_version: z.string().optional().describe('n8n version whose node definitions to use (defaults to the latest available)'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; n8n_version?: string } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
+      if (!workflow) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      const available = await listAvailableCredentials();
+      const analysis = await credentialAnalyzer.analyzeWorkflow(workflow, available, args.n8n_version);
+
+      const nodeSections = analysis.nodes
+        .filter(node => node.requirements.length > 0 || node.unusedBindings.length > 0 || !node.definitionFound)
+        .map(node => {
+          const lines = [`- ${node.nodeName} (${node.nodeType})`];
+          if (!node.definitionFound) lines.push('   (no node definition found; only bound credentials are listed)');
+          lines.push(...node.requirements.map(requirement => formatRequirement(requirement, analysis.availableCredentialsKnown)));
+          if (node.unusedBindings.length > 0) {
+            lines.push(`   Bound but not used with the current parameters: ${node.unusedBindings.join(', ')}`);
+          }
+          return lines.join('\n');
+        });
+
+      let response = `Credentials for workflow '${args.workflow_name}':\n\n`;
+      response += nodeSections.length > 0 ? nodeSections.join('\n') : 'No node needs credentials.';
+      response += analysis.missing.length > 0
+        ? `\n\nMissing required credentials (${analysis.missing.length}):\n${analysis.missing.map(entry => `- ${entry.nodeName}: ${entry.type}`).join('\n')}`
+        : '\n\nAll required credentials are bound.';
+      if (!analysis.availableCredentialsKnown) {
+        response += '\n\nNote: the n8n API is not configured, so existing credentials could not be checked or suggested.';
+      }
+      return response;
+    } catch (error) {
+      return `Failed to analyze workflow credentials: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Bind credentials to workflow nodes tool
+ */
+export const bindCredentialsTool = {
+  name: 'bind_credentials',
+  description: 'Set node credential references in a workflow. Each binding names a credential type and an existing credential (by ID or name); it is applied to the listed nodes or to every node that needs that type. auto_bind fills each unbound requirement that has exactly one matching credential on the n8n instance.',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    bindings: z.array(z.object({
+      credential_type: z.string().describe('Credential type, e.g. slackApi or openAiApi'),
+      credential_id: z.string().optional().describe('ID of the credential on the n8n instance'),
+      credential_name: z.string().optional().describe('Name of the credential (required when the n8n API is not configured)'),
+      nodes: z.array(z.string()).optional().describe('IDs or names of the nodes to bind (defaults to every node that needs this credential type)'),
+    })).optional().default([]).describe('Credentials to bind'),
+    auto_bind: z.boolean().optional().default(false).describe('Also bind every unbound requirement that has exactly one candidate credential'),
+    overwrite: z.boolean().optional().default(false).describe('Replace credentials that are already bound'),
+    n8n_version: z.string().optional().describe('n8n version whose node definitions to use (defaults to the latest available)'),
+    ...workspaceParams,
+  }),
+  execute: async (args: {
+    workflow_name: string;
+    bindings?: Array<{ credential_type: string; credential_id?: string; credential_name?: string; nodes?: string[] }>;
+    auto_bind?: boolean;
+    overwrite?: boolean;
+    n8n_version?: string;
+  } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
+      if (!workflow) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      const bindings = args.bindings || [];
+      if (bindings.length === 0 && !args.auto_bind) {
+        return 'Error: Provide at least one binding or set auto_bind';
+      }
+
+      const available = await listAvailableCredentials();
+      if (args.auto_bind && !available) {
+        return 'Error: auto_bind needs the n8n API (set N8N_API_URL and N8N_API_KEY) to look up existing credentials';
+      }
+
+      const analysis = await credentialAnalyzer.analyzeWorkflow(workflow, available, args.n8n_version);
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const assignments: Array<{ nodeName: string; type: string; reference: N8nCredentialReference }> = [];
+
+      for (const binding of bindings) {
+        const reference = resolveCredential(binding, available, errors);
+        if (!reference) continue;
+
+        let nodeNames: string[];
+        if (binding.nodes && binding.nodes.length > 0) {
+          nodeNames = [];
+          for (const nodeReference of binding.nodes) {
+            const { node, error } = resolveNodeReference(workflow, nodeReference);
+            if (!node) {
+              errors.push(error);
+              continue;
+            }
+            const nodeAnalysis = analysis.nodes.find(entry => entry.nodeId === node.id);
+            if (nodeAnalysis?.definitionFound && !nodeAnalysis.requirements.some(requirement => requirement.type === binding.credential_type)) {
+              warnings.push(`'${node.name}' does not use credential type '${binding.credential_type}' with its current parameters`);
+            }
+            nodeNames.push(node.name);
+          }
+        } else {
+          nodeNames = analysis.nodes
+            .filter(node => node.requirements.some(requirement => requirement.type === binding.credential_type))
+            .map(node => node.nodeName);
+          if (nodeNames.length === 0) {
+            errors.push(`No node in the workflow needs credential type '${binding.credential_type}'`);
+          }
+        }
+
+        nodeNames.forEach(nodeName => assignments.push({ nodeName, type: binding.credential_type, reference }));
+      }
+
+      if (args.auto_bind) {
+        for (const node of analysis.nodes) {
+          for (const requirement of node.requirements) {
+            const unbound = !requirement.bound || requirement.boundExists === false;
+            const alreadyAssigned = assignments.some(entry => entry.nodeName === node.nodeName && entry.type === requirement.type);
+            if (!unbound || alreadyAssigned) continue;
+
+            if (requirement.candidates.length === 1) {
+              const [candidate] = requirement.candidates;
+              assignments.push({ nodeName: node.nodeName, type: requirement.type, reference: { id: candidate.id, name: candidate.name } });
+            } else if (requirement.required) {
+              warnings.push(requirement.candidates.length === 0
+                ? `No '${requirement.type}' credential exists for '${node.nodeName}'`
+                : `'${node.nodeName}' has ${requirement.candidates.length} '${requirement.type}' credentials to choose from; bind one explicitly`);
+            }
+          }
+        }
+      }
+
+      if (errors.length > 0) {
+        return `Error: Credentials were not bound:\n${errors.map(error => `- ${error}`).join('\n')}`;
+      }
+
+      // References to credentials missing from the instance are always replaceable
+      const dangling = new Set(analysis.nodes.flatMap(node => node.requirements
+        .filter(requirement => requirement.boundExists === false)
+        .map(requirement => `${node.nodeName}\u0000${requirement.type}`)));
+
+      let updatedWorkflow: N8nWorkflow = workflow;
+      const results: string[] = [];
+      for (const assignment of assignments) {
+        const node = updatedWorkflow.nodes.find(candidate => candidate.name === assignment.nodeName)!;
+        const existing = node.credentials?.[assignment.type];
+        const replaceable = args.overwrite || dangling.has(`${node.name}\u0000${assignment.type}`);
+        const sameCredential = existing?.id === assignment.reference.id && existing?.name === assignment.reference.name;
+        if (existing && !replaceable && !sameCredential) {
+          warnings.push(`'${node.name}' already uses '${existing.name}' for ${assignment.type}; set overwrite to replace it`);
+          continue;
+        }
+        updatedWorkflow = updateNodeInWorkflow(updatedWorkflow, node.id, {
+          credentials: { ...node.credentials, [assignment.type]: assignment.reference },
+        });
+        results.push(`- ${node.name}: ${assignment.type} -> '${assignment.reference.name}'${assignment.reference.id ? ` (ID: ${assignment.reference.id})` : ''}`);
+      }
+
+      if (results.length > 0) {
+        await workspaceService.saveWorkflow(updatedWorkflow);
+      }
+
+      const remaining = (await credentialAnalyzer.analyzeWorkflow(updatedWorkflow, available, args.n8n_version)).missing;
+      let response = results.length > 0
+        ? `Bound ${results.length} credential(s) in workflow '${args.workflow_name}':\n${results.join('\n')}`
+        : `No credentials were bound in workflow '${args.workflow_name}'`;
+      if (warnings.length > 0) {
+        response += `\n\nWarnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}`;
+      }
+      response += remaining.length > 0
+        ? `\n\nStill missing:\n${remaining.map(entry => `- ${entry.nodeName}: ${entry.type}`).join('\n')}`
+        : '\n\nAll required credentials are bound.';
+      return response;
+    } catch (error) {
+      return `Failed to bind credentials: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Turn a binding into a credential reference, checking it against the instance when possible
+ */
+function resolveCredential(
+  binding: { credential_type: string; credential_id?: string; credential_name?: string },
+  available: AvailableCredential[] | null,
+  errors: string[]
+): N8nCredentialReference | null {
+  const type = binding.credential_type;
+
+  if (!available) {
+    if (!binding.credential_name) {
+      errors.push(`credential_name is required for '${type}' when the n8n API is not configured`);
+      return null;
+    }
+    return binding.credential_id
+      ? { id: binding.credential_id, name: binding.credential_name }
+      : { name: binding.credential_name };
+  }
+
+  if (binding.credential_id) {
+    const credential = available.find(candidate => candidate.id === binding.credential_id);
+    if (!credential) {
+      errors.push(`Credential with ID '${binding.credential_id}' not found on the n8n instance`);
+      return null;
+    }
+    if (credential.type !== type) {
+      errors.push(`Credential '${credential.name}' (ID: ${credential.id}) is of type '${credential.type}', not '${type}'`);
+      return null;
+    }
+    return { id: credential.id, name: credential.name };
+  }
+
+  const matches = available.filter(candidate => candidate.type === type && (!binding.credential_name || candidate.name === binding.credential_name));
+  if (matches.length === 1) {
+    return { id: matches[0].id, name: matches[0].name };
+  }
+  errors.push(matches.length === 0
+    ? `No '${type}' credential${binding.credential_name ? ` named '${binding.credential_name}'` : ''} found on the n8n instance`
+    : `Several '${type}' credentials match: ${matches.map(match => `'${match.name}' (ID: ${match.id})`).join(', ')}. Pass credential_id.`);
+  return null;
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
+import { countConnections } from '../lib/workflow-utils.js';
+import { diffWorkflows, formatWorkflowDiff } from '../lib/workflow-diff.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
+
+
+/**
+ * List workflow revisions tool
+ */
+export const listWorkflowRevisionsTool = {
+  name: 'list_workflow_revisions',
+  description: 'List the saved revisions of a workflow, newest first. A revision is recorded before every change to the workflow file.',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    limit: z.number().min(1).optional().default(20).describe('Maximum number of revisions to list'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; limit?: number } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const revisions = await workspaceService.getHistory().listRevisions(args.workflow_name);
+      if (revisions.length === 0) {
+        return `No revisions found for workflow '${args.workflow_name}'`;
+      }
+
+      const shown = revisions.slice(0, args.limit || 20);
+      const revisionList = shown.map((revision, index) =>
+        `${index + 1}. ${revision.revisionId}\n   Saved: ${revision.createdAt}\n   Nodes: ${revision.nodeCount}`
+      ).join('\n\n');
+
+      return `Revisions of '${args.workflow_name}' (${shown.length} of ${revisions.length}):\n\n${revisionList}`;
+    } catch (error) {
+      return `Failed to list workflow revisions: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Diff two workflow revisions tool
+ */
+export const diffWorkflowRevisionsTool = {
+  name: 'diff_workflow_revisions',
+  description: 'Show the node, connection and settings changes between two revisions of a workflow, or between a revision and the current workflow',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    from_revision_id: z.string().describe('Revision to compare from'),
+    to_revision_id: z.string().optional().describe('Revision to compare to (defaults to the current workflow)'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; from_revision_id: string; to_revision_id?: string } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const history = workspaceService.getHistory();
+      const before = await history.loadRevision(args.workflow_name, args.from_revision_id);
+      if (!before) {
+        return `Error: Revision '${args.from_revision_id}' not found for workflow '${args.workflow_name}'`;
+      }
+
+      const after = args.to_revision_id
+        ? await history.loadRevision(args.workflow_name, args.to_revision_id)
+        : await workspaceService.loadWorkflow(args.workflow_name);
+      if (!after) {
+        return args.to_revision_id
+          ? `Error: Revision '${args.to_revision_id}' not found for workflow '${args.workflow_name}'`
+          : `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      const diff = diffWorkflows(before, after);
+      const target = args.to_revision_id || 'current';
+      if (!diff.hasChanges) {
+        return `No changes between ${args.from_revision_id} and ${target}`;
+      }
+
+      return `Changes from ${args.from_revision_id} to ${target}:\n\n${formatWorkflowDiff(diff)}`;
+    } catch (error) {
+      return `Failed to diff workflow revisions: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Restore a workflow revision tool
+ */
+export const restoreWorkflowRevisionTool = {
+  name: 'restore_workflow_revision',
+  description: 'Restore a workflow to a saved revision. The current version is kept in the history, so the restore can itself be undone.',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    revision_id: z.string().describe('Revision to restore'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; revision_id: string } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.restoreRevision(args.workflow_name, args.revision_id);
+      if (!workflow) {
+        return `Error: Revision '${args.revision_id}' not found for workflow '${args.workflow_name}'`;
+      }
+
+      return `Workflow '${args.workflow_name}' restored to revision ${args.revision_id}\n\n` +
+        `Nodes: ${workflow.nodes.length}\n` +
+        `Connections: ${countConnections(workflow.connections)}`;
+    } catch (error) {
+      return `Failed to restore workflow revision: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Undo the last change to a workflow tool
+ */
+export const undoLastChangeTool = {
+  name: 'undo_last_change',
+  description: 'Undo the most recent change to a workflow by restoring the revision saved before it. Repeated calls step further back.',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const current = await workspaceService.loadWorkflow(args.workflow_name);
+      const result = await workspaceService.undoLastChange(args.workflow_name);
+      if (!result) {
+        return `Error: No revisions to undo for workflow '${args.workflow_name}'`;
+      }
+
+      const changes = current
+        ? formatWorkflowDiff(diffWorkflows(current, result.workflow))
+        : 'Workflow restored after deletion';
+      return `Undid the last change to '${args.workflow_name}' (restored revision ${result.revisionId})\n\n${changes}`;
+    } catch (error) {
+      return `Failed to undo last change: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
@@ -0,0 +1,489 @@
+import { z } from 'zod';
+import { getN8nApiClient, formatN8nApiError } from '../services/n8n-api-client.js';
+import { normalizeTags } from '../lib/workflow-utils.js';
+import { ExecutionStatus, Tag, Workflow, WorkflowConnection, WorkflowNode, WorkflowSettings } from '../types/n8n-api.js';
+
+/**
+ * Format a workflow summary line
+ */
+function formatWorkflowSummary(workflow: Workflow, index: number): string {
+  return `${index + 1}. ${workflow.name} (ID: ${workflow.id})\n` +
+    `   Active: ${workflow.active ?? false}\n` +
+    `   Nodes: ${workflow.nodes?.length ?? 0}\n` +
+    `   Updated: ${workflow.updatedAt || 'unknown'}`;
+}
+
+/**
+ * List workflows on the n8n instance tool
+ */
+export const n8nListWorkflowsTool = {
+  name: 'n8n_list_workflows',
+  description: 'List workflows on the connected n8n instance',
+  parameters: z.object({
+    limit: z.number().min(1).max(250).optional().default(50).describe('Maximum number of workflows to return'),
+    offset: z.number().min(0).optional().describe('Number of workflows to skip'),
+    active: z.boolean().optional().describe('Only return active or inactive workflows'),
+    tags: z.array(z.string()).optional().describe('Only return workflows with these tags'),
+  }),
+  execute: async (args: { limit?: number; offset?: number; active?: boolean; tags?: string[] }) => {
+    try {
+      const result = await getN8nApiClient().listWorkflows({
+        limit: args.limit,
+        offset: args.offset,
+        active: args.active,
+        tags: args.tags,
+      });
+
+      if (result.data.length === 0) {
+        return 'No workflows found on the n8n instance';
+      }
+
+      return `Found ${result.data.length} workflows on the n8n instance:\n\n` +
+        `${result.data.map(formatWorkflowSummary).join('\n\n')}\n\n` +
+        `Total: ${result.total ?? result.data.length}`;
+    } catch (error) {
+      return `Failed to list n8n workflows: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Get a workflow from the n8n instance tool
+ */
+export const n8nGetWorkflowTool = {
+  name: 'n8n_get_workflow',
+  description: 'Get a workflow from the connected n8n instance by ID',
+  parameters: z.object({
+    workflow_id: z.string().describe('ID of the workflow on the n8n instance'),
+    include_json: z.boolean().optional().default(false).describe('Whether to include the full workflow JSON'),
+  }),
+  execute: async (args: { workflow_id: string; include_json?: boolean }) => {
+    try {
+      const workflow = await getN8nApiClient().getWorkflow(args.workflow_id);
+
+      let response = `Workflow '${workflow.name}' (ID: ${workflow.id}):\n\n` +
+        `Active: ${workflow.active ?? false}\n` +
+        `Version ID: ${workflow.versionId || 'unknown'}\n` +
+        `Tags: ${workflow.tags?.length ? workflow.tags.map(tag => typeof tag === 'string' ? tag : (tag as { name: string }).name).join(', ') : 'None'}\n` +
+        `Created: ${workflow.createdAt || 'unknown'}\n` +
+        `Updated: ${workflow.updatedAt || 'unknown'}\n\n` +
+        `Nodes (${workflow.nodes.length}):\n${workflow.nodes.map(node => `- ${node.name} (${node.type})`).join('\n')}`;
+
+      if (args.include_json) {
+        response += `\n\nWorkflow JSON:\n\`\`\`json\n${JSON.stringify(workflow, null, 2)}\n\`\`\``;
+      }
+
+      return response;
+    } catch (error) {
+      return `Failed to get n8n workflow: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Create a workflow on the n8n instance tool
+ */
+export const n8nCreateWorkflowTool = {
+  name: 'n8n_create_workflow',
+  description: 'Create a workflow on the connected n8n instance',
+  parameters: z.object({
+    name: z.string().describe('Name of the workflow'),
+    nodes: z.array(z.record(z.string(), z.any())).optional().default([]).describe('Workflow nodes in n8n JSON format'),
+    connections: z.record(z.string(), z.any()).optional().default({}).describe('Workflow connections in n8n JSON format'),
+    settings: z.record(z.string(), z.any()).optional().describe('Workflow settings'),
+  }),
+  execute: async (args: {
+    name: string;
+    nodes?: Record<string, any>[];
+    connections?: Record<string, any>;
+    settings?: Record<string, any>;
+  }) => {
+    try {
+      const workflow = await getN8nApiClient().createWorkflow({
+        name: args.name,
+        nodes: (args.nodes || []) as WorkflowNode[],
+        connections: (args.connections || {}) as WorkflowConnection,
+        settings: (args.settings || { executionOrder: 'v1' }) as WorkflowSettings,
+      });
+
+      return `Workflow '${workflow.name}' created on the n8n instance.\n\nWorkflow ID: ${workflow.id}\nActive: ${workflow.active ?? false}\nNodes: ${workflow.nodes.length}`;
+    } catch (error) {
+      return `Failed to create n8n workflow: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Update a workflow on the n8n instance tool
+ */
+export const n8nUpdateWorkflowTool = {
+  name: 'n8n_update_workflow',
+  description: 'Update a workflow on the connected n8n instance. Omitted fields keep their current values.',
+  parameters: z.object({
+    workflow_id: z.string().describe('ID of the workflow on the n8n instance'),
+    name: z.string().optional().describe('New name of the workflow'),
+    nodes: z.array(z.record(z.string(), z.any())).optional().describe('Replacement workflow nodes in n8n JSON format'),
+    connections: z.record(z.string(), z.any()).optional().describe('Replacement workflow connections in n8n JSON format'),
+    settings: z.record(z.string(), z.any()).optional().describe('Replacement workflow settings'),
+  }),
+  execute: async (args: {
+    workflow_id: string;
+    name?: string;
+    nodes?: Record<string, any>[];
+    connections?: Record<string, any>;
+    settings?: Record<string, any>;
+  }) => {
+    try {
+      const client = getN8nApiClient();
+
+      // The API replaces the whole workflow, so fill in anything not supplied
+      const current = await client.getWorkflow(args.workflow_id);
+      const workflow = await client.updateWorkflow(args.workflow_id, {
+        name: args.name ?? current.name,
+        nodes: (args.nodes ?? current.nodes) as WorkflowNode[],
+        connections: (args.connections ?? current.connections) as WorkflowConnection,
+        settings: (args.settings ?? current.settings ?? {}) as WorkflowSettings,
+      });
+
+      return `Workflow '${workflow.name}' (ID: ${workflow.id}) updated on the n8n instance.\n\nNodes: ${workflow.nodes.length}\nVersion ID: ${workflow.versionId || 'unknown'}`;
+    } catch (error) {
+      return `Failed to update n8n workflow: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Activate a workflow on the n8n instance tool
+ */
+export const n8nActivateWorkflowTool = {
+  name: 'n8n_activate_workflow',
+  description: 'Activate a workflow on the connected n8n instance',
+  parameters: z.object({
+    workflow_id: z.string().describe('ID of the workflow on the n8n instance'),
+  }),
+  execute: async (args: { workflow_id: string }) => {
+    try {
+      const workflow = await getN8nApiClient().activateWorkflow(args.workflow_id);
+      return `Workflow '${workflow.name}' (ID: ${workflow.id}) activated`;
+    } catch (error) {
+      return `Failed to activate n8n workflow: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Deactivate a workflow on the n8n instance tool
+ */
+export const n8nDeactivateWorkflowTool = {
+  name: 'n8n_deactivate_workflow',
+  description: 'Deactivate a workflow on the connected n8n instance',
+  parameters: z.object({
+    workflow_id: z.string().describe('ID of the workflow on the n8n instance'),
+  }),
+  execute: async (args: { workflow_id: string }) => {
+    try {
+      const workflow = await getN8nApiClient().deactivateWorkflow(args.workflow_id);
+      return `Workflow '${workflow.name}' (ID: ${workflow.id}) deactivated`;
+    } catch (error) {
+      return `Failed to deactivate n8n workflow: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * List executions on the n8n instance tool
+ */
+export const n8nListExecutionsTool = {
+  name: 'n8n_list_executions',
+  description: 'List workflow executions on the connected n8n instance',
+  parameters: z.object({
+    workflow_id: z.string().optional().describe('Only return executions of this workflow'),
+    status: z.enum(['success', 'error', 'waiting']).optional().describe('Only return executions with this status'),
+    limit: z.number().min(1).max(250).optional().default(20).describe('Maximum number of executions to return'),
+    offset: z.number().min(0).optional().describe('Number of executions to skip'),
+  }),
+  execute: async (args: { workflow_id?: string; status?: 'success' | 'error' | 'waiting'; limit?: number; offset?: number }) => {
+    try {
+      const result = await getN8nApiClient().listExecutions({
+        workflowId: args.workflow_id,
+        status: args.status as ExecutionStatus | undefined,
+        limit: args.limit,
+        offset: args.offset,
+      });
+
+      if (result.data.length === 0) {
+        return 'No executions found on the n8n instance';
+      }
+
+      const executionList = result.data.map((execution, index) =>
+        `${index + 1}. Execution ${execution.id}\n` +
+        `   Workflow: ${execution.workflowName || execution.workflowId}\n` +
+        `   Status: ${execution.status}\n` +
+        `   Mode: ${execution.mode}\n` +
+        `   Started: ${execution.startedAt}\n` +
+        `   Stopped: ${execution.stoppedAt || 'still running'}`
+      ).join('\n\n');
+
+      return `Found ${result.data.length} executions:\n\n${executionList}\n\nTotal: ${result.total ?? result.data.length}`;
+    } catch (error) {
+      return `Failed to list n8n executions: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Get an execution from the n8n instance tool
+ */
+export const n8nGetExecutionTool = {
+  name: 'n8n_get_execution',
+  description: 'Get details of a workflow execution on the connected n8n instance',
+  parameters: z.object({
+    execution_id: z.string().describe('ID of the execution'),
+    include_data: z.boolean().optional().default(false).describe('Whether to include the execution run data'),
+  }),
+  execute: async (args: { execution_id: string; include_data?: boolean }) => {
+    try {
+      const execution = await getN8nApiClient().getExecution(args.execution_id, args.include_data || false);
+
+      let response = `Execution ${execution.id}:\n\n` +
+        `Workflow: ${execution.workflowName || execution.workflowId}\n` +
+        `Status: ${execution.status}\n` +
+        `Finished: ${execution.finished}\n` +
+        `Mode: ${execution.mode}\n` +
+        `Started: ${execution.startedAt}\n` +
+        `Stopped: ${execution.stoppedAt || 'still running'}`;
+
+      if (execution.data?.resultData?.lastNodeExecuted) {
+        response += `\nLast Node Executed: ${execution.data.resultData.lastNodeExecuted}`;
+      }
+
+      if (args.include_data && execution.data) {
+        response += `\n\nExecution Data:\n\`\`\`json\n${JSON.stringify(execution.data, null, 2)}\n\`\`\``;
+      }
+
+      return response;
+    } catch (error) {
+      return `Failed to get n8n execution: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Delete an execution from the n8n instance tool
+ */
+export const n8nDeleteExecutionTool = {
+  name: 'n8n_delete_execution',
+  description: 'Delete a workflow execution from the connected n8n instance',
+  parameters: z.object({
+    execution_id: z.string().describe('ID of the execution to delete'),
+  }),
+  execute: async (args: { execution_id: string }) => {
+    try {
+      await getN8nApiClient().deleteExecution(args.execution_id);
+      return `Execution ${args.execution_id} deleted`;
+    } catch (error) {
+      return `Failed to delete n8n execution: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * List credentials on the n8n instance tool
+ */
+export const n8nListCredentialsTool = {
+  name: 'n8n_list_credentials',
+  description: 'List credentials (names and types only) on the connected n8n instance',
+  parameters: z.object({
+    limit: z.number().min(1).max(250).optional().default(50).describe('Maximum number of credentials to return'),
+    offset: z.number().min(0).optional().describe('Number of credentials to skip'),
+  }),
+  execute: async (args: { limit?: number; offset?: number }) => {
+    try {
+      const result = await getN8nApiClient().listCredentials({ limit: args.limit, offset: args.offset });
+
+      if (result.data.length === 0) {
+        return 'No credentials found on the n8n instance';
+      }
+
+      const credentialList = result.data.map((credential, index) =>
+        `${index + 1}. ${credential.name} (ID: ${credential.id})\n   Type: ${credential.type}`
+      ).join('\n\n');
+
+      return `Found ${result.data.length} credentials:\n\n${credentialList}\n\nTotal: ${result.total ?? result.data.length}`;
+    } catch (error) {
+      return `Failed to list n8n credentials: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * List tags on the n8n instance tool
+ */
+export const n8nListTagsTool = {
+  name: 'n8n_list_tags',
+  description: 'List tags on the connected n8n instance',
+  parameters: z.object({
+    limit: z.number().min(1).max(250).optional().default(100).describe('Maximum number of tags to return'),
+    cursor: z.string().optional().describe('Cursor from the previous page (Next Cursor)'),
+  }),
+  execute: async (args: { limit?: number; cursor?: string }) => {
+    try {
+      const result = await getN8nApiClient().listTags({ limit: args.limit, cursor: args.cursor });
+
+      if (result.data.length === 0) {
+        return 'No tags found on the n8n instance';
+      }
+
+      return `Found ${result.data.length} tags:\n\n${result.data.map((tag, index) => `${index + 1}. ${tag.name} (ID: ${tag.id})`).join('\n')}\n\nNext Cursor: ${result.nextCursor || 'None'}`;
+    } catch (error) {
+      return `Failed to list n8n tags: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Create a tag on the n8n instance tool
+ */
+export const n8nCreateTagTool = {
+  name: 'n8n_create_tag',
+  description: 'Create a tag on the connected n8n instance',
+  parameters: z.object({
+    name: z.string().min(1).describe('Name of the tag'),
+  }),
+  execute: async (args: { name: string }) => {
+    try {
+      const tag = await getN8nApiClient().createTag(args.name.trim());
+      return `Tag '${tag.name}' created on the n8n instance (ID: ${tag.id})`;
+    } catch (error) {
+      return `Failed to create n8n tag: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Rename a tag on the n8n instance tool
+ */
+export const n8nUpdateTagTool = {
+  name: 'n8n_update_tag',
+  description: 'Rename a tag on the connected n8n instance',
+  parameters: z.object({
+    tag_id: z.string().describe('ID of the tag on the n8n instance'),
+    name: z.string().min(1).describe('New name of the tag'),
+  }),
+  execute: async (args: { tag_id: string; name: string }) => {
+    try {
+      const tag = await getN8nApiClient().updateTag(args.tag_id, args.name.trim());
+      return `Tag ${tag.id} renamed to '${tag.name}' on the n8n instance`;
+    } catch (error) {
+      return `Failed to update n8n tag: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Delete a tag on the n8n instance tool
+ */
+export const n8nDeleteTagTool = {
+  name: 'n8n_delete_tag',
+  description: 'Delete a tag on the connected n8n instance; it is removed from all workflows',
+  parameters: z.object({
+    tag_id: z.string().describe('ID of the tag on the n8n instance'),
+  }),
+  execute: async (args: { tag_id: string }) => {
+    try {
+      await getN8nApiClient().deleteTag(args.tag_id);
+      return `Tag ${args.tag_id} deleted from the n8n instance`;
+    } catch (error) {
+      return `Failed to delete n8n tag: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Update the tags of a workflow on the n8n instance tool
+ */
+export const n8nUpdateWorkflowTagsTool = {
+  name: 'n8n_update_workflow_tags',
+  description: 'Add, remove or replace the tags of a workflow on the connected n8n instance, by tag name',
+  parameters: z.object({
+    workflow_id: z.string().describe('ID of the workflow on the n8n instance'),
+    add: z.array(z.string()).optional().describe('Tag names to add'),
+    remove: z.array(z.string()).optional().describe('Tag names to remove'),
+    set: z.array(z.string()).optional().describe('Replace all tags with these names (applied before add and remove)'),
+    create_missing: z.boolean().optional().default(true).describe('Create tags that do not exist on the instance yet'),
+  }),
+  execute: async (args: { workflow_id: string; add?: string[]; remove?: string[]; set?: string[]; create_missing?: boolean }) => {
+    try {
+      if (!args.add && !args.remove && !args.set) {
+        return 'Error: Provide tags to add, remove or set';
+      }
+
+      const client = getN8nApiClient();
+      const current = args.set ? [] : (await client.getWorkflowTags(args.workflow_id)).map(tag => tag.name);
+      const remove = new Set(normalizeTags(args.remove || []).map(tag => tag.toLowerCase()));
+      const names = normalizeTags([...(args.set || current), ...(args.add || [])])
+        .filter(name => !remove.has(name.toLowerCase()));
+
+      const existing = new Map<string, Tag>();
+      for (const tag of await listAllTags()) {
+        existing.set(tag.name.toLowerCase(), tag);
+      }
+
+      const missing = names.filter(name => !existing.has(name.toLowerCase()));
+      if (missing.length > 0 && args.create_missing === false) {
+        return `Error: Tags not found on the n8n instance: ${missing.join(', ')}`;
+      }
+      for (const name of missing) {
+        existing.set(name.toLowerCase(), await client.createTag(name));
+      }
+
+      const tags = await client.updateWorkflowTags(args.workflow_id, names.map(name => existing.get(name.toLowerCase())!.id));
+      return `Tags of workflow ${args.workflow_id}: ${tags.map(tag => tag.name).join(', ') || 'none'}` +
+        (missing.length > 0 ? `\nCreated tags: ${missing.join(', ')}` : '');
+    } catch (error) {
+      return `Failed to update n8n workflow tags: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+// Page size and page limit used when reading every tag from the n8n instance
+const TAG_PAGE_SIZE = 250;
+const MAX_TAG_PAGES = 100;
+
+/**
+ * Fetch every tag of the n8n instance, following the page cursors
+ */
+async function listAllTags(): Promise<Tag[]> {
+  const client = getN8nApiClient();
+  const tags: Tag[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_TAG_PAGES; page++) {
+    const result = await client.listTags({ limit: TAG_PAGE_SIZE, cursor });
+    tags.push(...result.data);
+    if (!result.nextCursor) {
+      return tags;
+    }
+    cursor = result.nextCursor;
+  }
+  throw new Error(`The n8n instance has more than ${MAX_TAG_PAGES * TAG_PAGE_SIZE} tags`);
+}
+
+// Export all n8n API tools
+export const n8nApiTools = [
+  n8nListWorkflowsTool,
+  n8nGetWorkflowTool,
+  n8nCreateWorkflowTool,
+  n8nUpdateWorkflowTool,
+  n8nActivateWorkflowTool,
+  n8nDeactivateWorkflowTool,
+  n8nListExecutionsTool,
+  n8nGetExecutionTool,
+  n8nDeleteExecutionTool,
+  n8nListCredentialsTool,
+  n8nListTagsTool,
+  n8nCreateTagTool,
+  n8nUpdateTagTool,
+  n8nDeleteTagTool,
+  n8nUpdateWorkflowTagsTool,
+];
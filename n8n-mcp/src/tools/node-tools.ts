@@ -1,10 +1,17 @@
 import { z } from 'zod';
-import { WorkflowService } from '../services/workflow-service.js';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
 import { NodeDiscoveryService } from '../services/node-discovery-service.js';
-import { createWorkflowNode, addNodeToWorkflow, removeNodeFromWorkflow, updateNodeInWorkflow, findNodeById } from '../lib/workflow-utils.js';
+import { NodeParameterValidator } from '../services/node-parameter-validator.js';
+import { getDefaultCatalogSources } from '../services/node-catalog.js';
+import { NodeCatalogImporter, NodeTypesDump } from '../services/node-catalog-importer.js';
+import { getN8nApiConfig } from '../config/n8n-api.js';
+import { createWorkflowNode, addNodeToWorkflow, addConnectionToWorkflow, removeNodeFromWorkflow, updateNodeInWorkflow, findNodeById, findNodeByName, getUniqueNodeName, resolveNodeReference } from '../lib/workflow-utils.js';
+import { placeNodes } from '../lib/workflow-layout.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
 
-const workflowService = new WorkflowService();
-const nodeDiscoveryService = new NodeDiscoveryService();
+const { store: catalogStore, sources: catalogSources } = getDefaultCatalogSources();
+const nodeDiscoveryService = new NodeDiscoveryService(catalogSources);
+const nodeParameterValidator = new NodeParameterValidator(nodeDiscoveryService);
 
 /**
  * Add a node to a workflow tool
@@ -15,14 +22,14 @@ export const addNodeTool = {
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
     node_type: z.string().describe('Type of the node to add'),
-    position: z.tuple([z.number(), z.number()]).optional().describe('Position of the node [x, y]'),
+    position: z.tuple([z.number(), z.number()]).optional().describe('Position of the node [x, y]. When omitted, the node is placed next to the nodes it connects to.'),
     parameters: z.record(z.string(), z.any()).optional().describe('Node parameters'),
     node_name: z.string().optional().describe('Custom name for the node'),
     typeVersion: z.number().optional().describe('Type version of the node'),
     webhookId: z.string().optional().describe('Webhook ID for webhook nodes'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
-    connect_from: z.string().optional().describe('Node ID to connect from'),
-    connect_to: z.string().optional().describe('Node ID to connect to'),
+    ...workspaceParams,
+    connect_from: z.string().optional().describe("ID or name of the node to connect from (its first 'main' output to the new node)"),
+    connect_to: z.string().optional().describe("ID or name of the node to connect to (the new node's first 'main' output to it)"),
   }),
   execute: async (args: {
     workflow_name: string;
@@ -32,13 +39,14 @@ export const addNodeTool = {
     node_name?: string;
     typeVersion?: number;
     webhookId?: string;
-    workflow_path?: string;
     connect_from?: string;
     connect_to?: string;
-  }) => {
+  } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+
       // Load the workflow
-      const workflow = await workflowService.loadWorkflow(args.workflow_name);
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
       if (!workflow) {
         return `Error: Workflow '${args.workflow_name}' not found`;
       }
@@ -49,11 +57,27 @@ export const addNodeTool = {
         return `Error: Node type '${args.node_type}' not found or not supported`;
       }
 
+      // Node names key the workflow's connections, so they must be unique
+      if (args.node_name && findNodeByName(workflow, args.node_name)) {
+        return `Error: A node named '${args.node_name}' already exists in workflow '${args.workflow_name}'`;
+      }
+
+      const connectFromRef = args.connect_from ? resolveNodeReference(workflow, args.connect_from) : undefined;
+      if (connectFromRef?.error) {
+        return `Error: connect_from: ${connectFromRef.error}`;
+      }
+      const connectToRef = args.connect_to ? resolveNodeReference(workflow, args.connect_to) : undefined;
+      if (connectToRef?.error) {
+        return `Error: connect_to: ${connectToRef.error}`;
+      }
+      const connectFrom = connectFromRef?.node;
+      const connectTo = connectToRef?.node;
+
       // Create the node
       const node = createWorkflowNode(
         args.node_type,
-        args.node_name || nodeDef.displayName,
-        args.position || [100, 100],
+        args.node_name || getUniqueNodeName(workflow, nodeDef.displayName),
+        args.position || [0, 0],
         args.parameters || {},
         args.typeVersion || nodeDef.version
       );
@@ -64,12 +88,24 @@ export const addNodeTool = {
       }
 
       // Add the node to the workflow
-      const updatedWorkflow = addNodeToWorkflow(workflow, node);
+      let updatedWorkflow = addNodeToWorkflow(workflow, node);
+      if (connectFrom) {
+        updatedWorkflow = addConnectionToWorkflow(updatedWorkflow, connectFrom.name, 'main', node.name, 'main', 0);
+      }
+      if (connectTo) {
+        updatedWorkflow = addConnectionToWorkflow(updatedWorkflow, node.name, 'main', connectTo.name, 'main', 0);
+      }
+
+      // Without explicit coordinates, place the node next to its neighbours; other nodes stay put
+      if (!args.position) {
+        updatedWorkflow = placeNodes(updatedWorkflow, [node.id]);
+      }
 
       // Save the updated workflow
-      await workflowService.saveWorkflow(updatedWorkflow);
+      await workspaceService.saveWorkflow(updatedWorkflow);
 
-      return `Node '${node.name}' (${args.node_type}) added to workflow '${args.workflow_name}'\n\nNode ID: ${node.id}\nPosition: [${node.position[0]}, ${node.position[1]}]\nType Version: ${node.typeVersion}`;
+      const position = findNodeById(updatedWorkflow, node.id)!.position;
+      return `Node '${node.name}' (${args.node_type}) added to workflow '${args.workflow_name}'\n\nNode ID: ${node.id}\nPosition: [${position[0]}, ${position[1]}]${args.position ? '' : ' (auto layout)'}\nType Version: ${node.typeVersion}`;
     } catch (error) {
       return `Failed to add node: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
@@ -84,16 +120,16 @@ export const editNodeTool = {
   description: 'Edit an existing node in a workflow',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
-    node_id: z.string().describe('ID of the node to edit'),
+    node_id: z.string().describe('ID or name of the node to edit (names match case-insensitively when unambiguous)'),
     node_type: z.string().optional().describe('New type of the node'),
     node_name: z.string().optional().describe('New name for the node'),
     position: z.tuple([z.number(), z.number()]).optional().describe('New position of the node [x, y]'),
     parameters: z.record(z.string(), z.any()).optional().describe('New node parameters'),
     typeVersion: z.number().optional().describe('New type version of the node'),
     webhookId: z.string().optional().describe('New webhook ID for webhook nodes'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
-    connect_from: z.string().optional().describe('Node ID to connect from'),
-    connect_to: z.string().optional().describe('Node ID to connect to'),
+    ...workspaceParams,
+    connect_from: z.string().optional().describe("ID or name of a node to connect from (its first 'main' output to the edited node)"),
+    connect_to: z.string().optional().describe("ID or name of a node to connect to (the edited node's first 'main' output to it)"),
   }),
   execute: async (args: {
     workflow_name: string;
@@ -104,21 +140,37 @@ export const editNodeTool = {
     parameters?: Record<string, any>;
     typeVersion?: number;
     webhookId?: string;
-    workflow_path?: string;
     connect_from?: string;
     connect_to?: string;
-  }) => {
+  } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+
       // Load the workflow
-      const workflow = await workflowService.loadWorkflow(args.workflow_name);
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
       if (!workflow) {
         return `Error: Workflow '${args.workflow_name}' not found`;
       }
 
       // Find the node
-      const existingNode = findNodeById(workflow, args.node_id);
-      if (!existingNode) {
-        return `Error: Node with ID '${args.node_id}' not found in workflow`;
+      const reference = resolveNodeReference(workflow, args.node_id);
+      if (reference.error) {
+        return `Error: ${reference.error}`;
+      }
+      const existingNode = reference.node!;
+
+      // Node names key the workflow's connections, so they must be unique
+      if (args.node_name !== undefined && args.node_name !== existingNode.name && findNodeByName(workflow, args.node_name)) {
+        return `Error: A node named '${args.node_name}' already exists in workflow '${args.workflow_name}'`;
+      }
+
+      const connectFromRef = args.connect_from ? resolveNodeReference(workflow, args.connect_from) : undefined;
+      if (connectFromRef?.error) {
+        return `Error: connect_from: ${connectFromRef.error}`;
+      }
+      const connectToRef = args.connect_to ? resolveNodeReference(workflow, args.connect_to) : undefined;
+      if (connectToRef?.error) {
+        return `Error: connect_to: ${connectToRef.error}`;
       }
 
       // Validate node type if changing
@@ -138,14 +190,25 @@ export const editNodeTool = {
       if (args.webhookId !== undefined) updates.webhookId = args.webhookId;
       if (args.node_type !== undefined) updates.type = args.node_type;
 
-      // Update the node
-      const updatedWorkflow = updateNodeInWorkflow(workflow, args.node_id, updates);
+      // Update the node, then connect it under its (possibly new) name
+      let updatedWorkflow = updateNodeInWorkflow(workflow, existingNode.id, updates);
+      const updatedNode = findNodeById(updatedWorkflow, existingNode.id)!;
+      const connected: string[] = [];
+      if (connectFromRef?.node) {
+        const source = findNodeById(updatedWorkflow, connectFromRef.node.id)!;
+        updatedWorkflow = addConnectionToWorkflow(updatedWorkflow, source.name, 'main', updatedNode.name, 'main', 0);
+        connected.push(`${source.name} -> ${updatedNode.name}`);
+      }
+      if (connectToRef?.node) {
+        const target = findNodeById(updatedWorkflow, connectToRef.node.id)!;
+        updatedWorkflow = addConnectionToWorkflow(updatedWorkflow, updatedNode.name, 'main', target.name, 'main', 0);
+        connected.push(`${updatedNode.name} -> ${target.name}`);
+      }
 
       // Save the updated workflow
-      await workflowService.saveWorkflow(updatedWorkflow);
+      await workspaceService.saveWorkflow(updatedWorkflow);
 
-      const updatedNode = findNodeById(updatedWorkflow, args.node_id);
-      return `Node '${args.node_id}' updated in workflow '${args.workflow_name}'\n\nUpdated Node:\nName: ${updatedNode?.name}\nType: ${updatedNode?.type}\nPosition: [${updatedNode?.position[0]}, ${updatedNode?.position[1]}]`;
+      return `Node '${existingNode.id}' updated in workflow '${args.workflow_name}'\n\nUpdated Node:\nName: ${updatedNode.name}\nType: ${updatedNode.type}\nPosition: [${updatedNode.position[0]}, ${updatedNode.position[1]}]${connected.length > 0 ? `\nConnected: ${connected.join(', ')}` : ''}`;
     } catch (error) {
       return `Failed to edit node: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
@@ -160,30 +223,33 @@ export const deleteNodeTool = {
   description: 'Delete a node from a workflow',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
-    node_id: z.string().describe('ID of the node to delete'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
+    node_id: z.string().describe('ID or name of the node to delete (names match case-insensitively when unambiguous)'),
+    ...workspaceParams,
   }),
-  execute: async (args: { workflow_name: string; node_id: string; workflow_path?: string }) => {
+  execute: async (args: { workflow_name: string; node_id: string } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+
       // Load the workflow
-      const workflow = await workflowService.loadWorkflow(args.workflow_name);
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
       if (!workflow) {
         return `Error: Workflow '${args.workflow_name}' not found`;
       }
 
       // Find the node
-      const existingNode = findNodeById(workflow, args.node_id);
-      if (!existingNode) {
-        return `Error: Node with ID '${args.node_id}' not found in workflow`;
+      const reference = resolveNodeReference(workflow, args.node_id);
+      if (reference.error) {
+        return `Error: ${reference.error}`;
       }
+      const existingNode = reference.node!;
 
       // Remove the node
-      const updatedWorkflow = removeNodeFromWorkflow(workflow, args.node_id);
+      const updatedWorkflow = removeNodeFromWorkflow(workflow, existingNode.id);
 
       // Save the updated workflow
-      await workflowService.saveWorkflow(updatedWorkflow);
+      await workspaceService.saveWorkflow(updatedWorkflow);
 
-      return `Node '${args.node_id}' (${existingNode.name}) deleted from workflow '${args.workflow_name}'`;
+      return `Node '${existingNode.id}' (${existingNode.name}) deleted from workflow '${args.workflow_name}'`;
     } catch (error) {
       return `Failed to delete node: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
@@ -195,14 +261,14 @@ export const deleteNodeTool = {
  */
 export const listAvailableNodesTool = {
   name: 'list_available_nodes',
-  description: 'List available n8n node types with optional filtering',
+  description: 'List available n8n node types, ranked by relevance to a search term (typo tolerant, understands synonyms like "email" or "db")',
   parameters: z.object({
-    search_term: z.string().optional().describe('Search term to filter nodes'),
+    search_term: z.string().optional().describe('Search term; results are ranked by relevance'),
     n8n_version: z.string().optional().describe('n8n version to use for node definitions'),
     limit: z.number().optional().default(50).describe('Maximum number of nodes to return'),
     cursor: z.string().optional().describe('Pagination cursor'),
-    tags: z.boolean().optional().default(true).describe('Include tags in search'),
-    token_logic: z.enum(['or', 'and']).optional().default('or').describe('Logic for combining search tokens'),
+    tags: z.boolean().optional().default(true).describe('Include tags (aliases and subcategories) in search'),
+    token_logic: z.enum(['or', 'and']).optional().default('or').describe('Match any search term (or) or require every term (and)'),
   }),
   execute: async (args: {
     search_term?: string;
@@ -222,9 +288,13 @@ export const listAvailableNodesTool = {
         token_logic: args.token_logic,
       });
 
-      const nodeList = result.nodes.map((node, index) => 
-        `${index + 1}. ${node.displayName} (${node.name})\n   Description: ${node.description}\n   Version: ${node.version}\n   Categories: ${node.codex?.categories?.join(', ') || 'None'}`
-      ).join('\n\n');
+      const ranked = Boolean(args.search_term?.trim());
+      const nodeList = result.results.map(({ node, score, matches }, index) => {
+        const matchInfo = matches.map(match => match.kind === 'exact' ? match.term : `${match.term} (${match.kind} of '${match.query}')`);
+        return `${index + 1}. ${node.displayName} (${node.name})` +
+          (ranked ? `\n   Score: ${score.toFixed(2)} - matched ${matchInfo.join(', ')}` : '') +
+          `\n   Description: ${node.description}\n   Version: ${node.version}\n   Categories: ${node.codex?.categories?.join(', ') || 'None'}`;
+      }).join('\n\n');
 
       return `Found ${result.total} nodes:\n\n${nodeList}\n\nTotal: ${result.total}\nHas More: ${result.hasMore}\nNext Cursor: ${result.nextCursor || 'None'}`;
     } catch (error) {
@@ -259,4 +329,113 @@ export const getN8nVersionInfoTool = {
       return `Failed to get n8n version info: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   },
-};
\ No newline at end of file
+};
+/**
+ * Validate node parameters against the node definition tool
+ */
+export const validateNodeParametersTool = {
+  name: 'validate_node_parameters',
+  description: 'Validate node parameters against the node type definition (required, types, option values, unknown parameters)',
+  parameters: z.object({
+    node_type: z.string().describe('Type of the node (e.g. n8n-nodes-base.slack)'),
+    parameters: z.record(z.string(), z.any()).describe('Node parameters to validate'),
+    typeVersion: z.number().optional().describe('Type version of the node'),
+    n8n_version: z.string().optional().describe('n8n version to use for node definitions'),
+  }),
+  execute: async (args: {
+    node_type: string;
+    parameters: Record<string, any>;
+    typeVersion?: number;
+    n8n_version?: string;
+  }) => {
+    try {
+      const result = await nodeParameterValidator.validateNodeParameters(
+        args.node_type,
+        args.parameters,
+        args.typeVersion,
+        args.n8n_version
+      );
+
+      let response = `Parameter validation for ${args.node_type}: ${result.isValid ? 'valid' : 'invalid'}`;
+      if (result.errors.length > 0) {
+        response += `\n\nErrors:\n${result.errors.map(issue => `- ${issue.message}`).join('\n')}`;
+      }
+      if (result.warnings.length > 0) {
+        response += `\n\nWarnings:\n${result.warnings.map(issue => `- ${issue.message}`).join('\n')}`;
+      }
+      return response;
+    } catch (error) {
+      return `Failed to validate node parameters: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Refresh node catalog tool
+ */
+export const refreshNodeCatalogTool = {
+  name: 'refresh_node_catalog',
+  description: 'Import node definitions for an n8n version from types/nodes.json dumps (files, directories or URLs) or from the configured n8n instance, and store them in the versioned node catalog. Without sources, rescans the catalog and shows what is available.',
+  parameters: z.object({
+    n8n_version: z.string().optional().describe('n8n version the definitions belong to, e.g. 1.110.1 (required when importing)'),
+    sources: z.array(z.object({
+      location: z.string().describe('Path to a nodes.json file, a directory containing one (e.g. node_modules/n8n-nodes-base/dist/types), or an http(s) URL'),
+      package_name: z.string().optional().describe('Prefix for node names without one (default n8n-nodes-base; use @n8n/n8n-nodes-langchain for the AI nodes)'),
+    })).optional().describe('nodes.json dumps to import'),
+    from_instance: z.boolean().optional().default(false).describe('Also download /types/nodes.json from the n8n instance set in N8N_API_URL'),
+    merge: z.boolean().optional().default(true).describe('Keep nodes already stored for this version that the dumps do not redefine'),
+  }),
+  execute: async (args: {
+    n8n_version?: string;
+    sources?: Array<{ location: string; package_name?: string }>;
+    from_instance?: boolean;
+    merge?: boolean;
+  }) => {
+    try {
+      const locations: Array<{ location: string; packageName?: string; headers?: Record<string, string> }> =
+        (args.sources || []).map(source => ({ location: source.location, packageName: source.package_name }));
+      if (args.from_instance) {
+        const apiConfig = getN8nApiConfig();
+        if (!apiConfig) {
+          return 'Error: from_instance needs N8N_API_URL and N8N_API_KEY to be set';
+        }
+        locations.push({
+          location: `${new URL(apiConfig.baseUrl).origin}/types/nodes.json`,
+          headers: { 'X-N8N-API-KEY': apiConfig.apiKey },
+        });
+      }
+
+      let response = '';
+      if (locations.length > 0) {
+        if (!args.n8n_version) {
+          return 'Error: n8n_version is required when importing node definitions';
+        }
+
+        const importer = new NodeCatalogImporter(catalogStore);
+        const dumps: NodeTypesDump[] = [];
+        for (const { location, packageName, headers } of locations) {
+          dumps.push(await importer.readDump(location, packageName, headers));
+        }
+
+        const result = await importer.importDumps(args.n8n_version, dumps, args.merge !== false);
+        response += `Imported ${result.imported} node types for n8n ${args.n8n_version}` +
+          `${result.replaced ? (args.merge !== false ? ' (merged into the existing catalog)' : ' (replacing the existing catalog)') : ''}\n` +
+          `Catalog now holds ${result.metadata.nodeCount} node types in ${catalogStore.location}\n` +
+          (result.skipped > 0 ? `Skipped ${result.skipped} entries that are not node type descriptions\n` : '') +
+          '\n';
+      }
+
+      nodeDiscoveryService.clearCache();
+      const sources = await nodeDiscoveryService.getCatalogSources();
+      const sourceList = sources.map(source =>
+        `- ${source.name} (${source.location}): ${source.versions.length > 0 ? source.versions.join(', ') : 'no versions'}`
+      ).join('\n');
+      const availableVersions = await nodeDiscoveryService.getAvailableVersions();
+
+      return `${response}Node catalog sources (searched in order):\n${sourceList}\n\n` +
+        `Latest available version: ${availableVersions[0] || 'None'}`;
+    } catch (error) {
+      return `Failed to refresh node catalog: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
+import { WorkflowSyncService, SyncStatus } from '../services/workflow-sync-service.js';
+import { getN8nApiClient, formatN8nApiError } from '../services/n8n-api-client.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
+
+/**
+ * Create a sync service for a workspace, bound to the configured n8n instance
+ */
+function getSyncService(args: WorkspaceArgs): WorkflowSyncService {
+  return new WorkflowSyncService(getWorkflowService(resolveWorkspace(args)), getN8nApiClient());
+}
+
+/**
+ * Format a sync status line
+ */
+function formatSyncStatus(status: SyncStatus, index: number): string {
+  let line = `${index + 1}. ${status.workflowName}: ${status.state}`;
+  if (status.remoteId) line += `\n   Remote ID: ${status.remoteId}`;
+  if (status.localUpdatedAt) line += `\n   Local Updated: ${status.localUpdatedAt}`;
+  if (status.remoteUpdatedAt) line += `\n   Remote Updated: ${status.remoteUpdatedAt}`;
+  if (status.lastSyncedAt) line += `\n   Last Synced: ${status.lastSyncedAt}`;
+  return line;
+}
+
+/**
+ * Push a local workflow to the n8n instance tool
+ */
+export const syncPushWorkflowTool = {
+  name: 'sync_push_workflow',
+  description: 'Push a local workflow file to the connected n8n instance, creating or updating the linked remote workflow',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the local workflow'),
+    force: z.boolean().optional().default(false).describe('Overwrite remote edits made since the last sync'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; force?: boolean } & WorkspaceArgs) => {
+    try {
+      const result = await getSyncService(args).push(args.workflow_name, args.force || false);
+      return result.success ? result.message : `Error: ${result.message}`;
+    } catch (error) {
+      return `Failed to push workflow: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Pull a workflow from the n8n instance tool
+ */
+export const syncPullWorkflowTool = {
+  name: 'sync_pull_workflow',
+  description: 'Pull a workflow from the connected n8n instance into a local workflow file',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the local workflow to write'),
+    remote_id: z.string().optional().describe('ID of the remote workflow (defaults to the linked remote workflow)'),
+    force: z.boolean().optional().default(false).describe('Overwrite local edits made since the last sync'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; remote_id?: string; force?: boolean } & WorkspaceArgs) => {
+    try {
+      const result = await getSyncService(args).pull(args.workflow_name, args.remote_id, args.force || false);
+      return result.success ? result.message : `Error: ${result.message}`;
+    } catch (error) {
+      return `Failed to pull workflow: ${formatN8nApiError(error)}`;
+    }
+  },
+};
+
+/**
+ * Show sync status of local workflows tool
+ */
+export const syncStatusTool = {
+  name: 'sync_status',
+  description: 'Show whether local workflows are in sync with their linked workflows on the n8n instance',
+  parameters: z.object({
+    workflow_name: z.string().optional().describe('Only show the status of this workflow'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name?: string } & WorkspaceArgs) => {
+    try {
+      const statuses = await getSyncService(args).status(args.workflow_name);
+
+      if (statuses.length === 0) {
+        return 'No local or tracked workflows found';
+      }
+
+      return `Sync status for ${statuses.length} workflows:\n\n${statuses.map(formatSyncStatus).join('\n\n')}`;
+    } catch (error) {
+      return `Failed to get sync status: ${formatN8nApiError(error)}`;
+    }
+  },
+};
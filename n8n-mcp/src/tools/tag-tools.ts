@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
+import { WorkflowTagService } from '../services/workflow-tag-service.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
+
+function getTagService(args: WorkspaceArgs): WorkflowTagService {
+  return new WorkflowTagService(getWorkflowService(resolveWorkspace(args)));
+}
+
+/**
+ * List local tags tool
+ */
+export const listTagsTool = {
+  name: 'list_tags',
+  description: 'List the tags used by local workflows, with the workflows carrying each tag',
+  parameters: z.object({
+    ...workspaceParams,
+  }),
+  execute: async (args: WorkspaceArgs) => {
+    try {
+      const tags = await getTagService(args).listTags();
+      if (tags.length === 0) {
+        return 'No tags found';
+      }
+
+      const tagList = tags.map((tag, index) =>
+        `${index + 1}. ${tag.name} (${tag.workflows.length} workflows)\n   ${tag.workflows.join(', ')}`
+      ).join('\n');
+
+      return `Found ${tags.length} tags:\n\n${tagList}`;
+    } catch (error) {
+      return `Failed to list tags: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Update the tags of a local workflow tool
+ */
+export const updateWorkflowTagsTool = {
+  name: 'update_workflow_tags',
+  description: 'Add, remove or replace the tags of a local workflow',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    add: z.array(z.string()).optional().describe('Tags to add'),
+    remove: z.array(z.string()).optional().describe('Tags to remove'),
+    set: z.array(z.string()).optional().describe('Replace all tags with these (applied before add and remove)'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; add?: string[]; remove?: string[]; set?: string[] } & WorkspaceArgs) => {
+    try {
+      if (!args.add && !args.remove && !args.set) {
+        return 'Error: Provide tags to add, remove or set';
+      }
+
+      const tags = await getTagService(args).updateWorkflowTags(args.workflow_name, {
+        add: args.add,
+        remove: args.remove,
+        set: args.set,
+      });
+      if (!tags) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      return `Tags of '${args.workflow_name}': ${tags.join(', ') || 'none'}`;
+    } catch (error) {
+      return `Failed to update workflow tags: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Rename a local tag tool
+ */
+export const renameTagTool = {
+  name: 'rename_tag',
+  description: 'Rename a tag on every local workflow carrying it; merges into the new tag if it is already used',
+  parameters: z.object({
+    tag: z.string().describe('Current tag name (case-insensitive)'),
+    new_name: z.string().describe('New tag name'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { tag: string; new_name: string } & WorkspaceArgs) => {
+    try {
+      const changed = await getTagService(args).renameTag(args.tag, args.new_name);
+      if (changed.length === 0) {
+        return `Error: No workflow is tagged '${args.tag}'`;
+      }
+
+      return `Renamed tag '${args.tag}' to '${args.new_name}' on ${changed.length} workflows:\n${changed.map(name => `- ${name}`).join('\n')}`;
+    } catch (error) {
+      return `Failed to rename tag: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Delete a local tag tool
+ */
+export const deleteTagTool = {
+  name: 'delete_tag',
+  description: 'Remove a tag from every local workflow carrying it',
+  parameters: z.object({
+    tag: z.string().describe('Tag name (case-insensitive)'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { tag: string } & WorkspaceArgs) => {
+    try {
+      const changed = await getTagService(args).deleteTag(args.tag);
+      if (changed.length === 0) {
+        return `Error: No workflow is tagged '${args.tag}'`;
+      }
+
+      return `Removed tag '${args.tag}' from ${changed.length} workflows:\n${changed.map(name => `- ${name}`).join('\n')}`;
+    } catch (error) {
+      return `Failed to delete tag: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
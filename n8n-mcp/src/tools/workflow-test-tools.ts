@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { getWorkflowService, resolveWorkspace } from '../services/workflow-service.js';
+import { WorkflowSyncService } from '../services/workflow-sync-service.js';
+import { WorkflowTestRunner, WorkflowTestClient, WorkflowTestResult } from '../services/workflow-test-runner.js';
+import { MockN8nApiClient } from '../services/mock-n8n-client.js';
+import { getN8nApiClient, formatN8nApiError } from '../services/n8n-api-client.js';
+import { isN8nApiConfigured } from '../config/n8n-api.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
+
+
+/**
+ * Format a workflow test result
+ */
+function formatTestResult(workflowName: string, result: WorkflowTestResult, mock: boolean): string {
+  let response = `Workflow test for '${workflowName}': ${result.passed ? '✅ PASSED' : '❌ FAILED'}\n\n`;
+  response += `Instance: ${mock ? 'mock' : 'n8n API'}\n`;
+  response += `Execution ID: ${result.executionId || 'none'}\n`;
+  response += `Status: ${result.status || 'unknown'}\n`;
+  response += `Duration: ${result.durationMs}ms\n`;
+
+  if (result.error) {
+    response += `Error: ${result.error}\n`;
+  }
+
+  if (result.assertions.length === 0) {
+    response += `\nNo node outputs were asserted. Add pinData to the workflow or pass expected_outputs.`;
+    return response;
+  }
+
+  response += `\nNode Assertions:\n`;
+  result.assertions.forEach(assertion => {
+    response += `${assertion.passed ? '✅' : '❌'} ${assertion.nodeName} (${assertion.actualItems}/${assertion.expectedItems} items)\n`;
+    assertion.mismatches.forEach(mismatch => {
+      response += `   - ${mismatch}\n`;
+    });
+  });
+
+  return response;
+}
+
+/**
+ * Run a workflow test tool
+ */
+export const runWorkflowTestTool = {
+  name: 'run_workflow_test',
+  description: 'Trigger an active workflow through its production webhook with test input, wait for the execution and assert each node\'s output against pinned data or supplied expectations',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the local workflow under test'),
+    remote_workflow_id: z.string().optional().describe('ID of the deployed workflow (defaults to the workflow linked by sync_push_workflow)'),
+    input: z.any().optional().default({}).describe('Data sent to the webhook trigger'),
+    expected_outputs: z.record(z.string(), z.array(z.any())).optional().describe('Expected items per node name (defaults to the workflow\'s pinData; required with the mock instance)'),
+    match_mode: z.enum(['subset', 'exact']).optional().default('subset').describe('Whether actual items may contain fields that are not expected'),
+    timeout_ms: z.number().min(1000).optional().default(60000).describe('Maximum time to wait for the execution to finish'),
+    poll_interval_ms: z.number().min(100).optional().default(1000).describe('Interval between execution status checks'),
+    use_mock: z.boolean().optional().describe('Run against a mock n8n instance instead of the configured API (defaults to N8N_TEST_MOCK)'),
+    ...workspaceParams,
+  }),
+  execute: async (args: {
+    workflow_name: string;
+    remote_workflow_id?: string;
+    input?: unknown;
+    expected_outputs?: Record<string, unknown[]>;
+    match_mode?: 'subset' | 'exact';
+    timeout_ms?: number;
+    poll_interval_ms?: number;
+    use_mock?: boolean;
+  } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
+      if (!workflow) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      const useMock = args.use_mock ?? process.env.N8N_TEST_MOCK === 'true';
+      if (!useMock && !isN8nApiConfigured()) {
+        return 'Error: n8n API is not configured. Set N8N_API_URL and N8N_API_KEY, or run with use_mock.';
+      }
+
+      // The mock returns pinned data for pinned nodes, so pinData cannot also serve as the expectation
+      if (useMock && !args.expected_outputs) {
+        return 'Error: expected_outputs is required with the mock instance, which replays pinData as the output of pinned nodes.';
+      }
+
+      let client: WorkflowTestClient;
+      let remoteWorkflowId = args.remote_workflow_id;
+
+      if (useMock) {
+        client = new MockN8nApiClient(workflow);
+        remoteWorkflowId = workflow.id;
+      } else {
+        const apiClient = getN8nApiClient();
+        client = apiClient;
+
+        if (!remoteWorkflowId) {
+          const manifest = await new WorkflowSyncService(workspaceService, apiClient).loadManifest();
+          remoteWorkflowId = manifest.workflows[args.workflow_name]?.remoteId;
+        }
+        if (!remoteWorkflowId) {
+          return `Error: Workflow '${args.workflow_name}' is not deployed. Push it with sync_push_workflow or pass remote_workflow_id.`;
+        }
+      }
+
+      const result = await new WorkflowTestRunner(client).run({
+        workflow,
+        remoteWorkflowId: remoteWorkflowId!,
+        input: args.input ?? {},
+        expectedOutputs: args.expected_outputs,
+        matchMode: args.match_mode,
+        timeoutMs: args.timeout_ms,
+        pollIntervalMs: args.poll_interval_ms,
+      });
+
+      return formatTestResult(args.workflow_name, result, useMock);
+    } catch (error) {
+      return `Failed to run workflow test: ${formatN8nApiError(error)}`;
+    }
+  },
+};
@@ -1,8 +1,27 @@
 import { z } from 'zod';
-import { WorkflowService } from '../services/workflow-service.js';
-import { N8nWorkflow } from '../types.js';
+import { getWorkflowService, resolveWorkspace, WorkflowSortField } from '../services/workflow-service.js';
+import { N8nWorkflow, N8nNodeDefinition } from '../types.js';
+import { countConnections } from '../lib/workflow-utils.js';
+import { diffWorkflows, formatWorkflowDiff } from '../lib/workflow-diff.js';
+import { layoutWorkflow } from '../lib/workflow-layout.js';
+import { renderWorkflowDiagram } from '../lib/workflow-diagram.js';
+import { analyzeWorkflowExpressions } from '../lib/workflow-expressions.js';
+import { applyWorkflowOperations, ApplyOperationsResult, WorkflowOperation } from '../lib/workflow-operations.js';
+import { NodeDiscoveryService } from '../services/node-discovery-service.js';
+import { NodeParameterValidator, ParameterIssue } from '../services/node-parameter-validator.js';
+import { WorkflowCompatibilityChecker } from '../services/workflow-compatibility-checker.js';
+import { workspaceParams, WorkspaceArgs } from './workspace-params.js';
 
-const workflowService = new WorkflowService();
+const nodeDiscoveryService = new NodeDiscoveryService();
+const nodeParameterValidator = new NodeParameterValidator(nodeDiscoveryService);
+const compatibilityChecker = new WorkflowCompatibilityChecker(nodeDiscoveryService);
+
+/**
+ * Format a node parameter issue
+ */
+function formatParameterIssue(issue: ParameterIssue): string {
+  return `- ${issue.nodeName ? `[${issue.nodeName}] ` : ''}${issue.message}`;
+}
 
 /**
  * Create a new workflow tool
@@ -12,33 +31,37 @@ export const createWorkflowTool = {
   description: 'Create a new n8n workflow',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
-    workspace_dir: z.string().optional().describe('Workspace directory path'),
+    ...workspaceParams,
     description: z.string().optional().describe('Description of the workflow'),
     active: z.boolean().optional().default(false).describe('Whether the workflow should be active'),
     settings: z.record(z.string(), z.any()).optional().describe('Custom workflow settings'),
+    tags: z.array(z.string()).optional().describe('Tags to organise the workflow, e.g. owner or domain'),
   }),
   execute: async (args: {
     workflow_name: string;
-    workspace_dir?: string;
     description?: string;
     active?: boolean;
     settings?: Record<string, any>;
-  }) => {
+    tags?: string[];
+  } & WorkspaceArgs) => {
     try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+
       // Check if workflow already exists
-      const exists = await workflowService.workflowExists(args.workflow_name);
+      const exists = await workspaceService.workflowExists(args.workflow_name);
       if (exists) {
         return `Error: Workflow '${args.workflow_name}' already exists`;
       }
 
-      const workflow = await workflowService.createWorkflow(
+      const workflow = await workspaceService.createWorkflow(
         args.workflow_name,
         args.description,
         args.active || false,
-        args.settings || {}
+        args.settings || {},
+        args.tags || []
       );
 
-      return `Workflow '${args.workflow_name}' created successfully.\n\nWorkflow ID: ${workflow.id}\nActive: ${workflow.active}\nNodes: ${workflow.nodes.length}\nConnections: ${Object.keys(workflow.connections).length}`;
+      return `Workflow '${args.workflow_name}' created successfully.\n\nWorkflow ID: ${workflow.id}\nActive: ${workflow.active}\nTags: ${workflow.tags?.join(', ') || 'none'}\nNodes: ${workflow.nodes.length}\nConnections: ${countConnections(workflow.connections)}`;
     } catch (error) {
       return `Failed to create workflow: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
@@ -50,23 +73,52 @@ export const createWorkflowTool = {
  */
 export const listWorkflowsTool = {
   name: 'list_workflows',
-  description: 'List all workflows in the workspace',
+  description: 'List workflows in the workspace with a summary of each (node count, trigger, tags), filtered and sorted, with cursor pagination',
   parameters: z.object({
-    limit: z.number().optional().default(50).describe('Maximum number of workflows to return'),
-    cursor: z.string().optional().describe('Pagination cursor'),
+    limit: z.number().min(1).optional().default(50).describe('Maximum number of workflows to return'),
+    cursor: z.string().optional().describe('Cursor from the previous page (Next Cursor); keep the same filters and sort'),
+    ...workspaceParams,
+    search: z.string().optional().describe('Only return workflows whose name contains this text (case-insensitive)'),
+    tags: z.array(z.string()).optional().describe('Only return workflows with all of these tags'),
+    active: z.boolean().optional().describe('Only return active or inactive workflows'),
+    node_type: z.string().optional().describe("Only return workflows using this node type, e.g. 'n8n-nodes-base.slack' or 'slack'"),
+    sort_by: z.enum(['updatedAt', 'createdAt', 'name']).optional().default('updatedAt').describe('Field to sort by'),
+    order: z.enum(['asc', 'desc']).optional().describe('Sort order (default: desc for dates, asc for name)'),
   }),
-  execute: async (args: { limit?: number; cursor?: string }) => {
+  execute: async (args: {
+    limit?: number;
+    cursor?: string;
+    search?: string;
+    tags?: string[];
+    active?: boolean;
+    node_type?: string;
+    sort_by?: WorkflowSortField;
+    order?: 'asc' | 'desc';
+  } & WorkspaceArgs) => {
     try {
-      const workflows = await workflowService.listWorkflows();
-      
-      // Simple pagination
-      const startIndex = args.cursor ? parseInt(args.cursor, 10) : 0;
-      const endIndex = startIndex + (args.limit || 50);
-      const paginatedWorkflows = workflows.slice(startIndex, endIndex);
-      const hasMore = endIndex < workflows.length;
-      const nextCursor = hasMore ? endIndex.toString() : undefined;
-
-      return `Found ${workflows.length} workflows:\n\n${paginatedWorkflows.map((name, index) => `${startIndex + index + 1}. ${name}`).join('\n')}\n\nTotal: ${workflows.length}\nHas More: ${hasMore}\nNext Cursor: ${nextCursor || 'None'}`;
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const page = await workspaceService.listWorkflowSummaries({
+        limit: args.limit,
+        cursor: args.cursor,
+        search: args.search,
+        tags: args.tags,
+        active: args.active,
+        nodeType: args.node_type,
+        sortBy: args.sort_by,
+        order: args.order,
+      });
+
+      if (page.total === 0) {
+        return 'No workflows found';
+      }
+
+      const items = page.workflows.map((summary, index) =>
+        `${page.offset + index + 1}. ${summary.name}${summary.active ? ' [active]' : ''}\n` +
+        `   Nodes: ${summary.nodeCount} | Trigger: ${summary.triggerTypes.join(', ') || 'none'} | Tags: ${summary.tags.join(', ') || 'none'}\n` +
+        `   Updated: ${summary.updatedAt || 'unknown'}`
+      );
+
+      return `Found ${page.total} workflows (showing ${page.workflows.length}):\n\n${items.join('\n')}\n\nTotal: ${page.total}\nHas More: ${page.hasMore}\nNext Cursor: ${page.nextCursor || 'None'}`;
     } catch (error) {
       return `Failed to list workflows: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
@@ -81,11 +133,12 @@ export const getWorkflowDetailsTool = {
   description: 'Get detailed information about a specific workflow',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
+    ...workspaceParams,
   }),
-  execute: async (args: { workflow_name: string; workflow_path?: string }) => {
+  execute: async (args: { workflow_name: string } & WorkspaceArgs) => {
     try {
-      const details = await workflowService.getWorkflowDetails(args.workflow_name);
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const details = await workspaceService.getWorkflowDetails(args.workflow_name);
       
       if (!details.exists) {
         return `Error: Workflow '${args.workflow_name}' not found`;
@@ -117,10 +170,12 @@ export const deleteWorkflowTool = {
   description: 'Delete a workflow',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow to delete'),
+    ...workspaceParams,
   }),
-  execute: async (args: { workflow_name: string }) => {
+  execute: async (args: { workflow_name: string } & WorkspaceArgs) => {
     try {
-      const deleted = await workflowService.deleteWorkflow(args.workflow_name);
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const deleted = await workspaceService.deleteWorkflow(args.workflow_name);
       
       if (!deleted) {
         return `Error: Workflow '${args.workflow_name}' not found or could not be deleted`;
@@ -133,19 +188,49 @@ export const deleteWorkflowTool = {
   },
 };
 
+/**
+ * Rename workflow tool
+ */
+export const renameWorkflowTool = {
+  name: 'rename_workflow',
+  description: 'Rename a workflow, moving its file and revision history and keeping its link to the n8n instance',
+  parameters: z.object({
+    workflow_name: z.string().describe('Current name of the workflow'),
+    new_name: z.string().describe('New name of the workflow'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; new_name: string } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const result = await workspaceService.renameWorkflow(args.workflow_name, args.new_name);
+
+      if (!result) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      return `Workflow '${args.workflow_name}' renamed to '${args.new_name}'` +
+        (result.remoteLinkKept ? '\n\nThe link to the remote workflow was kept; push it to rename it on the n8n instance.' : '');
+    } catch (error) {
+      return `Failed to rename workflow: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
 /**
  * Validate workflow tool
  */
 export const validateWorkflowTool = {
   name: 'validate_workflow',
-  description: 'Validate a workflow file against n8n schema and connectivity',
+  description: 'Validate a workflow file against n8n schema and connectivity, including the syntax and node references of {{ }} expressions',
   parameters: z.object({
     workflow_name: z.string().describe('Name of the workflow to validate'),
-    workflow_path: z.string().optional().describe('Path to the workflow file'),
+    ...workspaceParams,
+    sample_outputs: z.record(z.string(), z.array(z.any())).optional().describe('Example output items per node name, used like pinData to check the $json fields expressions read'),
   }),
-  execute: async (args: { workflow_name: string; workflow_path?: string }) => {
+  execute: async (args: { workflow_name: string; sample_outputs?: Record<string, any[]> } & WorkspaceArgs) => {
     try {
-      const workflow = await workflowService.loadWorkflow(args.workflow_name);
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
       
       if (!workflow) {
         return `Error: Workflow '${args.workflow_name}' not found`;
@@ -154,14 +239,299 @@ export const validateWorkflowTool = {
       // Import validation function
       const { validateWorkflow } = await import('../lib/workflow-utils.js');
       const validation = validateWorkflow(workflow);
+      const parameterValidation = await nodeParameterValidator.validateWorkflowParameters(workflow);
+      const expressionValidation = analyzeWorkflowExpressions(workflow, { sampleOutputs: args.sample_outputs });
 
-      if (validation.valid) {
-        return `Workflow '${args.workflow_name}' is valid.\n\nNodes: ${workflow.nodes.length}\nConnections: ${Object.keys(workflow.connections).length}`;
+      const allWarnings = [...parameterValidation.warnings, ...expressionValidation.warnings];
+      const warnings = allWarnings.length > 0
+        ? `\n\nWarnings:\n${allWarnings.map(formatParameterIssue).join('\n')}`
+        : '';
+
+      if (validation.valid && parameterValidation.isValid && expressionValidation.errors.length === 0) {
+        return `Workflow '${args.workflow_name}' is valid.\n\nNodes: ${workflow.nodes.length}\nConnections: ${countConnections(workflow.connections)}${warnings}`;
       } else {
-        return `Workflow '${args.workflow_name}' validation failed:\n\nErrors:\n${validation.errors.map(error => `- ${error}`).join('\n')}`;
+        const errors = [
+          ...validation.errors.map(error => `- ${error}`),
+          ...parameterValidation.errors.map(formatParameterIssue),
+          ...expressionValidation.errors.map(formatParameterIssue),
+        ];
+        return `Workflow '${args.workflow_name}' validation failed:\n\nErrors:\n${errors.join('\n')}${warnings}`;
       }
     } catch (error) {
       return `Failed to validate workflow: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   },
 };
+
+/**
+ * Check workflow compatibility with an n8n version tool
+ */
+export const checkWorkflowCompatibilityTool = {
+  name: 'check_workflow_compatibility',
+  description: 'Check whether a workflow runs on a target n8n version: node types missing there, unsupported typeVersions, and parameters or option values removed or renamed since the current version',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow to check'),
+    target_n8n_version: z.string().describe('n8n version to upgrade or move to, e.g. 1.110.1'),
+    current_n8n_version: z.string().optional().describe('n8n version the workflow was built with; needed to report removed and renamed parameters'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; target_n8n_version: string; current_n8n_version?: string } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
+      if (!workflow) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      const report = await compatibilityChecker.checkWorkflow(workflow, args.target_n8n_version, args.current_n8n_version);
+
+      const catalogs = `Target catalog: ${report.targetCatalog}` +
+        (report.sourceCatalog ? `\nCurrent catalog: ${report.sourceCatalog}` : '');
+      const warnings = report.warnings.length > 0
+        ? `\n\nWarnings:\n${report.warnings.map(formatParameterIssue).join('\n')}`
+        : '';
+
+      if (report.compatible) {
+        return `Workflow '${args.workflow_name}' is compatible with n8n ${args.target_n8n_version}.\n\n${catalogs}\nNodes checked: ${workflow.nodes.length}${warnings}`;
+      }
+      return `Workflow '${args.workflow_name}' is not compatible with n8n ${args.target_n8n_version}:\n\n${catalogs}\n\nErrors:\n${report.errors.map(formatParameterIssue).join('\n')}${warnings}`;
+    } catch (error) {
+      return `Failed to check workflow compatibility: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Migrate legacy workflow files tool
+ */
+export const migrateWorkflowsTool = {
+  name: 'migrate_workflows',
+  description: 'Rewrite local workflow files that use legacy node-ID connections into n8n\'s native name-keyed connection format',
+  parameters: z.object({
+    ...workspaceParams,
+  }),
+  execute: async (args: WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const migrated = await workspaceService.migrateWorkflowFiles();
+
+      if (migrated.length === 0) {
+        return 'All workflow files already use the n8n connection format';
+      }
+
+      return `Migrated ${migrated.length} workflows to the n8n connection format:\n\n${migrated.map(name => `- ${name}`).join('\n')}`;
+    } catch (error) {
+      return `Failed to migrate workflows: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Diff two workflows tool
+ */
+export const diffWorkflowsTool = {
+  name: 'diff_workflows',
+  description: 'Compare two workflows: added/removed/renamed nodes, per-node parameter and credential changes, connection changes and workflow settings, as readable text and a JSON patch',
+  parameters: z.object({
+    base_workflow_name: z.string().describe('Name of the workflow to compare from'),
+    compare_workflow_name: z.string().describe('Name of the workflow to compare to'),
+    output_format: z.enum(['text', 'json', 'both']).optional().default('both').describe('Return the readable summary, the structured diff with JSON patch, or both'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { base_workflow_name: string; compare_workflow_name: string; output_format?: 'text' | 'json' | 'both' } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const base = await workspaceService.loadWorkflow(args.base_workflow_name);
+      if (!base) {
+        return `Error: Workflow '${args.base_workflow_name}' not found`;
+      }
+
+      const compare = await workspaceService.loadWorkflow(args.compare_workflow_name);
+      if (!compare) {
+        return `Error: Workflow '${args.compare_workflow_name}' not found`;
+      }
+
+      const diff = diffWorkflows(base, compare);
+      const format = args.output_format || 'both';
+      const text = `Diff '${args.base_workflow_name}' -> '${args.compare_workflow_name}':\n\n${formatWorkflowDiff(diff)}`;
+      const json = JSON.stringify(diff, null, 2);
+
+      if (format === 'text') return text;
+      if (format === 'json') return json;
+      return `${text}\n\nStructured diff:\n${json}`;
+    } catch (error) {
+      return `Failed to diff workflows: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Auto layout workflow tool
+ */
+export const autoLayoutWorkflowTool = {
+  name: 'auto_layout_workflow',
+  description: 'Reposition all nodes of a workflow: main nodes in left-to-right layers along their connections, AI sub-nodes (models, memory, tools) in rows below the node they attach to',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    column_width: z.number().min(100).optional().describe('Horizontal distance between layers (default 260)'),
+    row_height: z.number().min(100).optional().describe('Vertical distance between nodes in a layer (default 200)'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; column_width?: number; row_height?: number } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
+      if (!workflow) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      const laidOut = layoutWorkflow(workflow, {
+        columnWidth: args.column_width,
+        rowHeight: args.row_height,
+      });
+      await workspaceService.saveWorkflow(laidOut);
+
+      const positions = laidOut.nodes.map(node => `- ${node.name}: [${node.position[0]}, ${node.position[1]}]`).join('\n');
+      return `Workflow '${args.workflow_name}' laid out (${laidOut.nodes.length} nodes)\n\nPositions:\n${positions}`;
+    } catch (error) {
+      return `Failed to lay out workflow: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+/**
+ * Render workflow diagram tool
+ */
+export const renderWorkflowDiagramTool = {
+  name: 'render_workflow_diagram',
+  description: 'Render a workflow as a Mermaid flowchart or Graphviz DOT graph, with node names and types, branch labels (IF true/false, Switch cases) and AI sub-node links drawn as dashed arrows',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    format: z.enum(['mermaid', 'dot']).optional().default('mermaid').describe('Diagram format'),
+    direction: z.enum(['LR', 'TB']).optional().default('LR').describe('Left-to-right or top-to-bottom'),
+    include_types: z.boolean().optional().default(true).describe('Show each node\'s type under its name'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; format?: 'mermaid' | 'dot'; direction?: 'LR' | 'TB'; include_types?: boolean } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
+      if (!workflow) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      const format = args.format || 'mermaid';
+      const diagram = renderWorkflowDiagram(workflow, format, {
+        direction: args.direction,
+        includeTypes: args.include_types,
+      });
+      return `\`\`\`${format}\n${diagram}\n\`\`\``;
+    } catch (error) {
+      return `Failed to render workflow diagram: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
+
+const nodeReference = z.string().describe('Node ID or name (nodes added earlier in the batch can be referenced by name)');
+const positionSchema = z.tuple([z.number(), z.number()]);
+
+const workflowOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('addNode'),
+    type: z.string().describe('Node type, e.g. n8n-nodes-base.httpRequest'),
+    name: z.string().optional().describe('Node name (defaults to the display name, numbered if taken)'),
+    parameters: z.record(z.string(), z.any()).optional(),
+    position: positionSchema.optional().describe('Position [x, y]; when omitted, the node is placed next to the nodes it connects to'),
+    typeVersion: z.number().optional(),
+    webhookId: z.string().optional(),
+    credentials: z.record(z.string(), z.any()).optional(),
+  }),
+  z.object({
+    op: z.literal('updateNode'),
+    node: nodeReference,
+    type: z.string().optional(),
+    parameters: z.record(z.string(), z.any()).optional(),
+    merge_parameters: z.boolean().optional().describe('Merge into the existing parameters instead of replacing them'),
+    position: positionSchema.optional(),
+    typeVersion: z.number().optional(),
+    credentials: z.record(z.string(), z.any()).optional(),
+    disabled: z.boolean().optional(),
+    notes: z.string().optional(),
+  }),
+  z.object({
+    op: z.literal('removeNode'),
+    node: nodeReference,
+  }),
+  z.object({
+    op: z.enum(['connect', 'disconnect']),
+    from: nodeReference,
+    to: nodeReference,
+    type: z.string().optional().describe("Connection type (default 'main', or ai_languageModel, ai_tool, ...)"),
+    output_index: z.number().optional().describe('Source output index (connect defaults to 0, disconnect to every output)'),
+    input_index: z.number().optional().describe('Target input index (default 0)'),
+  }),
+  z.object({
+    op: z.literal('renameNode'),
+    node: nodeReference,
+    new_name: z.string(),
+  }),
+  z.object({
+    op: z.literal('setSettings'),
+    settings: z.record(z.string(), z.any()),
+    merge: z.boolean().optional().describe('Merge into the existing settings (default) or replace them'),
+  }),
+]);
+
+/**
+ * Apply a batch of workflow operations tool
+ */
+export const applyWorkflowOperationsTool = {
+  name: 'apply_workflow_operations',
+  description: 'Apply an ordered list of edits (addNode, updateNode, removeNode, connect, disconnect, renameNode, setSettings) to a workflow in one atomic step: the workflow is saved only if every operation succeeds and the result validates',
+  parameters: z.object({
+    workflow_name: z.string().describe('Name of the workflow'),
+    operations: z.array(workflowOperationSchema).min(1).describe('Operations to apply in order'),
+    dry_run: z.boolean().optional().default(false).describe('Check the operations without saving'),
+    ...workspaceParams,
+  }),
+  execute: async (args: { workflow_name: string; operations: WorkflowOperation[]; dry_run?: boolean } & WorkspaceArgs) => {
+    try {
+      const workspaceService = getWorkflowService(resolveWorkspace(args));
+      const workflow = await workspaceService.loadWorkflow(args.workflow_name);
+      if (!workflow) {
+        return `Error: Workflow '${args.workflow_name}' not found`;
+      }
+
+      // Look up the definitions of every node type the batch introduces
+      const nodeTypes = new Set<string>();
+      for (const operation of args.operations) {
+        if ((operation.op === 'addNode' || operation.op === 'updateNode') && operation.type) {
+          nodeTypes.add(operation.type);
+        }
+      }
+      const nodeDefinitions = new Map<string, N8nNodeDefinition>();
+      for (const nodeType of nodeTypes) {
+        const definition = await nodeDiscoveryService.getNodeDefinition(nodeType);
+        if (definition) nodeDefinitions.set(nodeType, definition);
+      }
+
+      let result: ApplyOperationsResult;
+      try {
+        result = applyWorkflowOperations(workflow, args.operations, nodeDefinitions);
+      } catch (error) {
+        return `Error: No changes were saved to '${args.workflow_name}'.\n${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+
+      if (!args.dry_run) {
+        await workspaceService.saveWorkflow(result.workflow);
+      }
+
+      const steps = result.results.map((line, index) => `${index + 1}. ${line}`).join('\n');
+      return `${args.dry_run ? 'Dry run: all' : 'Applied'} ${result.results.length} operations ${args.dry_run ? 'would apply to' : 'to'} '${args.workflow_name}'\n\n${steps}\n\n` +
+        `Nodes: ${result.workflow.nodes.length}\n` +
+        `Connections: ${countConnections(result.workflow.connections)}`;
+    } catch (error) {
+      return `Failed to apply workflow operations: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  },
+};
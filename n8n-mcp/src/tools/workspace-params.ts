@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Parameters of every tool that works on the workflows of a workspace
+ */
+export const workspaceParams = {
+  workspace_dir: z.string().optional().describe('Workspace to use: a directory with filesystem storage, a namespace with SQLite or memory storage'),
+  workflow_path: z.string().optional().describe('Path to a workflow file whose directory is used as the workspace; kept for older clients, prefer workspace_dir'),
+};
+
+export interface WorkspaceArgs {
+  workspace_dir?: string;
+  workflow_path?: string;
+}
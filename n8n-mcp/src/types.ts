@@ -16,6 +16,12 @@ export interface N8nWorkflow {
   updatedAt?: string;
 }
 
+// A node's credentials map each credential type to the stored credential it uses
+export interface N8nCredentialReference {
+  id?: string;
+  name: string;
+}
+
 export interface N8nWorkflowNode {
   id: string;
   name: string;
@@ -23,7 +29,7 @@ export interface N8nWorkflowNode {
   typeVersion: number;
   position: [number, number];
   parameters: Record<string, any>;
-  credentials?: Record<string, string>;
+  credentials?: Record<string, N8nCredentialReference>;
   webhookId?: string;
   disabled?: boolean;
   notes?: string;
@@ -42,9 +48,11 @@ export interface N8nWorkflowNode {
   iconUrl?: string;
 }
 
+// Connections are keyed by source node name, then connection type ('main', 'ai_tool', ...).
+// Each entry of the outer array is one output index of the source node.
 export interface N8nConnections {
-  [sourceNodeId: string]: {
-    [outputName: string]: N8nConnectionDetail[];
+  [sourceNodeName: string]: {
+    [connectionType: string]: N8nConnectionDetail[][];
   };
 }
 
@@ -59,17 +67,23 @@ export interface N8nNodeDefinition {
   displayName: string;
   description: string;
   version: number;
+  /** Every type version the node supports, when known (version is the default) */
+  versions?: number[];
   defaults: {
     name: string;
     color: string;
   };
   inputs: string[];
   outputs: string[];
-  credentials?: string[];
+  credentials?: Array<string | N8nNodeCredentialDefinition>;
   properties: N8nNodeProperty[];
+  /** Properties of type versions implemented separately from the default version, keyed by type version */
+  propertiesByVersion?: Record<string, N8nNodeProperty[]>;
   codex?: {
     categories: string[];
     subcategories: Record<string, string[]>;
+    /** Search keywords n8n shows the node for, e.g. 'cron' for the Schedule Trigger */
+    alias?: string[];
   };
   documentationUrl?: string;
   icon?: string;
@@ -100,7 +114,8 @@ export interface N8nNodeProperty {
   default?: any;
   description?: string;
   required?: boolean;
-  options?: Array<{ name: string; value: any }>;
+  /** Choices of an options property, properties of a collection or groups of a fixedCollection */
+  options?: Array<N8nNodePropertyOption | N8nNodeProperty | N8nNodePropertyCollection>;
   displayOptions?: {
     show?: Record<string, any>;
     hide?: Record<string, any>;
@@ -112,6 +127,29 @@ export interface N8nNodeProperty {
   expression?: boolean;
 }
 
+export interface N8nNodePropertyOption {
+  name: string;
+  value: any;
+  description?: string;
+  action?: string;
+}
+
+export interface N8nNodePropertyCollection {
+  name: string;
+  displayName: string;
+  values: N8nNodeProperty[];
+}
+
+export interface N8nNodeCredentialDefinition {
+  name: string;
+  required?: boolean;
+  displayName?: string;
+  displayOptions?: {
+    show?: Record<string, any>;
+    hide?: Record<string, any>;
+  };
+}
+
 export interface N8nWebhookDefinition {
   name: string;
   httpMethod: string;
@@ -33,7 +33,7 @@ export interface WorkflowNode {
 }
 
 export interface WorkflowConnection {
-  [sourceNodeId: string]: {
+  [sourceNodeName: string]: {
     [outputType: string]: Array<Array<{
       node: string;
       type: string;
@@ -62,6 +62,7 @@ export interface Workflow {
   isArchived?: boolean;
   settings?: WorkflowSettings;
   staticData?: Record<string, unknown>;
+  pinData?: Record<string, unknown>;
   tags?: string[];
   updatedAt?: string;
   createdAt?: string;
@@ -168,14 +169,15 @@ export interface Tag {
   updatedAt: string;
 }
 
+// The n8n public API pages tags with a cursor and does not report a total
 export interface TagListParams {
   limit?: number;
-  offset?: number;
+  cursor?: string;
 }
 
 export interface TagListResponse {
   data: Tag[];
-  total: number;
+  nextCursor: string | null;
 }
 
 // Health Check Types
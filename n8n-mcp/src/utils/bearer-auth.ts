@@ -0,0 +1,27 @@
+/**
+ * Bearer token authentication for the HTTP transport
+ */
+
+import { IncomingMessage } from 'http';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Create a FastMCP authenticate hook that accepts requests carrying
+ * `Authorization: Bearer <token>` with the configured token
+ */
+export function createBearerAuthenticator(expectedToken: string) {
+  const expected = Buffer.from(expectedToken);
+
+  return async (request: IncomingMessage): Promise<{ authenticated: true }> => {
+    const header = request.headers.authorization || '';
+    const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+    const provided = Buffer.from(match ? match[1] : '');
+
+    // Compare in constant time so the token cannot be guessed byte by byte
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      throw new Error('Unauthorized: missing or invalid bearer token');
+    }
+
+    return { authenticated: true };
+  };
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { n8nUpdateWorkflowTagsTool } from '../src/tools/n8n-api-tools.js';
+
+const TAG_COUNT = 300;
+
+test('n8n_update_workflow_tags follows tag page cursors', async () => {
+  const tags = Array.from({ length: TAG_COUNT }, (_, index) => ({ id: String(index), name: `tag-${index}` }));
+  const tagRequests: string[] = [];
+  let workflowTagIds: string[] = [];
+
+  // Behaves like the n8n public API: cursor pagination, no offset and no total
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+      if (req.method === 'GET' && url.pathname === '/api/v1/tags') {
+        tagRequests.push(url.search);
+        const start = Number(url.searchParams.get('cursor') || 0);
+        const end = start + Number(url.searchParams.get('limit'));
+        res.end(JSON.stringify({ data: tags.slice(start, end), nextCursor: end < tags.length ? String(end) : null }));
+      } else if (req.method === 'GET' && url.pathname === '/api/v1/workflows/wf1/tags') {
+        res.end(JSON.stringify([]));
+      } else if (req.method === 'PUT' && url.pathname === '/api/v1/workflows/wf1/tags') {
+        workflowTagIds = (JSON.parse(body) as Array<{ id: string }>).map(tag => tag.id);
+        res.end(JSON.stringify(workflowTagIds.map(id => tags[Number(id)])));
+      } else {
+        res.statusCode = 404;
+        res.end('{}');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    process.env.N8N_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.N8N_API_KEY = 'test-key';
+
+    const result = await n8nUpdateWorkflowTagsTool.execute({ workflow_id: 'wf1', add: ['tag-299'], create_missing: false });
+
+    assert.equal(result, 'Tags of workflow wf1: tag-299');
+    assert.deepEqual(workflowTagIds, ['299']);
+    assert.deepEqual(tagRequests, ['?limit=250', '?limit=250&cursor=250']);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { convertNodeTypesDump, NodeCatalogImporter } from '../src/services/node-catalog-importer.js';
+import { NodeCatalogStore } from '../src/services/node-catalog.js';
+import { NodeDiscoveryService } from '../src/services/node-discovery-service.js';
+import { WorkflowCompatibilityChecker } from '../src/services/workflow-compatibility-checker.js';
+import { createEmptyWorkflow } from '../src/lib/workflow-utils.js';
+
+function describeNode(version: number | number[], propertyNames: string[], defaultVersion?: number) {
+  return {
+    name: 'sheet',
+    displayName: 'Sheet',
+    description: 'Read and write rows',
+    version,
+    defaultVersion,
+    defaults: { name: 'Sheet', color: '#0f9d58' },
+    inputs: ['main'],
+    outputs: ['main'],
+    properties: propertyNames.map(name => ({ displayName: name, name, type: 'string', default: '' })),
+  };
+}
+
+test('merged implementations keep the properties of every type version', () => {
+  const { nodes, skipped } = convertNodeTypesDump({
+    nodes: [describeNode([1, 2], ['sheetName']), describeNode(3, ['documentId'], 3), { name: 42 }],
+  });
+
+  assert.equal(skipped, 1);
+  assert.equal(nodes.length, 1);
+  assert.equal(nodes[0].name, 'n8n-nodes-base.sheet');
+  assert.equal(nodes[0].version, 3);
+  assert.deepEqual(nodes[0].versions, [1, 2, 3]);
+  assert.deepEqual(nodes[0].properties.map(prop => prop.name), ['documentId']);
+  assert.deepEqual(Object.keys(nodes[0].propertiesByVersion || {}), ['1', '2']);
+  assert.deepEqual(nodes[0].propertiesByVersion?.['1'].map(prop => prop.name), ['sheetName']);
+});
+
+test('parameters of an older type version are not reported as removed when a newer implementation is added', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'n8n-mcp-catalog-'));
+  try {
+    const store = new NodeCatalogStore('test', dir);
+    const importer = new NodeCatalogImporter(store);
+    await importer.importDumps('1.0.0', [{ source: 'old', data: [describeNode(1, ['sheetName', 'range'])] }]);
+    await importer.importDumps('1.1.0', [{ source: 'new', data: [describeNode(1, ['sheetName']), describeNode(2, ['documentId'])] }]);
+
+    const workflow = createEmptyWorkflow('Rows');
+    workflow.nodes = [{
+      id: '1',
+      name: 'Sheet',
+      type: 'n8n-nodes-base.sheet',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: { sheetName: 'Leads', range: 'A:C' },
+    }];
+
+    const report = await new WorkflowCompatibilityChecker(new NodeDiscoveryService([store])).checkWorkflow(workflow, '1.1.0', '1.0.0');
+
+    assert.deepEqual(report.errors.map(issue => issue.message), [
+      "Parameter 'range' was removed between n8n 1.0.0 and 1.1.0",
+    ]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { N8nNodeDefinition } from '../src/types.js';
+import { buildNodeSearchIndex, searchNodeIndex } from '../src/lib/node-search.js';
+
+function defineNode(name: string, displayName: string, description: string, alias: string[] = []): N8nNodeDefinition {
+  return {
+    name: `n8n-nodes-base.${name}`,
+    displayName,
+    description,
+    version: 1,
+    defaults: { name: displayName, color: '#000000' },
+    inputs: ['main'],
+    outputs: ['main'],
+    properties: [],
+    codex: { categories: ['Core Nodes'], subcategories: {}, alias },
+  };
+}
+
+const index = buildNodeSearchIndex([
+  defineNode('httpRequest', 'HTTP Request', 'Makes an HTTP request and returns the response data'),
+  defineNode('slack', 'Slack', 'Consume the Slack API'),
+  defineNode('gmail', 'Gmail', 'Consume the Gmail API'),
+  defineNode('scheduleTrigger', 'Schedule Trigger', 'Triggers the workflow on a given schedule', ['Time', 'Interval']),
+  defineNode('noOp', 'No Operation, do nothing', 'No Operation'),
+]);
+
+function search(query: string, matchAll?: boolean): string[] {
+  return searchNodeIndex(index, query, { matchAll }).map(result => result.node.displayName);
+}
+
+test('the node named by the query ranks first', () => {
+  assert.equal(search('http request')[0], 'HTTP Request');
+  assert.equal(search('slack')[0], 'Slack');
+});
+
+test('typos, prefixes and synonyms still find the node', () => {
+  const [typo] = searchNodeIndex(index, 'slakc');
+  assert.equal(typo.node.displayName, 'Slack');
+  assert.deepEqual(typo.matches.map(match => match.kind), ['typo']);
+
+  assert.equal(search('sched')[0], 'Schedule Trigger');
+
+  const [synonym] = searchNodeIndex(index, 'cron');
+  assert.equal(synonym.node.displayName, 'Schedule Trigger');
+  assert.deepEqual(synonym.matches.map(match => match.kind), ['synonym']);
+});
+
+test('match all drops nodes that miss a term, and queries matching nothing return nothing', () => {
+  assert.deepEqual(search('gmail slack', true), []);
+  assert.deepEqual(search('gmail slack').sort(), ['Gmail', 'Slack']);
+  assert.deepEqual(search('zzzz'), []);
+});
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { N8nNodeDefinition } from '../src/types.js';
+import { PropertyDependencies } from '../src/services/property-dependencies.js';
+import { NodeParameterValidator } from '../src/services/node-parameter-validator.js';
+import { CredentialAnalyzer } from '../src/services/credential-analyzer.js';
+
+const visible = (show: Record<string, any>, values: Record<string, any>) =>
+  PropertyDependencies.isPropertyVisible({ displayOptions: { show } }, values);
+
+test('plain display conditions match any listed value', () => {
+  assert.equal(visible({ resource: ['message', 'chat'] }, { resource: 'chat' }), true);
+  assert.equal(visible({ resource: ['message'] }, { resource: 'chat' }), false);
+  assert.equal(visible({ resource: ['message'] }, {}), false);
+  assert.equal(PropertyDependencies.isPropertyVisible({ displayOptions: { hide: { mode: ['raw'] } } }, { mode: 'raw' }), false);
+  assert.equal(PropertyDependencies.isPropertyVisible({ displayOptions: { hide: { mode: ['raw'] } } }, {}), true);
+});
+
+test('_cnd display conditions support every n8n operator', () => {
+  const cases: Array<[Record<string, any>, any, boolean]> = [
+    [{ eq: 2 }, 2, true],
+    [{ eq: 2 }, 3, false],
+    [{ not: 'raw' }, 'json', true],
+    [{ not: 'raw' }, 'raw', false],
+    [{ gte: 1.4 }, 1.4, true],
+    [{ gte: 1.4 }, 1.3, false],
+    [{ lte: 1.2 }, 1.2, true],
+    [{ lte: 1.2 }, 1.3, false],
+    [{ gt: 1 }, 1.1, true],
+    [{ gt: 1 }, 1, false],
+    [{ lt: 2 }, 1.9, true],
+    [{ lt: 2 }, 2, false],
+    [{ between: { from: 1, to: 2 } }, 1.5, true],
+    [{ between: { from: 1, to: 2 } }, 2.1, false],
+    [{ startsWith: 'gpt-' }, 'gpt-4o', true],
+    [{ startsWith: 'gpt-' }, 'o1', false],
+    [{ endsWith: '.json' }, 'data.json', true],
+    [{ endsWith: '.json' }, 'data.csv', false],
+    [{ includes: 'vision' }, 'llava-vision', true],
+    [{ includes: 'vision' }, 'llama', false],
+    [{ regex: '^v\\d+$' }, 'v12', true],
+    [{ regex: '^v\\d+$' }, 'version', false],
+    [{ exists: true }, 'value', true],
+    [{ exists: true }, '', false],
+    [{ unknown: 1 }, 1, false],
+  ];
+
+  for (const [condition, value, expected] of cases) {
+    assert.equal(visible({ field: [{ _cnd: condition }] }, { field: value }), expected, `${JSON.stringify(condition)} on ${JSON.stringify(value)}`);
+  }
+});
+
+test('_cnd conditions can be mixed with plain values and used to hide', () => {
+  assert.equal(visible({ '@version': [1, { _cnd: { gte: 1.3 } }] }, { '@version': 1 }), true);
+  assert.equal(visible({ '@version': [1, { _cnd: { gte: 1.3 } }] }, { '@version': 1.2 }), false);
+  assert.equal(
+    PropertyDependencies.isPropertyVisible({ displayOptions: { hide: { '@version': [{ _cnd: { lt: 1.1 } }] } } }, { '@version': 1 }),
+    false
+  );
+});
+
+const respondToWebhook: N8nNodeDefinition = {
+  name: 'n8n-nodes-base.respondToWebhook',
+  displayName: 'Respond to Webhook',
+  description: '',
+  version: 1.4,
+  defaults: { name: 'Respond to Webhook', color: '#000000' },
+  inputs: ['main'],
+  outputs: ['main'],
+  credentials: [
+    { name: 'jwtAuth', required: true, displayOptions: { show: { respondWith: ['jwt'], '@version': [{ _cnd: { gte: 1.1 } }] } } },
+  ],
+  properties: [
+    {
+      displayName: 'Respond With',
+      name: 'respondWith',
+      type: 'options',
+      default: 'firstIncomingItem',
+      options: [
+        { name: 'First Incoming Item', value: 'firstIncomingItem' },
+        { name: 'JWT Token', value: 'jwt' },
+        { name: 'Text', value: 'text' },
+      ],
+      displayOptions: { show: { '@version': [{ _cnd: { gte: 1.1 } }] } },
+    },
+    {
+      displayName: 'Response Body',
+      name: 'responseBody',
+      type: 'string',
+      default: '',
+      displayOptions: { show: { respondWith: ['text'] } },
+    },
+  ],
+};
+
+test('parameter validation honours _cnd version conditions', () => {
+  const validator = new NodeParameterValidator();
+
+  assert.deepEqual(validator.validateAgainstDefinition(respondToWebhook, { respondWith: 'text', responseBody: 'ok' }, 1.4), []);
+
+  const issues = validator.validateAgainstDefinition(respondToWebhook, { respondWith: 'text' }, 1);
+  assert.match(issues[0]?.message || '', /'respondWith' is not shown/);
+});
+
+test('credential analysis honours _cnd version conditions', () => {
+  const analyzer = new CredentialAnalyzer();
+  const node = { id: '1', name: 'Respond', type: respondToWebhook.name, position: [0, 0] as [number, number], parameters: { respondWith: 'jwt' } };
+
+  assert.deepEqual(analyzer.getRequiredCredentials({ ...node, typeVersion: 1.4 }, respondToWebhook), [{ type: 'jwtAuth', required: true }]);
+  assert.deepEqual(analyzer.getRequiredCredentials({ ...node, typeVersion: 1 }, respondToWebhook), []);
+});
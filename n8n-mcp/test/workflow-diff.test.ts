@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { N8nWorkflow } from '../src/types.js';
+import { createEmptyWorkflow } from '../src/lib/workflow-utils.js';
+import { diffWorkflows, JsonPatchOperation } from '../src/lib/workflow-diff.js';
+
+/**
+ * Apply add, remove and replace operations (RFC 6902) to a copy of a document
+ */
+function applyPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  const result = structuredClone(document) as any;
+  for (const operation of patch) {
+    const keys = operation.path.split('/').slice(1).map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const last = keys.pop()!;
+    const parent = keys.reduce((value, key) => value[key], result);
+
+    if (Array.isArray(parent)) {
+      const index = last === '-' ? parent.length : Number(last);
+      if (operation.op === 'remove') parent.splice(index, 1);
+      else if (operation.op === 'add') parent.splice(index, 0, operation.value);
+      else parent[index] = operation.value;
+    } else if (operation.op === 'remove') {
+      delete parent[last];
+    } else {
+      parent[last] = operation.value;
+    }
+  }
+  return result;
+}
+
+function createBase(): N8nWorkflow {
+  const workflow = createEmptyWorkflow('Orders');
+  workflow.nodes = [
+    { id: 'a', name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} },
+    { id: 'b', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: { url: 'https://a.example', options: { timeout: 1000 } } },
+    { id: 'c', name: 'Old/Step', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [400, 0], parameters: {} },
+    { id: 'd', name: 'Log', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [600, 0], parameters: {} },
+  ];
+  workflow.connections = {
+    Start: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+    Fetch: { main: [[{ node: 'Old/Step', type: 'main', index: 0 }]] },
+    'Old/Step': { main: [[{ node: 'Log', type: 'main', index: 0 }]] },
+  };
+  return workflow;
+}
+
+test('the JSON patch of a diff turns the base workflow into the compared one', () => {
+  const base = createBase();
+  const compare = structuredClone(base);
+  compare.nodes[1] = { ...compare.nodes[1], parameters: { url: 'https://b.example', options: {} }, notes: 'Paged' };
+  compare.nodes[3] = { ...compare.nodes[3], name: 'Audit Log' };
+  compare.nodes.splice(2, 1);
+  compare.nodes.push({ id: 'e', name: 'Notify', type: 'n8n-nodes-base.slack', typeVersion: 2, position: [800, 0], parameters: { channel: '#orders' } });
+  compare.connections = {
+    Start: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+    Fetch: { main: [[{ node: 'Audit Log', type: 'main', index: 0 }]] },
+    'Audit Log': { main: [[{ node: 'Notify', type: 'main', index: 0 }]] },
+  };
+  compare.settings = { timezone: 'Europe/Berlin' };
+  compare.tags = ['billing'];
+
+  const diff = diffWorkflows(base, compare);
+
+  assert.equal(diff.hasChanges, true);
+  assert.deepEqual(diff.nodes.removed.map(node => node.name), ['Old/Step']);
+  assert.deepEqual(diff.nodes.added.map(node => node.name), ['Notify']);
+  assert.deepEqual(diff.nodes.renamed, [{ id: 'd', from: 'Log', to: 'Audit Log' }]);
+  assert.deepEqual(applyPatch(base, diff.patch), compare);
+});
+
+test('identical workflows have an empty diff', () => {
+  const diff = diffWorkflows(createBase(), createBase());
+
+  assert.equal(diff.hasChanges, false);
+  assert.deepEqual(diff.patch, []);
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeWorkflowExpressions, ExpressionWorkflow, findNodeReferences } from '../src/lib/workflow-expressions.js';
+
+function createWorkflow(parameters: Record<string, any>): ExpressionWorkflow {
+  return {
+    nodes: [
+      { name: 'Webhook', parameters: {} },
+      { name: 'Lookup', parameters: {} },
+      { name: 'Send', parameters },
+      { name: 'Side Branch', parameters: {} },
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Lookup', type: 'main', index: 0 }, { node: 'Side Branch', type: 'main', index: 0 }]] },
+      Lookup: { main: [[{ node: 'Send', type: 'main', index: 0 }]] },
+    },
+    pinData: { Lookup: [{ json: { email: 'a@example.com', plan: 'pro' } }] },
+  };
+}
+
+function messages(issues: Array<{ message: string }>): string[] {
+  return issues.map(issue => issue.message);
+}
+
+test('node references are found in every reference style', () => {
+  assert.deepEqual(findNodeReferences(`$node["Lookup"].json.email + $('Webhook').item.json['body'] + $items("Lookup")[0].json.plan`), [
+    { nodeName: 'Lookup', fields: ['email', 'plan'] },
+    { nodeName: 'Webhook', fields: ['body'] },
+  ]);
+});
+
+test('references to missing, downstream and sibling nodes are reported', () => {
+  const { errors, warnings } = analyzeWorkflowExpressions(createWorkflow({
+    to: "={{ $('Lookup').item.json.email }}",
+    missing: "={{ $('Lookup Old').item.json.email }}",
+    sibling: "={{ $('Side Branch').item.json.id }}",
+    self: "={{ $('Send').item.json.id }}",
+  }));
+
+  assert.deepEqual(messages(errors), ["parameters.missing references node 'Lookup Old', which does not exist"]);
+  assert.deepEqual(messages(warnings), [
+    "parameters.sibling references node 'Side Branch', which is not upstream of 'Send' and may not have run",
+    "parameters.self references its own node 'Send'",
+  ]);
+});
+
+test('fields read from upstream nodes are checked against their pinned output', () => {
+  const { errors, warnings } = analyzeWorkflowExpressions(createWorkflow({
+    known: '={{ $json.plan }} for {{ $node["Lookup"].json.email }}',
+    unknown: "={{ $('Lookup').item.json.phone }}",
+    input: '={{ $json.name }}',
+  }));
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(messages(warnings), [
+    "parameters.unknown reads 'phone' from 'Lookup', which is not in its known output (fields: email, plan)",
+    "parameters.input reads $json.name, which is not in the known output of 'Lookup' (fields: email, plan)",
+  ]);
+});
+
+test('broken expression syntax and unprefixed expressions are reported', () => {
+  const { errors, warnings } = analyzeWorkflowExpressions(createWorkflow({
+    broken: '={{ $json.plan + }}',
+    plain: '{{ $json.plan }}',
+  }));
+
+  assert.equal(errors.length, 1);
+  assert.match(errors[0].message, /^parameters\.broken: invalid JavaScript in \{\{ \$json\.plan \+ \}\}/);
+  assert.deepEqual(messages(warnings), ["parameters.plain contains {{ }} but does not start with '=', so n8n treats it as plain text"]);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { N8nWorkflow } from '../src/types.js';
+import { addConnectionToWorkflow, addNodeToWorkflow, createEmptyWorkflow, createWorkflowNode } from '../src/lib/workflow-utils.js';
+import { layoutWorkflow, placeNodes } from '../src/lib/workflow-layout.js';
+import { applyWorkflowOperations } from '../src/lib/workflow-operations.js';
+
+function createArrangedWorkflow(): N8nWorkflow {
+  let workflow = createEmptyWorkflow('Arranged');
+  workflow = addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.manualTrigger', 'Start', [1000, 500], {}, 1));
+  workflow = addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.set', 'Set', [1400, 300], {}, 3));
+  workflow = addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.noOp', 'Far', [-600, 900], {}, 1));
+  return addConnectionToWorkflow(workflow, 'Start', 'main', 'Set', 'main', 0);
+}
+
+const positionsOf = (workflow: N8nWorkflow) => Object.fromEntries(workflow.nodes.map(node => [node.name, node.position]));
+
+test('placing a new node keeps every existing position', () => {
+  let workflow = createArrangedWorkflow();
+  const before = positionsOf(workflow);
+  const node = createWorkflowNode('n8n-nodes-base.noOp', 'After Set', [0, 0], {}, 1);
+  workflow = addConnectionToWorkflow(addNodeToWorkflow(workflow, node), 'Set', 'main', 'After Set', 'main', 0);
+
+  const placed = positionsOf(placeNodes(workflow, [node.id]));
+  for (const name of Object.keys(before)) {
+    assert.deepEqual(placed[name], before[name], `${name} moved`);
+  }
+  // Same offset from its source as in the full layout: one column to the right
+  assert.deepEqual(placed['After Set'], [1660, 300]);
+});
+
+test('unconnected nodes go below the workflow and never overlap', () => {
+  let workflow = createArrangedWorkflow();
+  const first = createWorkflowNode('n8n-nodes-base.noOp', 'Loose 1', [0, 0], {}, 1);
+  const second = createWorkflowNode('n8n-nodes-base.noOp', 'Loose 2', [0, 0], {}, 1);
+  workflow = addNodeToWorkflow(addNodeToWorkflow(workflow, first), second);
+
+  const placed = positionsOf(placeNodes(workflow, [first.id, second.id]));
+  assert.deepEqual(placed['Loose 1'], [-600, 1100]);
+  assert.deepEqual(placed['Loose 2'], [-600, 1300]);
+});
+
+test('apply_workflow_operations only positions added nodes without coordinates', () => {
+  const workflow = createArrangedWorkflow();
+  const definitions = new Map([['n8n-nodes-base.noOp', {
+    name: 'n8n-nodes-base.noOp', displayName: 'No Operation', description: '', version: 1,
+    defaults: { name: 'No Operation', color: '#000000' }, inputs: ['main'], outputs: ['main'], properties: [],
+  }]]);
+
+  const { workflow: result } = applyWorkflowOperations(workflow, [
+    { op: 'addNode', type: 'n8n-nodes-base.noOp', name: 'Next' },
+    { op: 'connect', from: 'Set', to: 'Next' },
+    { op: 'addNode', type: 'n8n-nodes-base.noOp', name: 'Pinned', position: [40, 40] },
+  ], definitions);
+
+  const positions = positionsOf(result);
+  assert.deepEqual(positions.Start, [1000, 500]);
+  assert.deepEqual(positions.Set, [1400, 300]);
+  assert.deepEqual(positions.Far, [-600, 900]);
+  assert.deepEqual(positions.Pinned, [40, 40]);
+  assert.deepEqual(positions.Next, [1660, 300]);
+});
+
+test('full layout still repositions every node', () => {
+  const positions = positionsOf(layoutWorkflow(createArrangedWorkflow()));
+  assert.deepEqual(positions.Start, [0, 0]);
+  assert.deepEqual(positions.Set, [260, 0]);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { N8nNodeDefinition, N8nWorkflow } from '../src/types.js';
+import { createEmptyWorkflow } from '../src/lib/workflow-utils.js';
+import { applyWorkflowOperations, WorkflowOperation, WorkflowOperationError } from '../src/lib/workflow-operations.js';
+
+const noOpDefinition: N8nNodeDefinition = {
+  name: 'n8n-nodes-base.noOp',
+  displayName: 'No Operation, do nothing',
+  description: 'No operation',
+  version: 1,
+  defaults: { name: 'No Operation, do nothing', color: '#b0b0b0' },
+  inputs: ['main'],
+  outputs: ['main'],
+  properties: [],
+};
+const nodeDefinitions = new Map([[noOpDefinition.name, noOpDefinition]]);
+
+function createWorkflow(): N8nWorkflow {
+  const workflow = createEmptyWorkflow('Batch');
+  workflow.nodes = [
+    { id: 'a', name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} },
+    { id: 'b', name: 'Next', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [200, 0], parameters: {} },
+  ];
+  workflow.connections = { Start: { main: [[{ node: 'Next', type: 'main', index: 0 }]] } };
+  return workflow;
+}
+
+test('a batch can refer to nodes added and renamed earlier in it', () => {
+  const { workflow, results } = applyWorkflowOperations(createWorkflow(), [
+    { op: 'addNode', type: 'n8n-nodes-base.noOp', name: 'Extra' },
+    { op: 'renameNode', node: 'Next', new_name: 'Middle' },
+    { op: 'connect', from: 'Middle', to: 'Extra' },
+  ], nodeDefinitions);
+
+  assert.equal(results.length, 3);
+  assert.deepEqual(workflow.nodes.map(node => node.name), ['Start', 'Middle', 'Extra']);
+  assert.deepEqual(workflow.connections, {
+    Start: { main: [[{ node: 'Middle', type: 'main', index: 0 }]] },
+    Middle: { main: [[{ node: 'Extra', type: 'main', index: 0 }]] },
+  });
+});
+
+test('a failing operation rolls back the whole batch', () => {
+  const original = createWorkflow();
+  const snapshot = structuredClone(original);
+  const operations: WorkflowOperation[] = [
+    { op: 'addNode', type: 'n8n-nodes-base.noOp', name: 'Extra' },
+    { op: 'renameNode', node: 'Start', new_name: 'Trigger' },
+    { op: 'setSettings', settings: { timezone: 'UTC' } },
+    { op: 'disconnect', from: 'Trigger', to: 'Extra' },
+  ];
+
+  assert.throws(
+    () => applyWorkflowOperations(original, operations, nodeDefinitions),
+    (error: unknown) => {
+      assert.ok(error instanceof WorkflowOperationError);
+      assert.equal(error.operationIndex, 3);
+      assert.equal(error.message, "Operation 4 (disconnect): No main connection from 'Trigger' to 'Extra'");
+      return true;
+    }
+  );
+  assert.deepEqual(original, snapshot);
+});
+
+test('operations on unknown node types and nodes fail with their position in the batch', () => {
+  assert.throws(
+    () => applyWorkflowOperations(createWorkflow(), [
+      { op: 'removeNode', node: 'Next' },
+      { op: 'addNode', type: 'n8n-nodes-base.unknown' },
+    ], nodeDefinitions),
+    /^WorkflowOperationError: Operation 2 \(addNode\): Node type 'n8n-nodes-base.unknown' not found or not supported$/
+  );
+  assert.throws(
+    () => applyWorkflowOperations(createWorkflow(), [{ op: 'updateNode', node: 'Missing', notes: 'x' }], nodeDefinitions),
+    (error: unknown) => error instanceof WorkflowOperationError && error.operationIndex === 0
+  );
+});
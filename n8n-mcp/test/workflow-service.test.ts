@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryWorkflowStorage } from '../src/services/workflow-storage.js';
+import { WorkflowConflictError, WorkflowService } from '../src/services/workflow-service.js';
+import { addNodeToWorkflow, createWorkflowNode } from '../src/lib/workflow-utils.js';
+import { layoutWorkflow } from '../src/lib/workflow-layout.js';
+
+async function createEditedWorkflow(service: WorkflowService) {
+  const workflow = await service.createWorkflow('Edited');
+  const edited = addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.manualTrigger', 'Start', [0, 0], {}, 1));
+  await service.saveWorkflow(edited);
+  return edited;
+}
+
+test('undo restores the previous version and drops its revision', async () => {
+  const service = new WorkflowService(new InMemoryWorkflowStorage());
+  await createEditedWorkflow(service);
+
+  const result = await service.undoLastChange('Edited');
+
+  assert.equal(result?.workflow.nodes.length, 0);
+  assert.equal((await service.loadWorkflow('Edited'))?.nodes.length, 0);
+  assert.deepEqual(await service.getHistory().listRevisions('Edited'), []);
+});
+
+test('a save racing an undo is rejected instead of being overwritten', async () => {
+  const service = new WorkflowService(new InMemoryWorkflowStorage());
+  const loaded = await createEditedWorkflow(service);
+  const stale = { ...loaded, settings: { timezone: 'UTC' } };
+
+  const [undo, save] = await Promise.allSettled([service.undoLastChange('Edited'), service.saveWorkflow(stale)]);
+
+  assert.equal(undo.status, 'fulfilled');
+  assert.equal(save.status, 'rejected');
+  assert.ok((save as PromiseRejectedResult).reason instanceof WorkflowConflictError);
+  assert.equal((await service.loadWorkflow('Edited'))?.nodes.length, 0);
+});
+
+test('restoring a revision replaces the version it was chosen against', async () => {
+  const service = new WorkflowService(new InMemoryWorkflowStorage());
+  await createEditedWorkflow(service);
+  const [revision] = await service.getHistory().listRevisions('Edited');
+
+  const restored = await service.restoreRevision('Edited', revision.revisionId);
+
+  const stored = await service.loadWorkflow('Edited');
+  assert.equal(stored?.nodes.length, 0);
+  assert.equal(stored?.versionId, restored?.versionId);
+  assert.equal((await service.getHistory().listRevisions('Edited')).length, 2);
+});
+
+test('layout edits and renames move a workflow to the top of the recently updated list', async () => {
+  const service = new WorkflowService(new InMemoryWorkflowStorage());
+  const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+  const recentlyUpdated = async () => (await service.listWorkflowSummaries()).workflows.map(summary => summary.name);
+  const workflow = await service.createWorkflow('Edited');
+  await service.saveWorkflow(addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.manualTrigger', 'Start', [400, 400], {}, 1)));
+  await tick();
+  await service.createWorkflow('Other');
+  assert.deepEqual(await recentlyUpdated(), ['Other', 'Edited']);
+
+  // Layout only moves nodes and leaves updatedAt as the caller loaded it
+  await tick();
+  await service.saveWorkflow(layoutWorkflow((await service.loadWorkflow('Edited'))!));
+  assert.deepEqual(await recentlyUpdated(), ['Edited', 'Other']);
+
+  await tick();
+  await service.renameWorkflow('Other', 'Renamed');
+  assert.deepEqual(await recentlyUpdated(), ['Renamed', 'Edited']);
+});
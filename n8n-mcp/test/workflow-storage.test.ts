@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileSystemWorkflowStorage } from '../src/services/workflow-storage.js';
+import { WorkflowService } from '../src/services/workflow-service.js';
+
+async function withWorkspace(callback: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'n8n-mcp-storage-'));
+  try {
+    await callback(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function readIndex(dir: string): Promise<Record<string, string>> {
+  return JSON.parse(await fs.readFile(path.join(dir, '.workflow-index.json'), 'utf-8')).workflows;
+}
+
+async function listWorkflowFiles(dir: string): Promise<string[]> {
+  return (await fs.readdir(dir)).filter(file => file.endsWith('.json') && !file.startsWith('.')).sort();
+}
+
+test('a case-only rename keeps the file and leaves one index entry', () => withWorkspace(async dir => {
+  const service = new WorkflowService(new FileSystemWorkflowStorage(dir));
+  await service.createWorkflow('Foo');
+
+  await service.renameWorkflow('Foo', 'foo');
+
+  assert.deepEqual(await readIndex(dir), { foo: 'foo' });
+  assert.deepEqual(await listWorkflowFiles(dir), ['foo.json']);
+  assert.deepEqual(await service.listWorkflows(), ['foo']);
+  assert.equal((await service.loadWorkflow('foo'))?.name, 'foo');
+  assert.equal(await service.loadWorkflow('Foo'), null);
+}));
+
+test('a rename to a new slug moves the file and its history', () => withWorkspace(async dir => {
+  const service = new WorkflowService(new FileSystemWorkflowStorage(dir));
+  const workflow = await service.createWorkflow('A/../B');
+  await service.saveWorkflow({ ...workflow, settings: { timezone: 'UTC' } });
+
+  await service.renameWorkflow('A/../B', 'Other');
+
+  assert.deepEqual(await readIndex(dir), { Other: 'other' });
+  assert.deepEqual(await listWorkflowFiles(dir), ['other.json']);
+  assert.deepEqual(await fs.readdir(path.join(dir, '.history')), ['other']);
+  assert.deepEqual(await service.listWorkflows(), ['Other']);
+  assert.equal((await service.getHistory().listRevisions('Other')).length, 1);
+
+  // A fresh instance reads the same index back from disk
+  assert.deepEqual(await new WorkflowService(new FileSystemWorkflowStorage(dir)).listWorkflows(), ['Other']);
+}));
+
+test('a rename never takes the slug of another workflow', () => withWorkspace(async dir => {
+  const service = new WorkflowService(new FileSystemWorkflowStorage(dir));
+  await service.createWorkflow('Report');
+  await service.createWorkflow('Draft');
+
+  await service.renameWorkflow('Draft', 'report!');
+
+  assert.deepEqual(await readIndex(dir), { Report: 'report', 'report!': 'report-2' });
+  assert.deepEqual(await listWorkflowFiles(dir), ['report-2.json', 'report.json']);
+  assert.deepEqual((await service.listWorkflows()).sort(), ['Report', 'report!']);
+}));
+
+test('a rename by another process is picked up and kept when this process adds a workflow', () => withWorkspace(async dir => {
+  const first = new WorkflowService(new FileSystemWorkflowStorage(dir));
+  const second = new WorkflowService(new FileSystemWorkflowStorage(dir));
+  await first.createWorkflow('Foo');
+  assert.deepEqual(await second.listWorkflows(), ['Foo']);
+
+  await first.renameWorkflow('Foo', 'FOO');
+
+  assert.equal((await second.loadWorkflow('FOO'))?.name, 'FOO');
+  assert.equal(await second.loadWorkflow('Foo'), null);
+
+  await second.createWorkflow('Bar');
+  assert.deepEqual(await readIndex(dir), { FOO: 'foo', Bar: 'bar' });
+  assert.deepEqual((await first.listWorkflows()).sort(), ['Bar', 'FOO']);
+}));
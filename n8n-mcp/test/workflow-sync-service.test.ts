@@ -0,0 +1,185 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { AddressInfo } from 'net';
+import { Workflow } from '../src/types/n8n-api.js';
+import { InMemoryWorkflowStorage } from '../src/services/workflow-storage.js';
+import { WorkflowService } from '../src/services/workflow-service.js';
+import { WorkflowSyncService } from '../src/services/workflow-sync-service.js';
+import { N8nApiClient } from '../src/services/n8n-api-client.js';
+import { addConnectionToWorkflow, addNodeToWorkflow, createWorkflowNode } from '../src/lib/workflow-utils.js';
+import { layoutWorkflow } from '../src/lib/workflow-layout.js';
+
+interface FakeN8n {
+  client: N8nApiClient;
+  workflows: Map<string, Workflow>;
+  close: () => void;
+}
+
+/**
+ * Serve the workflow endpoints of the n8n public API from memory
+ */
+async function startFakeN8n(responseDelayMs: number = 0): Promise<FakeN8n> {
+  const workflows = new Map<string, Workflow>();
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      await new Promise(resolve => setTimeout(resolve, responseDelayMs));
+      const [, id] = req.url!.match(/^\/api\/v1\/workflows(?:\/([^/?]+))?/) || [];
+      const save = (workflow: Workflow) => {
+        const saved = { ...workflow, versionId: randomUUID(), updatedAt: new Date().toISOString() };
+        workflows.set(saved.id!, saved);
+        return saved;
+      };
+
+      res.setHeader('Content-Type', 'application/json');
+      if (req.method === 'POST' && !id) {
+        res.end(JSON.stringify(save({ ...JSON.parse(body), id: randomUUID() })));
+      } else if (id && workflows.has(id) && req.method === 'GET') {
+        res.end(JSON.stringify(workflows.get(id)));
+      } else if (id && workflows.has(id) && req.method === 'PUT') {
+        res.end(JSON.stringify(save({ ...workflows.get(id)!, ...JSON.parse(body), id })));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ message: 'Not found' }));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { client: new N8nApiClient({ baseUrl, apiKey: 'test-key', maxRetries: 1 }), workflows, close: () => server.close() };
+}
+
+async function createLocalWorkflow(service: WorkflowService, name: string) {
+  let workflow = await service.createWorkflow(name);
+  workflow = addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.manualTrigger', 'Start', [900, 900], {}, 1));
+  workflow = addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.noOp', 'Next', [100, 100], {}, 1));
+  workflow = addConnectionToWorkflow(workflow, 'Start', 'main', 'Next', 'main', 0);
+  await service.saveWorkflow(workflow);
+}
+
+test('pull refuses to overwrite a workflow changed by auto layout since the last sync', async () => {
+  const n8n = await startFakeN8n();
+  try {
+    const service = new WorkflowService(new InMemoryWorkflowStorage());
+    const sync = new WorkflowSyncService(service, n8n.client);
+    await createLocalWorkflow(service, 'Laid Out');
+    assert.equal((await sync.push('Laid Out')).success, true);
+
+    // Layout changes only positions and keeps updatedAt as it was
+    await service.saveWorkflow(layoutWorkflow((await service.loadWorkflow('Laid Out'))!));
+
+    const pulled = await sync.pull('Laid Out');
+    assert.equal(pulled.success, false);
+    assert.match(pulled.message, /was modified since the last sync/);
+    assert.equal((await sync.status('Laid Out'))[0].state, 'local-changes');
+    assert.deepEqual((await service.loadWorkflow('Laid Out'))!.nodes.map(node => node.position), [[0, 0], [260, 0]]);
+  } finally {
+    n8n.close();
+  }
+});
+
+test('concurrent pushes of different workflows keep both manifest entries', async () => {
+  const n8n = await startFakeN8n(50);
+  try {
+    const service = new WorkflowService(new InMemoryWorkflowStorage());
+    const sync = new WorkflowSyncService(service, n8n.client);
+    await createLocalWorkflow(service, 'First');
+    await createLocalWorkflow(service, 'Second');
+
+    const results = await Promise.all([sync.push('First'), sync.push('Second')]);
+    assert.deepEqual(results.map(result => result.success), [true, true]);
+
+    const manifest = await sync.loadManifest();
+    assert.deepEqual(Object.keys(manifest.workflows).sort(), ['First', 'Second']);
+
+    // Both stay linked, so pushing again updates them instead of creating copies
+    await Promise.all([sync.push('First'), sync.push('Second')]);
+    assert.equal(n8n.workflows.size, 2);
+  } finally {
+    n8n.close();
+  }
+});
+
+test('a push racing a rename of a synced workflow updates the linked remote workflow', async () => {
+  const n8n = await startFakeN8n();
+  try {
+    const service = new WorkflowService(new InMemoryWorkflowStorage());
+    const sync = new WorkflowSyncService(service, n8n.client);
+    await createLocalWorkflow(service, 'Before');
+    assert.equal((await sync.push('Before')).success, true);
+
+    const [renamed, pushed] = await Promise.all([service.renameWorkflow('Before', 'After'), sync.push('After')]);
+
+    assert.equal(renamed?.remoteLinkKept, true);
+    assert.equal(pushed.success, true);
+    assert.equal(n8n.workflows.size, 1);
+    assert.deepEqual(Object.keys((await sync.loadManifest()).workflows), ['After']);
+  } finally {
+    n8n.close();
+  }
+});
+
+test('push refuses to overwrite remote edits or recreate a deleted remote workflow without force', async () => {
+  const n8n = await startFakeN8n();
+  try {
+    const service = new WorkflowService(new InMemoryWorkflowStorage());
+    const sync = new WorkflowSyncService(service, n8n.client);
+    await createLocalWorkflow(service, 'Shared');
+    const { remoteId } = await sync.push('Shared');
+
+    // Edited in the n8n editor since the last sync
+    n8n.workflows.set(remoteId!, { ...n8n.workflows.get(remoteId!)!, versionId: 'edited-in-n8n' });
+    const refused = await sync.push('Shared');
+    assert.equal(refused.success, false);
+    assert.match(refused.message, /was modified since the last sync/);
+    assert.equal(n8n.workflows.get(remoteId!)!.versionId, 'edited-in-n8n');
+    assert.equal((await sync.push('Shared', true)).success, true);
+
+    n8n.workflows.delete(remoteId!);
+    const missing = await sync.push('Shared');
+    assert.equal(missing.success, false);
+    assert.match(missing.message, /no longer exists/);
+    assert.equal(n8n.workflows.size, 0);
+
+    const recreated = await sync.push('Shared', true);
+    assert.equal(recreated.created, true);
+    assert.notEqual(recreated.remoteId, remoteId);
+    assert.equal((await sync.loadManifest()).workflows.Shared.remoteId, recreated.remoteId);
+  } finally {
+    n8n.close();
+  }
+});
+
+test('pull refuses to overwrite an unlinked or locally edited workflow without force', async () => {
+  const n8n = await startFakeN8n();
+  try {
+    const service = new WorkflowService(new InMemoryWorkflowStorage());
+    const sync = new WorkflowSyncService(service, n8n.client);
+    await createLocalWorkflow(service, 'Remote');
+    const { remoteId } = await sync.push('Remote');
+    await createLocalWorkflow(service, 'Unlinked');
+
+    const unlinked = await sync.pull('Unlinked', remoteId);
+    assert.equal(unlinked.success, false);
+    assert.match(unlinked.message, /exists and is not linked to remote workflow/);
+    assert.match((await sync.pull('Unlinked')).message, /is not linked to a remote workflow/);
+
+    const local = (await service.loadWorkflow('Remote'))!;
+    await service.saveWorkflow({ ...local, settings: { timezone: 'UTC' } });
+    const edited = await sync.pull('Remote');
+    assert.equal(edited.success, false);
+    assert.match(edited.message, /was modified since the last sync/);
+    assert.deepEqual((await service.loadWorkflow('Remote'))!.settings, { timezone: 'UTC' });
+
+    assert.equal((await sync.pull('Remote', undefined, true)).success, true);
+    assert.deepEqual((await service.loadWorkflow('Remote'))!.settings, {});
+    assert.equal((await sync.status('Remote'))[0].state, 'in-sync');
+  } finally {
+    n8n.close();
+  }
+});
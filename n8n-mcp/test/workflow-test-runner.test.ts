@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { N8nWorkflow } from '../src/types.js';
+import { createEmptyWorkflow } from '../src/lib/workflow-utils.js';
+import { MockN8nApiClient } from '../src/services/mock-n8n-client.js';
+import { N8nApiClient } from '../src/services/n8n-api-client.js';
+import { WorkflowTestRunner } from '../src/services/workflow-test-runner.js';
+
+function createTestWorkflow(): N8nWorkflow {
+  const workflow = createEmptyWorkflow('Signup');
+  workflow.nodes = [
+    { id: '1', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: { path: 'signup', httpMethod: 'POST' } },
+    { id: '2', name: 'Lookup', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: {} },
+    { id: '3', name: 'Done', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [400, 0], parameters: {} },
+    { id: '4', name: 'Orphan', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [400, 200], parameters: {} },
+  ];
+  workflow.connections = {
+    Webhook: { main: [[{ node: 'Lookup', type: 'main', index: 0 }]] },
+    Lookup: { main: [[{ node: 'Done', type: 'main', index: 0 }]] },
+  };
+  workflow.pinData = { Lookup: [{ json: { plan: 'pro' } }], Orphan: [{ json: { never: true } }] };
+  return workflow;
+}
+
+test('mock instance derives node outputs from the input and the connections', async () => {
+  const workflow = createTestWorkflow();
+  const runner = new WorkflowTestRunner(new MockN8nApiClient(workflow));
+
+  const result = await runner.run({
+    workflow,
+    remoteWorkflowId: workflow.id,
+    input: { email: 'a@example.com' },
+    expectedOutputs: {
+      Webhook: [{ body: { email: 'a@example.com' } }],
+      Done: [{ plan: 'pro' }],
+    },
+  });
+  assert.equal(result.passed, true, JSON.stringify(result.assertions));
+
+  // Pinned but unreachable nodes do not run, so their pinned data is not replayed
+  const orphan = await runner.run({
+    workflow,
+    remoteWorkflowId: workflow.id,
+    input: {},
+    expectedOutputs: { Orphan: [{ never: true }] },
+  });
+  assert.equal(orphan.passed, false);
+  assert.deepEqual(orphan.assertions[0].mismatches, ['Node did not run']);
+});
+
+test('mock instance fails when the output differs from the expectation', async () => {
+  const workflow = createTestWorkflow();
+  const result = await new WorkflowTestRunner(new MockN8nApiClient(workflow)).run({
+    workflow,
+    remoteWorkflowId: workflow.id,
+    input: { email: 'a@example.com' },
+    expectedOutputs: { Webhook: [{ body: { email: 'b@example.com' } }] },
+  });
+
+  assert.equal(result.passed, false);
+  assert.match(result.assertions[0].mismatches[0], /item\[0\]\.body\.email/);
+});
+
+test('live runs call the production webhook with the node method and wait for a new execution', async () => {
+  const workflow = createTestWorkflow();
+  const requests: string[] = [];
+  // The instance's clock is behind ours, so its new execution looks older than the trigger
+  const startedAt = new Date(Date.now() - 60000).toISOString();
+  const earlier = { id: '41', finished: true, status: 'success', startedAt, stoppedAt: startedAt };
+  const execution = {
+    id: '42',
+    finished: true,
+    status: 'success',
+    startedAt,
+    stoppedAt: startedAt,
+    data: { resultData: { runData: { Done: [{ data: { main: [[{ json: { plan: 'pro' } }]] } }] } } },
+  };
+  let triggered = false;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push(`${req.method} ${req.url} ${body}`);
+      res.setHeader('content-type', 'application/json');
+      if (req.url === '/webhook/signup') {
+        triggered = true;
+        res.end(JSON.stringify({ message: 'Workflow was started' }));
+      } else if (req.url?.startsWith('/api/v1/executions?')) {
+        const executions = triggered ? [execution, earlier] : [earlier];
+        res.end(JSON.stringify({ data: executions, total: executions.length }));
+      } else if (req.url?.startsWith('/api/v1/executions/42')) {
+        res.end(JSON.stringify(execution));
+      } else {
+        res.statusCode = 404;
+        res.end('{}');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const client = new N8nApiClient({ baseUrl: `http://127.0.0.1:${port}`, apiKey: 'key' });
+    const result = await new WorkflowTestRunner(client).run({
+      workflow,
+      remoteWorkflowId: 'remote-1',
+      input: { email: 'a@example.com' },
+      expectedOutputs: { Done: [{ plan: 'pro' }] },
+      pollIntervalMs: 10,
+    });
+
+    assert.equal(result.passed, true, JSON.stringify(result));
+    assert.equal(result.executionId, '42');
+    assert.equal(requests[1], 'POST /webhook/signup {"email":"a@example.com"}');
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getWorkflowService } from '../src/services/workflow-service.js';
+import { addNodeToWorkflow, createWorkflowNode } from '../src/lib/workflow-utils.js';
+import { applyWorkflowOperationsTool, diffWorkflowsTool, renderWorkflowDiagramTool } from '../src/tools/workflow-tools.js';
+import { undoLastChangeTool } from '../src/tools/history-tools.js';
+
+// Storage configuration is read on every call, so this keeps the tests off the disk
+process.env.WORKFLOW_STORAGE = 'memory';
+
+async function createWorkflowIn(workspace: string, name: string) {
+  const service = getWorkflowService(workspace);
+  const workflow = await service.createWorkflow(name);
+  await service.saveWorkflow(addNodeToWorkflow(workflow, createWorkflowNode('n8n-nodes-base.manualTrigger', 'Start', [0, 0], {}, 1)));
+}
+
+test('workflow tools act on the workspace given per call', async () => {
+  await createWorkflowIn('alpha', 'Shared');
+  await createWorkflowIn('beta', 'Shared');
+
+  const applied = await applyWorkflowOperationsTool.execute({
+    workflow_name: 'Shared',
+    operations: [{ op: 'renameNode', node: 'Start', new_name: 'Begin' }],
+    workflow_path: 'alpha/shared.json',
+  });
+  assert.match(applied, /^Applied 1 operations/);
+
+  assert.ok((await getWorkflowService('alpha').loadWorkflow('Shared'))!.nodes.some(node => node.name === 'Begin'));
+  assert.ok((await getWorkflowService('beta').loadWorkflow('Shared'))!.nodes.some(node => node.name === 'Start'));
+  assert.equal(await getWorkflowService().loadWorkflow('Shared'), null);
+
+  const diagram = await renderWorkflowDiagramTool.execute({ workflow_name: 'Shared', workflow_path: 'beta/shared.json' });
+  assert.match(diagram, /Start/);
+  assert.doesNotMatch(diagram, /Begin/);
+
+  const missing = await diffWorkflowsTool.execute({ base_workflow_name: 'Shared', compare_workflow_name: 'Shared' });
+  assert.equal(missing, "Error: Workflow 'Shared' not found");
+});
+
+test('history tools undo changes in the workspace given per call', async () => {
+  await createWorkflowIn('gamma', 'Undo Me');
+  await applyWorkflowOperationsTool.execute({
+    workflow_name: 'Undo Me',
+    operations: [{ op: 'renameNode', node: 'Start', new_name: 'Renamed' }],
+    workflow_path: 'gamma/undo-me.json',
+  });
+
+  const undone = await undoLastChangeTool.execute({ workflow_name: 'Undo Me', workflow_path: 'gamma/undo-me.json' });
+  assert.match(undone, /^Undid the last change/);
+  assert.ok((await getWorkflowService('gamma').loadWorkflow('Undo Me'))!.nodes.some(node => node.name === 'Start'));
+});